@@ -3,14 +3,29 @@ import Head from 'next/head'
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 interface Candle { time:number; open:number; high:number; low:number; close:number; volume:number }
-interface OrderBlock { id:string; type:'BULLISH'|'BEARISH'; top:number; bottom:number; bodyTop:number; bodyBottom:number; time:number; strength:'STRONG'|'MODERATE'|'WEAK' }
-interface FVG { id:string; type:'BULLISH'|'BEARISH'; top:number; bottom:number; size:number; midpoint:number }
+interface OrderBlock { id:string; type:'BULLISH'|'BEARISH'; top:number; bottom:number; bodyTop:number; bodyBottom:number; time:number; strength:'STRONG'|'MODERATE'|'WEAK'; touched:number; status:'FRESH'|'MITIGATED'|'BREAKER'|'INVALIDATED'; mitigatedAt:number|null }
+interface FVG { id:string; type:'BULLISH'|'BEARISH'; top:number; bottom:number; size:number; midpoint:number; state:'UNFILLED'|'PARTIAL'|'FILLED'|'INVERSION'; fillPercent:number }
+interface DealingRange { high:number; low:number; direction:'BULLISH'|'BEARISH'; equilibrium:number; zone:'PREMIUM'|'DISCOUNT'|'EQUILIBRIUM'; positionPct:number; ote:{ buy:[number,number]; sell:[number,number] } }
 interface SRLevel { price:number; type:string; touches:number; strength:number }
+interface VWAPPoint { time:number; vwap:number; upper1:number; lower1:number; upper2:number; lower2:number }
+interface AnchoredVWAP { anchor:'SESSION'|'DAY'|'WEEK'|'CUSTOM'; vwap:number; series:VWAPPoint[] }
+interface VolumeProfile { id:string; label:string; complete:boolean; end:number; poc:number; vah:number; val:number }
+interface KeyLevel { id:string; label:string; kind:'OPEN'|'PREVIOUS'|'PIVOT'|'CAMARILLA'; price:number }
+interface StructurePoint { type:'HIGH'|'LOW'; price:number; time:number; label:'HH'|'HL'|'LH'|'LL'|null }
+interface StructureEvent { type:'BOS'|'CHoCH'; direction:'BULLISH'|'BEARISH'; degree:'INTERNAL'|'SWING'; level:number; swingTime:number; time:number }
+interface StructureDegreeMap { trend:'BULLISH'|'BEARISH'|'NEUTRAL'; points:StructurePoint[]; events:StructureEvent[] }
 interface AMDPhase { phase:string; description:string; bias:'BULLISH'|'BEARISH'|'NEUTRAL'; sessionHigh:number; sessionLow:number; asiaHigh?:number; asiaLow?:number; manipulation:string }
-interface GoldSignal { action:'BUY'|'SELL'|'WAIT'; confidence:number; entry:number; entryZone:[number,number]; stopLoss:number; tp1:number; tp2:number; tp3:number; rr1:number; rr2:number; rr3:number; pips:{sl:number;tp1:number;tp2:number;tp3:number}; confluences:string[]; invalidation:string; sessionBias:string }
+interface GoldSignal { action:'BUY'|'SELL'|'WAIT'; confidence:number; entry:number; entryZone:[number,number]; entryCandidates?:{source:string;price:number;ref:string}[]; stopLoss:number; tp1:number; tp2:number; tp3:number; rr1:number; rr2:number; rr3:number; pips:{sl:number;tp1:number;tp2:number;tp3:number}; confluences:string[]; invalidation:string; sessionBias:string; entryType?:'MARKET'|'BREAKOUT' }
 interface NewsEvent { Name:string; Currency:string; Category:string; Impact:'High'|'Medium'|'Low'|'None'; Date:string; Actual:number|null; Forecast:number|null; Previous:number|null; Outcome:string; Strength:string; Quality:string }
 interface NewsRisk { level:'RED'|'ORANGE'|'YELLOW'|'GREEN'; label:string; reason:string; avoid:boolean; events:NewsEvent[] }
 interface NewsBias { bias:'BULLISH_GOLD'|'BEARISH_GOLD'|'NEUTRAL'; score:number; summary:string }
+interface MTAResult { timeframe:string; trend:'UP'|'DOWN'|'RANGING'; rsi:number; signal:'BUY'|'SELL'|'WAIT'; keyLevel:number|null; alignment:number }
+interface PatternEvidence { samples:number; hitRate1R:number; hitRate2R:number; session:string }
+interface CandlePattern { name:string; type:'bullish'|'bearish'|'neutral'; strength:string; confidence:number; evidence?:PatternEvidence }
+interface ChartPattern { name:string; direction:'bullish'|'bearish'; state:'FORMING'|'CONFIRMED'; breakoutLevel:number; targetLevel:number; confidence:number; evidence?:PatternEvidence }
+interface MethodSize { method:'FIXED_FRACTIONAL'|'KELLY'|'VOLATILITY_ADJUSTED'; lots:number; dollarRisk:number; risk:number; riskPercent:number; margin:number; note:string }
+interface PositionSizeReport { account:{ currency:string; usdRate:number }; stopDistance:number; sizes:MethodSize[] }
+interface MTAAlignment { aligned:boolean; strength:number; direction:'BUY'|'SELL'|'NEUTRAL' }
 
 interface GoldSpot { timestamp:number; metal:string; currency:string; ask:number; bid:number; price:number; ch:number; chp:number; prev_close_price:number; price_gram_24k:number; price_gram_22k:number; price_gram_21k:number; price_gram_18k:number; spread:number; spreadPct:number }
 interface SpotInsights { spreadQuality:'TIGHT'|'NORMAL'|'WIDE'; spreadNote:string; entryNote:string; weeklyRange?:{high:number;low:number;midpoint:number;positionPct:number}; weeklyTrend?:string; gramPrices:{oz_24k:number;oz_22k:number;oz_21k:number;oz_18k:number;g_24k:number;g_22k:number;g_21k:number;g_18k:number} }
@@ -18,9 +33,15 @@ interface SpotInsights { spreadQuality:'TIGHT'|'NORMAL'|'WIDE'; spreadNote:strin
 interface AnalysisData {
   quote: { symbol:string; close:number; change:number; percent_change:number; high:number; low:number; open:number; volume:number; fifty_two_week:{low:number;high:number} }
   candles: Candle[]
-  rsi: number; macd:{macd:number;signal:number;histogram:number}; bbands:{upper:number;middle:number;lower:number}; atr:number
-  amd: AMDPhase; orderBlocks:OrderBlock[]; fvgs:FVG[]; srLevels:SRLevel[]
+  rsi: number; macd:{macd:number;signal:number;histogram:number}; bbands:{upper:number;middle:number;lower:number}; atr:number; avgAtr?:number
+  amd: AMDPhase; orderBlocks:OrderBlock[]; fvgs:FVG[]; srLevels:SRLevel[]; dealingRange?:DealingRange|null
+  structure?: { swing:StructureDegreeMap; internal:StructureDegreeMap }
+  levels?: { levels:KeyLevel[] }
+  volume?: { weighting:'VOLUME'|'TICK_PROXY'; vwap:AnchoredVWAP[]; profiles:VolumeProfile[] } | null
   signal: GoldSignal; narrative: string; timestamp: string
+  profile?: { id:string; name:string; description:string }
+  mta?: { timeframes: MTAResult[]; alignment: MTAAlignment }
+  priceAction?: { patterns: CandlePattern[]; chartPattern: ChartPattern|null; calibrated?: boolean }
   news: { today: NewsEvent[]; upcoming: NewsEvent[]; risk: NewsRisk; bias: NewsBias }
   spot: (GoldSpot & { insights: SpotInsights; history: any[] }) | null
 }
@@ -31,6 +52,12 @@ const INTERVALS = [
 ]
 const ALLOWED_INTERVALS = new Set(INTERVALS.map(iv => iv.value))
 
+// Strategy profiles served by /api/analyze (lib/strategyprofiles.ts); interval is the profile's own timeframe
+const PROFILES: { label:string; value:string; interval?:string }[] = [
+  { label:'HYBRID', value:'hybrid' }, { label:'ICT ONLY', value:'ict-only' }, { label:'PA ONLY', value:'pa-only' },
+  { label:'CONSERVATIVE', value:'hybrid-conservative' }, { label:'SCALPER M15', value:'scalper-m15', interval:'15min' },
+]
+
 const f = (n:number, d=2) => (n??0).toFixed(d)
 const fSign = (n:number, d=2) => `${n>=0?'+':''}${n.toFixed(d)}`
 
@@ -38,25 +65,33 @@ const fSign = (n:number, d=2) => `${n>=0?'+':''}${n.toFixed(d)}`
 const phaseColor = (p:string) =>
   p==='ACCUMULATION'?'var(--amber)':p==='MANIPULATION'?'var(--red)':p==='DISTRIBUTION'?'var(--green)':'var(--text2)'
 
+const mtaColor = (a:string) =>
+  a==='BUY'?'var(--green)':a==='SELL'?'var(--red)':'var(--amber)'
+
 const phaseIcon = (p:string) =>
   p==='ACCUMULATION'?'◈':p==='MANIPULATION'?'⚡':p==='DISTRIBUTION'?'◆':'○'
 
 export default function GoldTerminal() {
   const [interval, setInterval_] = useState('1h')
+  const [profile,  setProfile]   = useState('hybrid')
   const [data,     setData]      = useState<AnalysisData|null>(null)
   const [loading,  setLoading]   = useState(false)
   const [error,    setError]     = useState('')
   const [autoRef,  setAutoRef]   = useState(true)  // Auto-refresh ON by default
   const [highContrast, setHighContrast] = useState(false)
+  const [showLevels, setShowLevels] = useState(true)
   const [lastUp,   setLastUp]    = useState<Date|null>(null)
   const chartRef    = useRef<HTMLDivElement>(null)
   const chartInst   = useRef<any>(null)
   const seriesRef   = useRef<any>(null)
+  const priceLines  = useRef<any[]>([])
+  const breakSeries = useRef<any[]>([])
+  const vwapSeries  = useRef<any[]>([])
   const rafRef      = useRef<number | null>(null)
   const lastAutoRun = useRef<number>(0)
   const analyzingRef = useRef(false)
 
-  const analyze = useCallback(async (int = interval) => {
+  const analyze = useCallback(async (int = interval, prof = profile) => {
     if (analyzingRef.current) return
     const selectedInterval = ALLOWED_INTERVALS.has(int) ? int : '1h'
     analyzingRef.current = true
@@ -68,7 +103,7 @@ export default function GoldTerminal() {
       const res  = await fetch('/api/analyze', {
         method:'POST',
         headers:{'Content-Type':'application/json'},
-        body:JSON.stringify({ interval: selectedInterval, symbol: 'XAUUSD' }),
+        body:JSON.stringify({ interval: selectedInterval, symbol: 'XAUUSD', profile: prof }),
         signal: controller.signal,
       })
       if (timeout) clearTimeout(timeout)
@@ -95,7 +130,7 @@ export default function GoldTerminal() {
       analyzingRef.current = false
       setLoading(false)
     }
-  }, [interval])
+  }, [interval, profile])
 
   // Auto-fetch fresh data on page load
   useEffect(() => {
@@ -132,30 +167,99 @@ export default function GoldTerminal() {
       seriesRef.current.setData(data.candles.map(c => ({ time:c.time as any, open:c.open, high:c.high, low:c.low, close:c.close })))
 
       // Remove old price lines and redraw
-      try { chartInst.current.removeAllPriceLines?.() } catch {}
+      priceLines.current.forEach(pl => { try { seriesRef.current.removePriceLine(pl) } catch {} })
+      priceLines.current = []
+      const addLine = (opts: any) => { priceLines.current.push(seriesRef.current.createPriceLine(opts)) }
 
       const sig = data.signal
       if (sig.action !== 'WAIT') {
         // Only show essential trade levels - cleaner chart
         const pls = [
-          { price:sig.entry,   color:'#c9a84c', title:'ENTRY',  lineWidth:2, lineStyle:0 },
+          { price:sig.entry,   color:'#c9a84c', title:sig.entryType==='BREAKOUT'?'BREAKOUT':'ENTRY', lineWidth:2, lineStyle:0 },
           { price:sig.stopLoss,color:'#e05c6a', title:'STOP',   lineWidth:2, lineStyle:2 },
           { price:sig.tp1,     color:'#3ddc97', title:'TP1',    lineWidth:2, lineStyle:2 },
         ]
-        pls.forEach(pl => seriesRef.current.createPriceLine(pl))
+        pls.forEach(addLine)
+
+        // OTE band of the dealing range on the signal's side
+        const ote = data.dealingRange ? (sig.action==='BUY' ? data.dealingRange.ote.buy : data.dealingRange.ote.sell) : null
+        if (ote) {
+          addLine({ price:ote[0], color:'rgba(201,168,76,0.35)', title:sig.action==='BUY'?'OTE 79%':'OTE 62%', lineWidth:1, lineStyle:LineStyle.Dotted })
+          addLine({ price:ote[1], color:'rgba(201,168,76,0.35)', title:sig.action==='BUY'?'OTE 62%':'OTE 79%', lineWidth:1, lineStyle:LineStyle.Dotted })
+        }
+
+        // Nearest consequent-encroachment level as a limit-entry alternative
+        const ce = sig.entryCandidates?.[0]
+        if (ce) addLine({ price:ce.price, color:'rgba(201,168,76,0.6)', title:ce.source==='IFVG_CE'?'IFVG CE':'FVG CE', lineWidth:1, lineStyle:LineStyle.Dashed })
 
         // Show only the 2 strongest S&R levels to avoid clutter
         data.srLevels.slice(0,2).forEach(sr => {
           const isSupport = sr.type.includes('SUPPORT')
           const c = isSupport ? 'rgba(61,220,151,0.4)' : 'rgba(224,92,106,0.4)'
           const label = isSupport ? 'SUPPORT' : 'RESISTANCE'
-          seriesRef.current.createPriceLine({ price:sr.price, color:c, title:label, lineWidth:1, lineStyle:LineStyle.Dotted })
+          addLine({ price:sr.price, color:c, title:label, lineWidth:1, lineStyle:LineStyle.Dotted })
+        })
+      }
+      // Equilibrium splits the dealing range into premium (above) and discount (below)
+      if (data.dealingRange) {
+        addLine({ price:data.dealingRange.equilibrium, color:'rgba(154,146,128,0.5)', title:`EQ · ${data.dealingRange.zone}`, lineWidth:1, lineStyle:LineStyle.Dotted })
+      }
+
+      // Key reference levels inside the charted range; the inner Camarilla bands would crowd the candles
+      if (showLevels && data.levels) {
+        const lo = Math.min(...data.candles.map(c => c.low))
+        const hi = Math.max(...data.candles.map(c => c.high))
+        const colors: Record<KeyLevel['kind'], string> = {
+          OPEN:'rgba(201,168,76,0.55)', PREVIOUS:'rgba(154,146,128,0.6)', PIVOT:'rgba(106,154,224,0.5)', CAMARILLA:'rgba(170,120,210,0.5)',
+        }
+        data.levels.levels
+          .filter(l => l.price >= lo && l.price <= hi && !['CAM_R1','CAM_R2','CAM_S1','CAM_S2'].includes(l.id))
+          .forEach(l => addLine({ price:l.price, color:colors[l.kind], title:l.id, lineWidth:1, lineStyle:l.kind==='OPEN'?LineStyle.Dashed:LineStyle.SparseDotted, axisLabelVisible:false }))
+      }
+
+      // Anchored VWAP (day, else week) with ±1σ bands, and the latest completed session's value area
+      vwapSeries.current.forEach(ls => { try { chartInst.current.removeSeries(ls) } catch {} })
+      vwapSeries.current = []
+      const vw = data.volume?.vwap.find(v => v.anchor==='DAY') ?? data.volume?.vwap.find(v => v.anchor==='WEEK')
+      if (vw) {
+        const bands: [keyof VWAPPoint, string, number][] = [['vwap','rgba(106,154,224,0.9)',2], ['upper1','rgba(106,154,224,0.35)',1], ['lower1','rgba(106,154,224,0.35)',1]]
+        bands.forEach(([key, color, lineWidth]) => {
+          const ls = chartInst.current.addLineSeries({ color, lineWidth, lastValueVisible:key==='vwap', priceLineVisible:false, crosshairMarkerVisible:false, title:key==='vwap'?`VWAP ${vw.anchor}`:'' })
+          ls.setData(vw.series.map(p => ({ time:p.time as any, value:p[key] })))
+          vwapSeries.current.push(ls)
+        })
+      }
+      const vp = data.volume?.profiles.filter(p => p.complete).sort((a,b) => b.end - a.end)[0]
+      if (vp) {
+        addLine({ price:vp.poc, color:'rgba(106,154,224,0.7)', title:'POC', lineWidth:1, lineStyle:LineStyle.Solid, axisLabelVisible:false })
+        addLine({ price:vp.vah, color:'rgba(106,154,224,0.45)', title:'VAH', lineWidth:1, lineStyle:LineStyle.Dashed, axisLabelVisible:false })
+        addLine({ price:vp.val, color:'rgba(106,154,224,0.45)', title:'VAL', lineWidth:1, lineStyle:LineStyle.Dashed, axisLabelVisible:false })
+      }
+
+      // Market structure: swing labels and BOS/CHoCH markers, plus a segment from each recent broken swing to its break
+      breakSeries.current.forEach(ls => { try { chartInst.current.removeSeries(ls) } catch {} })
+      breakSeries.current = []
+      const markers: any[] = []
+      if (data.structure) {
+        data.structure.swing.points.filter(p => p.label).forEach(p => markers.push({
+          time:p.time, position:p.type==='HIGH'?'aboveBar':'belowBar', color:'rgba(184,152,90,0.8)', shape:'circle', text:p.label,
+        }))
+        const events = [...data.structure.swing.events, ...data.structure.internal.events].sort((a,b) => a.time - b.time).slice(-6)
+        events.forEach(e => {
+          const color = e.direction==='BULLISH' ? '#3ddc97' : '#e05c6a'
+          const swing = e.degree==='SWING'
+          markers.push({ time:e.time, position:e.direction==='BULLISH'?'belowBar':'aboveBar', color, shape:e.direction==='BULLISH'?'arrowUp':'arrowDown', text:swing?e.type:`i${e.type}` })
+          const ls = chartInst.current.addLineSeries({ color, lineWidth:1, lineStyle:swing?LineStyle.Solid:LineStyle.Dashed, lastValueVisible:false, priceLineVisible:false, crosshairMarkerVisible:false })
+          ls.setData([{ time:e.swingTime as any, value:e.level }, { time:e.time as any, value:e.level }])
+          breakSeries.current.push(ls)
         })
       }
+      seriesRef.current.setMarkers(markers.sort((a,b) => a.time - b.time))
+
       chartInst.current.timeScale().fitContent()
     }
     init()
-  }, [data])
+  }, [data, showLevels])
 
   useEffect(() => {
     const onResize = () => { if (chartInst.current && chartRef.current) chartInst.current.applyOptions({ width: chartRef.current.clientWidth }) }
@@ -250,6 +354,18 @@ export default function GoldTerminal() {
                   </button>
                 ))}
               </div>
+              <select
+                style={s.ivBtn}
+                aria-label="Strategy profile"
+                value={profile}
+                onChange={e => {
+                  const next = PROFILES.find(p => p.value === e.target.value) ?? PROFILES[0]
+                  const iv = next.interval ?? interval
+                  setProfile(next.value); setInterval_(iv); analyze(iv, next.value)
+                }}
+              >
+                {PROFILES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+              </select>
               <button style={{ ...s.analyzeBtn, opacity: loading?0.5:1 }} aria-label="Run analysis now" onClick={() => analyze()} disabled={loading}>
                 {loading ? <span style={s.spinner} /> : '⟳ ANALYZE'}
               </button>
@@ -262,6 +378,15 @@ export default function GoldTerminal() {
               >
                 CONTRAST
               </button>
+              <button
+                type="button"
+                style={{ ...s.ivBtn, ...(showLevels ? s.ivBtnActive : {}) }}
+                aria-label="Toggle key levels on the chart"
+                aria-pressed={showLevels}
+                onClick={() => setShowLevels(v => !v)}
+              >
+                LEVELS
+              </button>
               <label style={s.toggleWrap} aria-label="Toggle auto refresh">
                 <div style={{ ...s.toggleBg, background: autoRef?'var(--gold-glow)':'var(--bg3)', borderColor: autoRef?'var(--gold)':'var(--border)' }}>
                   <div style={{ ...s.toggleThumb, transform: autoRef?'translateX(14px)':'translateX(0)', background: autoRef?'var(--gold)':'var(--text3)' }} />
@@ -427,6 +552,7 @@ export default function GoldTerminal() {
               <div style={{ ...s.card, ...s.signalCard }} className="fu2">
                 <div style={s.cardHead}>
                   <span style={s.cardTitle}>TRADE SIGNAL</span>
+                  {data.profile && <span style={s.cardCount} title={data.profile.description}>{data.profile.name.toUpperCase()}</span>}
                   {sig?.action !== 'WAIT' && <span style={s.liveDot} />}
                 </div>
 
@@ -450,7 +576,7 @@ export default function GoldTerminal() {
                 {/* Levels */}
                 <div style={s.levelsGrid}>
                   <LevelRow label="ENTRY ZONE" value={`${f(sig?.entryZone?.[0]??0)} – ${f(sig?.entryZone?.[1]??0)}`} color="var(--gold)" main />
-                  <LevelRow label="ENTRY"      value={f(sig?.entry??0)}    color="var(--gold)" />
+                  <LevelRow label={sig?.entryType==="BREAKOUT"?"BREAKOUT ENTRY":"ENTRY"} value={f(sig?.entry??0)} color="var(--gold)" />
                   <LevelRow label="STOP LOSS"  value={f(sig?.stopLoss??0)} color="var(--red)"   diff={`−${f(sig?.pips?.sl??0,1)} pts`} diffColor="var(--red)" />
                   <LevelRow label="TP 1"       value={f(sig?.tp1??0)}      color="var(--green)" diff={`+${f(sig?.pips?.tp1??0,1)}`} rrBadge={`1:${sig?.rr1}`} />
                   <LevelRow label="TP 2"       value={f(sig?.tp2??0)}      color="var(--green)" diff={`+${f(sig?.pips?.tp2??0,1)}`} rrBadge={`1:${sig?.rr2}`} />
@@ -468,12 +594,15 @@ export default function GoldTerminal() {
               {/* ── ORDER BLOCKS ── */}
               <div style={{ ...s.card }} className="fu2">
                 <div style={s.cardHead}><span style={s.cardTitle}>ORDER BLOCKS</span><span style={s.cardCount}>{data.orderBlocks.length} ACTIVE</span></div>
-                {data.orderBlocks.length === 0 && <div style={s.empty2}>No unmitigated order blocks near price</div>}
+                {data.orderBlocks.length === 0 && <div style={s.empty2}>No active order blocks near price</div>}
                 {data.orderBlocks.map(ob => (
                   <div key={ob.id} style={{ ...s.obRow, borderLeftColor: ob.type==='BULLISH'?'var(--green)':'var(--red)' }}>
                     <div style={s.obLeft}>
                       <span style={{ ...s.obType, color:ob.type==='BULLISH'?'var(--green)':'var(--red)' }}>{ob.type}</span>
                       <span style={{ ...s.obStrength, color: ob.strength==='STRONG'?'var(--gold)':ob.strength==='MODERATE'?'var(--amber)':'var(--text3)' }}>{ob.strength}</span>
+                      <span style={{ ...s.micro2, color: ob.status==='FRESH'?'var(--gold)':'var(--text3)' }}>
+                        {ob.status==='BREAKER' ? (ob.mitigatedAt===null ? 'BREAKER' : `BREAKER · ${ob.touched}×`) : ob.status==='FRESH' ? 'FRESH' : `TAPPED ${ob.touched}×`}
+                      </span>
                     </div>
                     <div style={s.obZone}>
                       <span style={s.obPrice}>{f(ob.bodyBottom)} – {f(ob.bodyTop)}</span>
@@ -496,7 +625,7 @@ export default function GoldTerminal() {
                     <span style={{ ...s.obType, color:fvg.type==='BULLISH'?'var(--green)':'var(--red)' }}>{fvg.type}</span>
                     <div style={s.fvgBody}>
                       <span style={s.obPrice}>{f(fvg.bottom)} – {f(fvg.top)}</span>
-                      <span style={s.micro2}>Mid: {f(fvg.midpoint)}</span>
+                      <span style={s.micro2}>CE: {f(fvg.midpoint)} · {fvg.state==='INVERSION' ? 'INVERSION' : fvg.state==='PARTIAL' ? `${f(fvg.fillPercent,0)}% FILLED` : 'UNFILLED'}</span>
                     </div>
                     <div style={s.fvgSize}>
                       <span style={s.micro2}>SIZE</span>
@@ -564,6 +693,69 @@ export default function GoldTerminal() {
                 </IndBlock>
               </div>
 
+              {/* ── MULTI-TIMEFRAME ── */}
+              {data.mta && (
+                <div style={{ ...s.card }} className="fu4">
+                  <div style={s.cardHead}>
+                    <span style={s.cardTitle}>MULTI-TIMEFRAME</span>
+                    <span style={{ ...s.cardCount, color: mtaColor(data.mta.alignment.direction) }}>
+                      {data.mta.alignment.direction} · {data.mta.alignment.strength}%{data.mta.alignment.aligned ? ' ALIGNED' : ''}
+                    </span>
+                  </div>
+                  {data.mta.timeframes.map(tf => (
+                    <div key={tf.timeframe} style={{ ...s.obRow, borderLeftColor: mtaColor(tf.signal) }}>
+                      <div style={s.obLeft}>
+                        <span style={{ ...s.obType, color: tf.timeframe===INTERVALS.find(iv => iv.value===interval)?.label ? 'var(--gold)' : 'var(--text)' }}>{tf.timeframe}</span>
+                        <span style={{ ...s.obStrength, color: tf.trend==='UP'?'var(--green)':tf.trend==='DOWN'?'var(--red)':'var(--amber)' }}>{tf.trend}</span>
+                      </div>
+                      <div style={s.obZone}>
+                        <span style={{ ...s.micro, color: mtaColor(tf.signal) }}>{tf.signal}</span>
+                        <span style={s.micro2}>RSI {f(tf.rsi,1)}</span>
+                      </div>
+                      <div style={s.obZone}>
+                        <span style={s.micro2}>KEY LEVEL</span>
+                        <span style={s.micro2}>{tf.keyLevel !== null ? f(tf.keyLevel) : '—'}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* ── PRICE ACTION PATTERNS ── */}
+              {data.priceAction && (
+                <div style={{ ...s.card }} className="fu4">
+                  <div style={s.cardHead}>
+                    <span style={s.cardTitle}>PRICE ACTION PATTERNS</span>
+                    <span style={s.cardCount}>{data.priceAction.calibrated ? 'HISTORICAL' : 'PRESET'} CONFIDENCE</span>
+                  </div>
+                  {data.priceAction.patterns.length === 0 && !data.priceAction.chartPattern && <div style={s.empty2}>No recent patterns</div>}
+                  {[
+                    ...data.priceAction.patterns.map((p, i) => ({ key:`c${i}`, name:p.name, dir:p.type, detail:p.strength.toUpperCase(), confidence:p.confidence, evidence:p.evidence })),
+                    ...(data.priceAction.chartPattern ? [{ key:'chart', name:data.priceAction.chartPattern.name, dir:data.priceAction.chartPattern.direction,
+                      detail:`${data.priceAction.chartPattern.state} · BRK ${f(data.priceAction.chartPattern.breakoutLevel)} → ${f(data.priceAction.chartPattern.targetLevel)}`,
+                      confidence:data.priceAction.chartPattern.confidence, evidence:data.priceAction.chartPattern.evidence }] : [])
+                  ].map(row => (
+                    <div key={row.key} style={{ ...s.obRow, borderLeftColor: row.dir==='bullish'?'var(--green)':row.dir==='bearish'?'var(--red)':'var(--text3)' }}>
+                      <div style={s.obLeft}>
+                        <span style={{ ...s.obType, color: row.dir==='bullish'?'var(--green)':row.dir==='bearish'?'var(--red)':'var(--text2)' }}>{row.name}</span>
+                        <span style={s.micro2}>{row.detail}</span>
+                      </div>
+                      <div style={s.obZone}>
+                        <span style={{ ...s.micro, color:'var(--gold)' }}>{f(row.confidence,0)}%</span>
+                        <span style={s.micro2}>{row.evidence ? `n=${row.evidence.samples}${row.evidence.session!=='ALL' ? ` · ${row.evidence.session.replace('_',' ')}` : ''}` : 'NO HISTORY'}</span>
+                      </div>
+                      <div style={s.obZone}>
+                        <span style={s.micro2}>HIT 1R / 2R</span>
+                        <span style={s.micro2}>{row.evidence ? `${f(row.evidence.hitRate1R*100,0)}% / ${f(row.evidence.hitRate2R*100,0)}%` : '—'}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* ── POSITION SIZE ── */}
+              <PositionSizePanel signal={data.signal} atr={data.atr} avgAtr={data.avgAtr} interval={interval} />
+
               {/* ── CONFLUENCE + NARRATIVE ── */}
               <div style={{ ...s.card, gridColumn:'1 / -1' }} className="fu5">
                 <div style={s.cardHead}>
@@ -763,6 +955,86 @@ function IndBlock({ label, value, color, badge, children }:
   )
 }
 
+const SIZE_METHODS: Record<MethodSize['method'], string> = { FIXED_FRACTIONAL:'FIXED %', KELLY:'KELLY', VOLATILITY_ADJUSTED:'VOL ADJ' }
+
+// Sizes the current signal's entry/stop through /api/position-size, one row per method
+function PositionSizePanel({ signal, atr, avgAtr, interval }:
+  { signal:GoldSignal; atr:number; avgAtr?:number; interval:string }) {
+  const [account, setAccount] = useState({ balance:'10000', risk:'1', currency:'USD', contractSize:'100', lotStep:'0.01', leverage:'100' })
+  const [report, setReport] = useState<PositionSizeReport|null>(null)
+  const [error, setError] = useState('')
+  const actionable = signal.action !== 'WAIT'
+
+  const size = useCallback(async () => {
+    if (!actionable) return
+    setError('')
+    try {
+      const res = await fetch('/api/position-size', {
+        method:'POST',
+        headers:{'Content-Type':'application/json'},
+        body:JSON.stringify({
+          balance:Number(account.balance), riskPercent:Number(account.risk)/100, currency:account.currency,
+          contractSize:Number(account.contractSize), lotStep:Number(account.lotStep), leverage:Number(account.leverage),
+          entry:signal.entry, stopLoss:signal.stopLoss, atr, avgAtr, interval,
+        }),
+      })
+      const json = await res.json()
+      if (!res.ok || !json.ok) throw new Error(json?.error ?? 'Sizing failed')
+      setReport(json)
+    } catch(e: any) {
+      setReport(null)
+      setError(e?.message ?? 'Sizing failed')
+    }
+  }, [account, actionable, signal.entry, signal.stopLoss, atr, avgAtr, interval])
+
+  // Re-size whenever a new signal arrives
+  useEffect(() => { void size() }, [signal.entry, signal.stopLoss, actionable])
+
+  const field = (key: keyof typeof account, label: string, width = 64) => (
+    <label style={{ ...s.obZone, width }}>
+      <span style={s.micro2}>{label}</span>
+      <input style={s.sizeInput} value={account[key]} aria-label={label}
+        onChange={e => setAccount(a => ({ ...a, [key]: e.target.value }))} />
+    </label>
+  )
+
+  return (
+    <div style={{ ...s.card }} className="fu4">
+      <div style={s.cardHead}>
+        <span style={s.cardTitle}>POSITION SIZE</span>
+        <span style={s.cardCount}>{actionable ? `${signal.action} · SL ${f(Math.abs(signal.entry - signal.stopLoss))}` : 'NO SIGNAL'}</span>
+      </div>
+      <div style={{ display:'flex', gap:8, flexWrap:'wrap', alignItems:'flex-end', marginBottom:12 }}>
+        {field('balance', 'BALANCE', 80)}
+        {field('risk', 'RISK %', 48)}
+        {field('currency', 'CCY', 44)}
+        {field('contractSize', 'OZ / LOT')}
+        {field('lotStep', 'LOT STEP')}
+        {field('leverage', 'LEVERAGE')}
+        <button style={s.ivBtn} aria-label="Size the current signal" onClick={() => size()} disabled={!actionable}>SIZE</button>
+      </div>
+      {!actionable && <div style={s.empty2}>Sizing needs a BUY or SELL signal</div>}
+      {error && <div style={{ ...s.micro, color:'var(--red)' }}>⚠ {error}</div>}
+      {actionable && report?.sizes.map(row => (
+        <div key={row.method} style={{ ...s.obRow, borderLeftColor: row.lots > 0 ? 'var(--gold)' : 'var(--text3)' }} title={row.note}>
+          <div style={s.obLeft}>
+            <span style={{ ...s.obType, color:'var(--gold)' }}>{SIZE_METHODS[row.method]}</span>
+            <span style={s.micro2}>{f(row.lots)} LOTS</span>
+          </div>
+          <div style={s.obZone}>
+            <span style={s.micro2}>RISK</span>
+            <span style={{ ...s.micro, color:'var(--red)' }}>${f(row.dollarRisk)}{report.account.currency !== 'USD' ? ` · ${f(row.risk)} ${report.account.currency}` : ''} ({f(row.riskPercent*100)}%)</span>
+          </div>
+          <div style={s.obZone}>
+            <span style={s.micro2}>MARGIN</span>
+            <span style={s.micro}>{f(row.margin)} {report.account.currency}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
 // ── Styles ────────────────────────────────────────────────────────────────────
 const s: Record<string, React.CSSProperties> = {
   header: { position:'sticky', top:0, zIndex:100, background:'rgba(6,7,10,0.85)', backdropFilter:'blur(24px) saturate(180%)', borderBottom:'1px solid rgba(201,168,76,0.2)', padding:'14px 28px', boxShadow:'0 4px 24px rgba(0,0,0,0.3)' },
@@ -871,6 +1143,7 @@ const s: Record<string, React.CSSProperties> = {
   micro:  { fontSize:10, letterSpacing:'0.06em', color:'var(--text2)' },
   micro2: { fontSize:9, letterSpacing:'0.1em', color:'var(--text3)' },
   badge:  { fontSize:8, padding:'2px 7px', border:'1px solid', borderRadius:2, letterSpacing:'0.1em' },
+  sizeInput: { background:'rgba(255,255,255,0.03)', border:'1px solid rgba(201,168,76,0.2)', color:'var(--text)', fontFamily:'var(--mono)', fontSize:11, padding:'5px 6px', borderRadius:4, width:'100%' },
   empty2: { fontSize:11, color:'var(--text3)', padding:'12px 0' },
   gptTag: { fontSize:9, padding:'3px 8px', background:'var(--gold-dim)', border:'1px solid var(--border2)', color:'var(--gold)', borderRadius:2, letterSpacing:'0.06em' },
   footer: { borderTop:'1px solid var(--border)', padding:'16px 28px', display:'flex', justifyContent:'space-between', alignItems:'center', fontSize:9, color:'var(--text3)', letterSpacing:'0.06em', marginTop:8, flexWrap:'wrap', gap:12, background:'linear-gradient(135deg, rgba(255,255,255,0.02) 0%, rgba(255,255,255,0.01) 100%)', backdropFilter:'blur(8px)' },
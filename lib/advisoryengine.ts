@@ -1,4 +1,5 @@
 // lib/advisoryengine.ts - AI Financial Advisor & Strategic Guidance
+import type { MonteCarloReport } from './montecarlo'
 
 export interface AdvisoryGuidance {
   recommendation: string
@@ -201,12 +202,20 @@ export function generateAdvisory(context: AdviceContext): AdvisoryGuidance[] {
   })
 }
 
+// Scaling limits on the Monte Carlo bands
+const MAX_TOLERATED_DRAWDOWN_PCT = 20   // 95th-percentile drawdown we size for
+const MAX_RISK_OF_RUIN = 0.01
+const MIN_RISK_PERCENT = 0.25
+const MAX_RISK_PERCENT = 2.0
+
 /**
- * Position scaling recommendation based on equity and performance
+ * Position scaling recommendation based on Monte Carlo confidence bands.
+ * The report should be generated at the current risk (runMonteCarlo with riskPercent);
+ * drawdowns are assumed to scale roughly linearly with risk.
  */
 export function recommendPositionScaling(
   accountBalance: number,
-  equityCurve: number[],
+  monteCarlo: MonteCarloReport,
   winRate: number,
   expectancy: number
 ): {
@@ -216,39 +225,42 @@ export function recommendPositionScaling(
   reason: string
   confidence: number
 } {
-  const recentGrowth = equityCurve.length > 1 
-    ? (equityCurve[equityCurve.length - 1] - equityCurve[Math.max(0, equityCurve.length - 21)]) / 
-      equityCurve[Math.max(0, equityCurve.length - 21)]
-    : 0
+  const currentRiskPercent = monteCarlo.riskPercent !== null ? monteCarlo.riskPercent * 100 : 1.0
+  const worstDrawdown = monteCarlo.maxDrawdownPct.p95
+  const pessimisticGrowth = (monteCarlo.finalEquity.p5 - monteCarlo.initialBalance) / monteCarlo.initialBalance
+
+  // Risk that would put the 95th-percentile drawdown at the tolerated limit
+  const ddScaledRisk = worstDrawdown > 0
+    ? currentRiskPercent * (MAX_TOLERATED_DRAWDOWN_PCT / worstDrawdown)
+    : MAX_RISK_PERCENT
+  const clampRisk = (risk: number) => Math.round(Math.min(MAX_RISK_PERCENT, Math.max(MIN_RISK_PERCENT, risk)) * 100) / 100
 
   let recommendation: 'SCALE_UP' | 'MAINTAIN' | 'SCALE_DOWN' = 'MAINTAIN'
-  let targetRiskPercent = 1.0
-  let confidence = 65
+  let targetRiskPercent = currentRiskPercent
+  let reason = `95% of simulated paths stay within a ${worstDrawdown.toFixed(1)}% drawdown. Maintain current position sizing.`
 
-  if (winRate >= 0.65 && expectancy > 100 && recentGrowth > 0.05) {
-    recommendation = 'SCALE_UP'
-    targetRiskPercent = 1.5
-    confidence = 85
-  } else if (winRate <= 0.50 && expectancy < 0) {
+  if (monteCarlo.tradesPerRun === 0 || (winRate <= 0.50 && expectancy < 0)) {
     recommendation = 'SCALE_DOWN'
-    targetRiskPercent = 0.5
-    confidence = 90
-  } else if (recentGrowth > 0.10) {
+    targetRiskPercent = clampRisk(currentRiskPercent * 0.5)
+    reason = `Weak performance detected. Reduce risk to ${targetRiskPercent}% until strategy improves.`
+  } else if (monteCarlo.riskOfRuin > MAX_RISK_OF_RUIN || worstDrawdown > MAX_TOLERATED_DRAWDOWN_PCT) {
+    recommendation = 'SCALE_DOWN'
+    targetRiskPercent = clampRisk(Math.min(ddScaledRisk, currentRiskPercent * 0.75))
+    reason = `Monte Carlo risk of ruin ${(monteCarlo.riskOfRuin * 100).toFixed(1)}%, 95th-percentile drawdown ${worstDrawdown.toFixed(1)}%. Reduce risk to ${targetRiskPercent}%.`
+  } else if (expectancy > 0 && pessimisticGrowth > 0 && worstDrawdown < MAX_TOLERATED_DRAWDOWN_PCT / 2) {
     recommendation = 'SCALE_UP'
-    targetRiskPercent = 1.25
-    confidence = 75
+    targetRiskPercent = clampRisk(Math.min(ddScaledRisk, currentRiskPercent * 1.5))
+    reason = `95% of simulated paths end profitable (${(pessimisticGrowth * 100).toFixed(1)}%+) with drawdowns under ${worstDrawdown.toFixed(1)}%. Increase risk to ${targetRiskPercent}%.`
   }
 
+  // More trades per path → tighter bands
+  const confidence = monteCarlo.tradesPerRun >= 100 ? 90 : monteCarlo.tradesPerRun >= 30 ? 75 : 60
+
   return {
     recommendation,
     targetRiskPercent,
-    currentRiskPercent: 1.0,
-    reason:
-      recommendation === 'SCALE_UP'
-        ? `Strong performance (${(recentGrowth * 100).toFixed(1)}% growth). Increase risk to capitalize on edge.`
-        : recommendation === 'SCALE_DOWN'
-        ? `Weak performance detected. Reduce risk to 0.5% until strategy improves.`
-        : `Trading at optimal risk level. Maintain current position sizing.`,
+    currentRiskPercent,
+    reason,
     confidence
   }
 }
@@ -1,5 +1,13 @@
 // lib/analysis.ts — Enhanced ICT Technical Analysis with Multi-Timeframe Analysis
 import type { Candle } from './twelvedata'
+import { DEFAULT_STRATEGY_PARAMS, type StrategyParams } from './strategyparams'
+import { intervalSeconds } from './providers'
+import { DEFAULT_SESSION_CALENDAR, getSessionState, getSessionRange, tradingDay, tradingWeek, type SessionCalendar, type SessionRange, type TradingSession } from './sessions'
+import { analyzeStructure, structureEvents, type StructureEvent } from './structure'
+import { previousPeriod, type PeriodKey } from './levels'
+import type { VolumeContext } from './volumeprofile'
+
+export type { TradingSession } from './sessions'
 
 export interface AMDPhase {
   phase: 'ACCUMULATION' | 'DISTRIBUTION' | 'MANIPULATION' | 'DECLINE' | 'TRANSITION'
@@ -17,28 +25,40 @@ export interface AMDPhase {
   strength: number // 0-100 confidence in phase detection
 }
 
+export type OrderBlockStatus = 'FRESH' | 'MITIGATED' | 'BREAKER' | 'INVALIDATED'
+
 export interface OrderBlock {
   id: string
-  type: 'BULLISH' | 'BEARISH'
+  type: 'BULLISH' | 'BEARISH' // current polarity — flips when the block becomes a breaker
   top: number
   bottom: number
   bodyTop: number
   bodyBottom: number
   time: number
   strength: 'STRONG' | 'MODERATE' | 'WEAK'
-  touched: number // how many times price respected this block
-  broken: boolean
+  touched: number // separate retests of the current zone that held
+  broken: boolean // the original block was closed through (breakers keep this set)
+  status: OrderBlockStatus
+  mitigatedAt: number | null // first tap of the current zone
+  brokenAt: number | null
+  lastTouchAt: number | null
 }
 
+export type FVGState = 'UNFILLED' | 'PARTIAL' | 'FILLED' | 'INVERSION'
+
 export interface FVG {
   id: string
-  type: 'BULLISH' | 'BEARISH'
+  type: 'BULLISH' | 'BEARISH' // current polarity — reversed for inversion FVGs
   top: number
   bottom: number
   size: number
-  midpoint: number
+  midpoint: number // consequent encroachment (50%)
   time: number
-  mitigated: boolean
+  mitigated: boolean // price has traded to consequent encroachment
+  state: FVGState
+  fillPercent: number // 0-100, deepest retrace into the gap
+  filledAt: number | null
+  invertedAt: number | null
 }
 
 export interface SRLevel {
@@ -50,17 +70,35 @@ export interface SRLevel {
   recentTest: boolean
 }
 
+export type LiquidityPoolSource =
+  | 'EQUAL_HIGHS' | 'EQUAL_LOWS'
+  | 'SWING_HIGH' | 'SWING_LOW'
+  | 'PDH' | 'PDL' | 'PWH' | 'PWL'
+  | 'ASIA_HIGH' | 'ASIA_LOW' | 'LONDON_HIGH' | 'LONDON_LOW' | 'NY_HIGH' | 'NY_LOW'
+
 export interface LiquidityZone {
   id: string
-  type: 'BUY_STOPS' | 'SELL_STOPS' | 'STOP_HUNT'
+  type: 'BUY_STOPS' | 'SELL_STOPS' | 'STOP_HUNT' // buy stops rest above highs, sell stops below lows
+  source: LiquidityPoolSource
   price: number
   strength: number
-  swept: boolean
-  time: number
+  touches: number // swing points clustered into the pool (2+ for equal highs/lows)
+  swept: boolean // traded through after the pool formed
+  sweptAt: number | null
+  reclaimed: boolean // closed back on the pool's original side after the sweep
+  reclaimedAt: number | null
+  time: number // when the pool became known: last clustered swing, or end of its day/week/session
+}
+
+export interface SweepReversal {
+  direction: 'BULLISH' | 'BEARISH'
+  pool: LiquidityZone
+  choch: StructureEvent
+  description: string
 }
 
 export interface Pattern {
-  type: 'CHoCH' | 'BOS' | 'LONG_WICK' | 'DOJI' | 'HAMMER' | 'SHOOTING_STAR' | 'INSIDE_BAR' | 'OUTSIDE_BAR'
+  type: 'CHoCH' | 'BOS' | 'LONG_WICK' | 'DOJI' | 'HAMMER' | 'SHOOTING_STAR' | 'INSIDE_BAR' | 'OUTSIDE_BAR' | 'SMT_DIVERGENCE'
   direction: 'BULLISH' | 'BEARISH' | 'NEUTRAL'
   timeframe: string
   confidence: number
@@ -77,11 +115,30 @@ export interface MTAResult {
   alignment: number // 0-100, how aligned with higher timeframe
 }
 
+export interface DealingRange {
+  high: number
+  low: number
+  highTime: number
+  lowTime: number
+  direction: 'BULLISH' | 'BEARISH' // leg from low to high, or high to low
+  equilibrium: number
+  zone: 'PREMIUM' | 'DISCOUNT' | 'EQUILIBRIUM' // where the latest close sits
+  positionPct: number // 0 = range low, 100 = range high; always 0-100 since the range runs through the latest bar
+  ote: { buy: [number, number]; sell: [number, number] } // 62–79% retracement bands
+}
+
+export interface EntryCandidate {
+  source: 'FVG_CE' | 'IFVG_CE'
+  price: number
+  ref: string // id of the structure the level comes from
+}
+
 export interface GoldSignal {
   action: 'BUY' | 'SELL' | 'WAIT'
   confidence: number
   entry: number
   entryZone: [number, number]
+  entryCandidates: EntryCandidate[] // limit-entry levels between price and the stop, nearest first
   stopLoss: number
   tp1: number
   tp2: number
@@ -100,25 +157,11 @@ export interface GoldSignal {
   overallScore: number // Weighted total
 }
 
-export type TradingSession = 'ASIA' | 'LONDON' | 'NEW_YORK' | 'OVERLAP' | 'OFF_HOURS'
-
 // ==================== SESSION DETECTION ====================
 
-export function getCurrentSession(): TradingSession {
-  const hour = new Date().getUTCHours()
-
-  // Asia session: 0:00 - 7:00 UTC
-  if (hour >= 0 && hour < 7) return 'ASIA'
-  // London overlap with Asia: 7:00 - 8:00 UTC
-  if (hour >= 7 && hour < 8) return 'OVERLAP'
-  // London session: 8:00 - 16:00 UTC
-  if (hour >= 8 && hour < 16) return 'LONDON'
-  // NY overlap with London: 13:00 - 16:00 UTC
-  if (hour >= 13 && hour < 16) return 'OVERLAP'
-  // NY session: 16:00 - 21:00 UTC
-  if (hour >= 16 && hour < 21) return 'NEW_YORK'
-  // Off hours: 21:00 - 0:00 UTC
-  return 'OFF_HOURS'
+/** Session at `now` from the DST-aware calendar in lib/sessions.ts. */
+export function getCurrentSession(now: number = Date.now(), calendar: SessionCalendar = DEFAULT_SESSION_CALENDAR): TradingSession {
+  return getSessionState(now, calendar).session
 }
 
 export function getSessionName(session: TradingSession): string {
@@ -134,13 +177,14 @@ export function getSessionName(session: TradingSession): string {
 
 // ==================== ENHANCED AMD DETECTION ====================
 
-export function detectAMD(candles: Candle[], interval: string): AMDPhase {
+export function detectAMD(candles: Candle[], interval: string, calendar: SessionCalendar = DEFAULT_SESSION_CALENDAR): AMDPhase {
   const latest = candles[candles.length - 1]
   const last20 = candles.slice(-20)
   const last50 = candles.slice(-50)
 
   // Calculate session-specific highs/lows
-  const { asia, london, ny } = detectSessionRanges(candles)
+  const { asia, london, ny } = detectSessionRanges(candles, interval, calendar)
+  const asiaSweep = detectAsiaSweep(asia, london, ny, latest)
 
   const sessionHigh = Math.max(...last20.map(c => c.high))
   const sessionLow = Math.min(...last20.map(c => c.low))
@@ -168,6 +212,12 @@ export function detectAMD(candles: Candle[], interval: string): AMDPhase {
     description = 'Price distributing near session highs — potential distribution phase'
     strength = 70
   }
+  // Manipulation: London/NY ran the Asia range and closed back inside it (Power of 3)
+  else if (asiaSweep) {
+    phase = 'MANIPULATION'
+    description = `${asiaSweep.session} swept the Asia ${asiaSweep.side} and reclaimed the range — ${asiaSweep.side === 'low' ? 'bullish' : 'bearish'} distribution likely`
+    strength = 70
+  }
   // Manipulation: sharp spikes followed by reversal
   else if (detectManipulation(candles)) {
     phase = 'MANIPULATION'
@@ -200,6 +250,11 @@ export function detectAMD(candles: Candle[], interval: string): AMDPhase {
     else bias = bias === 'BULLISH' ? 'NEUTRAL' : 'BEARISH'
   }
 
+  // A reclaimed Asia sweep points the other way from the stops that were taken
+  if (asiaSweep && phase === 'MANIPULATION') {
+    bias = asiaSweep.side === 'low' ? 'BULLISH' : 'BEARISH'
+  }
+
   return {
     phase,
     description,
@@ -212,28 +267,45 @@ export function detectAMD(candles: Candle[], interval: string): AMDPhase {
     londonLow: london?.low,
     nyHigh: ny?.high,
     nyLow: ny?.low,
-    manipulation: phase === 'MANIPULATION' ? 'Liquidity sweep detected - await return to fair value' : 'Monitoring for liquidity sweeps',
+    manipulation: asiaSweep
+      ? `${asiaSweep.session} took Asia ${asiaSweep.side} ${asiaSweep.level.toFixed(2)}`
+      : phase === 'MANIPULATION' ? 'Liquidity sweep detected - await return to fair value' : 'Monitoring for liquidity sweeps',
     strength
   }
 }
 
-function detectSessionRanges(candles: Candle[]): { asia?: { high: number; low: number }; london?: { high: number; low: number }; ny?: { high: number; low: number } } {
-  // Simplified session detection based on time
-  const recent = candles.slice(-50)
-  const midpoint = Math.floor(recent.length / 2)
+type SessionRanges = { asia?: SessionRange; london?: SessionRange; ny?: SessionRange }
 
+// Latest Asia/London/New York ranges from the session calendar. Bars longer than an
+// hour straddle sessions, so 4h and daily charts get no session ranges.
+function detectSessionRanges(candles: Candle[], interval: string, calendar: SessionCalendar): SessionRanges {
+  if (intervalSeconds(interval) > 3600) return {}
   return {
-    asia: {
-      high: Math.max(...recent.slice(0, midpoint).map(c => c.high)),
-      low: Math.min(...recent.slice(0, midpoint).map(c => c.low))
-    },
-    london: {
-      high: Math.max(...recent.slice(midpoint).map(c => c.high)),
-      low: Math.min(...recent.slice(midpoint).map(c => c.low))
-    }
+    asia: getSessionRange(candles, calendar.windows.ASIA),
+    london: getSessionRange(candles, calendar.windows.LONDON),
+    ny: getSessionRange(candles, calendar.windows.NEW_YORK)
   }
 }
 
+// London or New York trading beyond the completed Asia range that followed it,
+// with the latest close back inside — the classic Judas swing
+function detectAsiaSweep(
+  asia: SessionRange | undefined,
+  london: SessionRange | undefined,
+  ny: SessionRange | undefined,
+  latest: Candle
+): { session: 'London' | 'New York'; side: 'high' | 'low'; level: number } | null {
+  if (!asia || !asia.complete) return null
+  if (latest.close > asia.high || latest.close < asia.low) return null
+
+  for (const [session, range] of [['New York', ny], ['London', london]] as const) {
+    if (!range || range.start <= asia.end) continue
+    if (range.low < asia.low) return { session, side: 'low', level: asia.low }
+    if (range.high > asia.high) return { session, side: 'high', level: asia.high }
+  }
+  return null
+}
+
 function detectManipulation(candles: Candle[]): boolean {
   // Look for wick spikes that get filled quickly
   const recent = candles.slice(-10)
@@ -376,13 +448,13 @@ function generateMTASignal(trend: string, rsi: number): 'BUY' | 'SELL' | 'WAIT'
 
 function findKeyLevel(candles: Candle[]): number | null {
   const recent = candles.slice(-20)
-  const highs = recent.map(c => c.high)
-  const lows = recent.map(c => c.low)
+  if (recent.length === 0) return null
+  const high = Math.max(...recent.map(c => c.high))
+  const low = Math.min(...recent.map(c => c.low))
+  const close = recent[recent.length - 1].close
 
-  return {
-    high: Math.max(...highs),
-    low: Math.min(...lows)
-  } as any
+  // Nearest 20-bar extreme is the level price is most likely to react to
+  return Math.abs(high - close) < Math.abs(close - low) ? high : low
 }
 
 // ==================== ADVANCED PATTERN RECOGNITION ====================
@@ -392,37 +464,13 @@ export function detectPatterns(candles: Candle[]): Pattern[] {
 
   // Recent candles for pattern detection
   const recent = candles.slice(-10)
+  if (recent.length === 0) return patterns
 
   for (let i = 2; i < recent.length; i++) {
     const curr = recent[i]
     const prev = recent[i - 1]
     const prev2 = recent[i - 2]
 
-    // Change of Character (CHoCH)
-    if (detectCHoCH(recent.slice(0, i + 1))) {
-      patterns.push({
-        type: 'CHoCH',
-        direction: detectCHoCHDirection(recent.slice(0, i + 1)),
-        timeframe: 'H1',
-        confidence: 70,
-        price: curr.close,
-        description: 'Change of Character detected - market structure shift'
-      })
-    }
-
-    // Break of Structure (BOS)
-    const bos = detectBOS(recent.slice(0, i + 1))
-    if (bos) {
-      patterns.push({
-        type: 'BOS',
-        direction: bos.direction,
-        timeframe: 'H1',
-        confidence: 75,
-        price: bos.price,
-        description: `Break of Structure to the ${bos.direction.toLowerCase()}`
-      })
-    }
-
     // Long wick detection
     const upperWick = curr.high - Math.max(curr.open, curr.close)
     const lowerWick = Math.min(curr.open, curr.close) - curr.low
@@ -463,120 +511,191 @@ export function detectPatterns(candles: Candle[]): Pattern[] {
     }
   }
 
-  return patterns.slice(-5) // Return last 5 patterns
+  // Last 5 candle patterns, then the structure breaks confirmed over the same bars
+  return [...patterns.slice(-5), ...structurePatterns(candles, recent[0].time)]
 }
 
-function detectCHoCH(candles: Candle[]): boolean {
-  if (candles.length < 10) return false
-
-  // Look for a sequence that breaks the prior structure
-  const highs = candles.map(c => c.high)
-  const lows = candles.map(c => c.low)
-
-  // Simple CHoCH: break of recent low after uptrend, or break of recent high after downtrend
-  const mid = Math.floor(candles.length / 2)
-  const firstHalfHigh = Math.max(...highs.slice(0, mid))
-  const firstHalfLow = Math.min(...lows.slice(0, mid))
-
-  // Check if recent price action breaks this structure
-  const recentHighs = highs.slice(mid)
-  const recentLows = lows.slice(mid)
-
-  // Bearish CHoCH: breaks below first half low
-  if (Math.min(...recentLows) < firstHalfLow) return true
-
-  // Bullish CHoCH: breaks above first half high
-  if (Math.max(...recentHighs) > firstHalfHigh) return true
-
-  return false
+const STRUCTURE_CONFIDENCE = { SWING: { CHoCH: 80, BOS: 75 }, INTERNAL: { CHoCH: 65, BOS: 60 } }
+
+function structurePatterns(candles: Candle[], since: number): Pattern[] {
+  return structureEvents(analyzeStructure(candles))
+    .filter(e => e.time >= since)
+    .slice(-3)
+    .map(e => ({
+      type: e.type,
+      direction: e.direction,
+      timeframe: 'H1',
+      confidence: STRUCTURE_CONFIDENCE[e.degree][e.type],
+      price: e.level,
+      description: e.type === 'CHoCH'
+        ? `${e.degree === 'SWING' ? 'Swing' : 'Internal'} Change of Character — close through ${e.level.toFixed(2)} flips structure ${e.direction.toLowerCase()}`
+        : `${e.degree === 'SWING' ? 'Swing' : 'Internal'} Break of Structure to the ${e.direction.toLowerCase()} through ${e.level.toFixed(2)}`
+    }))
 }
 
-function detectCHoCHDirection(candles: Candle[]): 'BULLISH' | 'BEARISH' | 'NEUTRAL' {
-  const mid = Math.floor(candles.length / 2)
-  const highs = candles.map(c => c.high)
-  const lows = candles.map(c => c.low)
-
-  const firstHalfLow = Math.min(...lows.slice(0, mid))
-  const firstHalfHigh = Math.max(...highs.slice(0, mid))
+// ==================== LIQUIDITY ZONE DETECTION ====================
 
-  if (Math.min(...lows.slice(mid)) < firstHalfLow) return 'BEARISH'
-  if (Math.max(...highs.slice(mid)) > firstHalfHigh) return 'BULLISH'
+const EQUAL_LEVEL_ATR = 0.15        // swings this close count as equal highs/lows
+const SWEPT_POOL_BARS = 30          // swept pools stay on the list this long
+const REVERSAL_SWEEP_BARS = 12      // a CHoCH must follow the sweep within this many bars
+const REVERSAL_RECENT_BARS = 5      // and be confirmed this recently to trigger
 
-  return 'NEUTRAL'
+const POOL_STRENGTH: Record<LiquidityPoolSource, number> = {
+  EQUAL_HIGHS: 80, EQUAL_LOWS: 80,
+  SWING_HIGH: 50, SWING_LOW: 50,
+  PDH: 75, PDL: 75, PWH: 85, PWL: 85,
+  ASIA_HIGH: 65, ASIA_LOW: 65, LONDON_HIGH: 65, LONDON_LOW: 65, NY_HIGH: 65, NY_LOW: 65
 }
 
-function detectBOS(candles: Candle[]): { direction: 'BULLISH' | 'BEARISH'; price: number } | null {
-  if (candles.length < 5) return null
-
-  const highs = candles.map(c => c.high)
-  const lows = candles.map(c => c.low)
-
-  // Look for break above recent high (bullish BOS) or below recent low (bearish BOS)
-  const recent = candles.slice(-3)
-  const prev = candles.slice(-5, -3)
-
-  const recentHigh = Math.max(...recent.map(c => c.high))
-  const prevHigh = Math.max(...prev.map(c => c.high))
-  const recentLow = Math.min(...recent.map(c => c.low))
-  const prevLow = Math.min(...prev.map(c => c.low))
-
-  if (recentHigh > prevHigh) {
-    return { direction: 'BULLISH', price: recentHigh }
+function createPool(source: LiquidityPoolSource, side: 'HIGH' | 'LOW', price: number, time: number, touches = 1): LiquidityZone {
+  return {
+    id: `${source}_${time}`,
+    type: side === 'HIGH' ? 'BUY_STOPS' : 'SELL_STOPS',
+    source,
+    price,
+    strength: Math.min(95, POOL_STRENGTH[source] + Math.max(0, touches - 2) * 5),
+    touches,
+    swept: false,
+    sweptAt: null,
+    reclaimed: false,
+    reclaimedAt: null,
+    time
   }
+}
 
-  if (recentLow < prevLow) {
-    return { direction: 'BEARISH', price: recentLow }
+// Swing highs/lows within EQUAL_LEVEL_ATR of an unswept pool join it; the pool sits
+// at the outermost swing, where the stops above (or below) all of them rest
+function clusterSwingPools(candles: Candle[], atr: number): LiquidityZone[] {
+  const tolerance = atr * EQUAL_LEVEL_ATR
+  const clusters: { side: 'HIGH' | 'LOW'; price: number; time: number; touches: number }[] = []
+
+  for (const swing of findSwings(candles)) {
+    const beyond = (c: Candle, level: number) => swing.type === 'HIGH' ? c.high > level + tolerance : c.low < level - tolerance
+    const match = clusters.find(cl =>
+      cl.side === swing.type &&
+      Math.abs(cl.price - swing.price) <= tolerance &&
+      // Only pools still resting when this swing printed
+      !candles.some(c => c.time > cl.time && c.time < swing.time && beyond(c, cl.price))
+    )
+    if (match) {
+      match.price = swing.type === 'HIGH' ? Math.max(match.price, swing.price) : Math.min(match.price, swing.price)
+      match.time = swing.time
+      match.touches++
+    } else {
+      clusters.push({ side: swing.type, price: swing.price, time: swing.time, touches: 1 })
+    }
   }
 
-  return null
+  return clusters.map(cl => cl.touches > 1
+    ? createPool(cl.side === 'HIGH' ? 'EQUAL_HIGHS' : 'EQUAL_LOWS', cl.side, cl.price, cl.time, cl.touches)
+    : createPool(cl.side === 'HIGH' ? 'SWING_HIGH' : 'SWING_LOW', cl.side, cl.price, cl.time))
 }
 
-// ==================== LIQUIDITY ZONE DETECTION ====================
-
-export function detectLiquidityZones(candles: Candle[]): LiquidityZone[] {
-  const zones: LiquidityZone[] = []
-
-  // Find swing highs and lows
-  const swings = findSwings(candles)
-
-  // Recent swing highs = sell stops liquidity
-  // Recent swing lows = buy stops liquidity
-  const recentSwings = swings.slice(-6)
-
-  recentSwings.forEach((swing, i) => {
-    if (swing.type === 'HIGH') {
-      zones.push({
-        id: `LL_${i}`,
-        type: 'SELL_STOPS',
-        price: swing.price,
-        strength: 100 - (i * 10), // More recent = stronger
-        swept: false,
-        time: swing.time
-      })
-    } else {
-      zones.push({
-        id: `HL_${i}`,
-        type: 'BUY_STOPS',
-        price: swing.price,
-        strength: 100 - (i * 10),
-        swept: false,
-        time: swing.time
-      })
-    }
+// High/low of the last completed trading day and week, known from the first bar after them
+function priorPeriodPools(candles: Candle[]): LiquidityZone[] {
+  const periods: [PeriodKey, LiquidityPoolSource, LiquidityPoolSource][] = [
+    [tradingDay, 'PDH', 'PDL'],
+    [tradingWeek, 'PWH', 'PWL']
+  ]
+
+  return periods.flatMap(([keyOf, highSource, lowSource]) => {
+    const period = previousPeriod(candles, keyOf)
+    if (!period) return []
+    const knownAt = candles.find(c => c.time > period.end)?.time ?? period.end
+    return [createPool(highSource, 'HIGH', period.high, knownAt), createPool(lowSource, 'LOW', period.low, knownAt)]
   })
+}
 
-  // Check if any zones have been swept
-  const latest = candles[candles.length - 1]
-  zones.forEach(zone => {
-    if (zone.type === 'SELL_STOPS' && latest.high > zone.price) {
-      zone.swept = true
+function sessionPools(candles: Candle[], interval: string, calendar: SessionCalendar): LiquidityZone[] {
+  const { asia, london, ny } = detectSessionRanges(candles, interval, calendar)
+  const sessions: [SessionRange | undefined, LiquidityPoolSource, LiquidityPoolSource][] = [
+    [asia, 'ASIA_HIGH', 'ASIA_LOW'],
+    [london, 'LONDON_HIGH', 'LONDON_LOW'],
+    [ny, 'NY_HIGH', 'NY_LOW']
+  ]
+  return sessions
+    .filter(([range]) => range?.complete)
+    .flatMap(([range, highSource, lowSource]) => {
+      const r = range as SessionRange
+      return [createPool(highSource, 'HIGH', r.high, r.end), createPool(lowSource, 'LOW', r.low, r.end)]
+    })
+}
+
+// First trade through the pool after it formed, then the first close back on its side
+function trackSweep(pool: LiquidityZone, candles: Candle[]) {
+  const above = pool.type === 'BUY_STOPS'
+  for (const c of candles) {
+    if (c.time <= pool.time) continue
+    if (!pool.swept && (above ? c.high > pool.price : c.low < pool.price)) {
+      pool.swept = true
+      pool.sweptAt = c.time
     }
-    if (zone.type === 'BUY_STOPS' && latest.low < zone.price) {
-      zone.swept = true
+    if (pool.swept && (above ? c.close < pool.price : c.close > pool.price)) {
+      pool.reclaimed = true
+      pool.reclaimedAt = c.time
+      return
     }
-  })
+  }
+}
 
-  return zones
+/**
+ * Resting liquidity: equal highs/lows (clustered within EQUAL_LEVEL_ATR), remaining
+ * swing points, the prior day's and week's extremes and the last completed
+ * Asia/London/New York ranges. Unswept pools and those swept in the last
+ * SWEPT_POOL_BARS bars are returned, oldest first.
+ */
+export function detectLiquidityZones(
+  candles: Candle[],
+  atr: number,
+  interval = '1h',
+  calendar: SessionCalendar = DEFAULT_SESSION_CALENDAR
+): LiquidityZone[] {
+  if (candles.length === 0) return []
+
+  const pools = [
+    ...clusterSwingPools(candles, atr),
+    ...priorPeriodPools(candles),
+    ...sessionPools(candles, interval, calendar)
+  ]
+  pools.forEach(pool => trackSweep(pool, candles))
+
+  const cutoff = candles[Math.max(0, candles.length - SWEPT_POOL_BARS)].time
+  return pools
+    .filter(pool => !pool.swept || (pool.sweptAt as number) >= cutoff)
+    .sort((a, b) => a.time - b.time)
+}
+
+/**
+ * A pool swept and then a CHoCH the other way within REVERSAL_SWEEP_BARS — stops
+ * taken, then structure turns. Only a CHoCH from the last REVERSAL_RECENT_BARS counts.
+ */
+export function detectSweepReversal(candles: Candle[], pools: LiquidityZone[]): SweepReversal | null {
+  if (candles.length === 0) return null
+  const index = new Map(candles.map((c, i) => [c.time, i]))
+  const last = candles.length - 1
+
+  const chochs = structureEvents(analyzeStructure(candles))
+    .filter(e => e.type === 'CHoCH' && last - (index.get(e.time) ?? -Infinity) < REVERSAL_RECENT_BARS)
+    .reverse()
+
+  for (const choch of chochs) {
+    const chochIndex = index.get(choch.time) as number
+    // Sell stops below lows feed bullish reversals, buy stops above highs bearish ones
+    const side = choch.direction === 'BULLISH' ? 'SELL_STOPS' : 'BUY_STOPS'
+    const pool = pools
+      .filter(p => p.type === side && p.sweptAt !== null && p.sweptAt <= choch.time &&
+        chochIndex - (index.get(p.sweptAt) ?? -Infinity) <= REVERSAL_SWEEP_BARS)
+      .sort((a, b) => b.strength - a.strength)[0]
+    if (pool) {
+      return {
+        direction: choch.direction,
+        pool,
+        choch,
+        description: `${pool.source.replace(/_/g, ' ')} ${pool.price.toFixed(2)} swept, then ${choch.degree.toLowerCase()} CHoCH through ${choch.level.toFixed(2)} — ${choch.direction.toLowerCase()} reversal`
+      }
+    }
+  }
+  return null
 }
 
 function findSwings(candles: Candle[]): { type: 'HIGH' | 'LOW'; price: number; time: number }[] {
@@ -606,78 +725,183 @@ function findSwings(candles: Candle[]): { type: 'HIGH' | 'LOW'; price: number; t
   return swings
 }
 
-// ==================== ORDER BLOCKS ====================
+// ==================== PREMIUM / DISCOUNT ====================
 
-export function detectOrderBlocks(candles: Candle[]): OrderBlock[] {
-  const blocks: OrderBlock[] = []
+// A dealing range narrower than this many ATRs is noise, not a leg
+const DEALING_RANGE_MIN_ATR = 2
+const OTE_SHALLOW = 0.62
+const OTE_DEEP = 0.79
+const EQUILIBRIUM_BAND_PCT = 5
 
-  for (let i = 3; i < candles.length - 1; i++) {
-    const prev2 = candles[i - 2]
-    const prev1 = candles[i - 1]
-    const curr = candles[i]
-    const next = candles[i + 1]
+/**
+ * Active dealing range: the latest swing and the most recent opposite swing at least
+ * two ATRs away, stretched to the extremes traded since. Above equilibrium is premium,
+ * below is discount; OTE is the 62–79% retracement of the range from either end.
+ */
+export function detectDealingRange(candles: Candle[], atr: number): DealingRange | null {
+  const swings = findSwings(candles)
+  if (swings.length < 2) return null
+
+  const last = swings[swings.length - 1]
+  const anchor = swings
+    .slice(0, -1)
+    .reverse()
+    .find(sw => sw.type !== last.type && Math.abs(sw.price - last.price) >= atr * DEALING_RANGE_MIN_ATR)
+  if (!anchor) return null
+
+  let high = -Infinity
+  let low = Infinity
+  let highTime = anchor.time
+  let lowTime = anchor.time
+  for (const c of candles) {
+    if (c.time < anchor.time) continue
+    if (c.high > high) { high = c.high; highTime = c.time }
+    if (c.low < low) { low = c.low; lowTime = c.time }
+  }
 
-    // Bullish OB: consecutive down candles followed by strong up move
-    if (prev2.close < prev2.open && prev1.close < prev1.open && next.close > next.open) {
-      const strength = calculateOBStrength(prev2, prev1, next)
+  const size = high - low
+  if (!(size > 0)) return null
 
-      blocks.push({
-        id: `OB_BULL_${i}`,
-        type: 'BULLISH',
-        top: Math.max(prev2.open, prev2.close, prev1.open, prev1.close),
-        bottom: Math.min(prev2.open, prev2.close, prev1.open, prev1.close),
-        bodyTop: Math.max(prev2.open, prev2.close),
-        bodyBottom: Math.min(prev2.open, prev2.close),
-        time: prev1.time,
-        strength,
-        touched: 0,
-        broken: false
-      })
+  const price = candles[candles.length - 1].close
+  const positionPct = Math.round(((price - low) / size) * 1000) / 10
+  const equilibrium = (high + low) / 2
+
+  return {
+    high,
+    low,
+    highTime,
+    lowTime,
+    direction: highTime >= lowTime ? 'BULLISH' : 'BEARISH',
+    equilibrium,
+    zone: Math.abs(positionPct - 50) <= EQUILIBRIUM_BAND_PCT ? 'EQUILIBRIUM' : positionPct > 50 ? 'PREMIUM' : 'DISCOUNT',
+    positionPct,
+    ote: {
+      buy: [high - size * OTE_DEEP, high - size * OTE_SHALLOW],
+      sell: [low + size * OTE_SHALLOW, low + size * OTE_DEEP]
     }
+  }
+}
+
+// ==================== ORDER BLOCKS ====================
 
-    // Bearish OB: consecutive up candles followed by strong down move
-    if (prev2.close > prev2.open && prev1.close > prev1.open && next.close < next.open) {
-      const strength = calculateOBStrength(prev2, prev1, next)
+// Blocks are replayed bar by bar so every block carries what later price did to it.
+// The tracker can also be fed incrementally (one closed candle at a time).
+export interface OrderBlockTracker {
+  blocks: OrderBlock[]
+  recent: Candle[] // last 4 candles, enough to confirm a new block
+  inZone: Record<string, boolean> // price currently inside a block (a retest needs a fresh visit)
+}
 
-      blocks.push({
-        id: `OB_BEAR_${i}`,
-        type: 'BEARISH',
-        top: Math.max(prev2.open, prev2.close, prev1.open, prev1.close),
-        bottom: Math.min(prev2.open, prev2.close, prev1.open, prev1.close),
-        bodyTop: Math.max(prev2.open, prev2.close),
-        bodyBottom: Math.min(prev2.open, prev2.close),
-        time: prev1.time,
-        strength,
-        touched: 0,
-        broken: false
-      })
+const MAX_TRACKED_BLOCKS = 50
+
+export function createOrderBlockTracker(): OrderBlockTracker {
+  return { blocks: [], recent: [], inZone: {} }
+}
+
+export function isFreshOrderBlock(block: OrderBlock): boolean {
+  return (block.status === 'FRESH' || block.status === 'BREAKER') && block.mitigatedAt === null
+}
+
+function overlapsZone(candle: Candle, block: OrderBlock): boolean {
+  return candle.low <= block.top && candle.high >= block.bottom
+}
+
+function updateBlockLifecycle(tracker: OrderBlockTracker, block: OrderBlock, candle: Candle) {
+  const bullish = block.type === 'BULLISH'
+  const closedThrough = bullish ? candle.close < block.bottom : candle.close > block.top
+
+  if (closedThrough) {
+    if (block.status === 'BREAKER') {
+      // A breaker that fails as well has no structure left to defend
+      block.status = 'INVALIDATED'
+      return
     }
+    block.type = bullish ? 'BEARISH' : 'BULLISH'
+    block.status = 'BREAKER'
+    block.broken = true
+    block.brokenAt = candle.time
+    block.touched = 0
+    block.mitigatedAt = null
+    tracker.inZone[block.id] = true
+    return
   }
 
-  // Check how many times order blocks have been touched
-  const latest = candles[candles.length - 1]
-  blocks.forEach(block => {
-    // Check if price respected this block
-    if (block.type === 'BULLISH') {
-      if (latest.low <= block.bottom && latest.close > block.bottom) {
-        block.touched = 1
-      }
-    } else {
-      if (latest.high >= block.top && latest.close < block.top) {
-        block.touched = 1
-      }
+  // Only the side price returns from counts: lows into demand, highs into supply
+  const tapped = bullish ? candle.low <= block.top : candle.high >= block.bottom
+  if (!tapped) {
+    tracker.inZone[block.id] = false
+    return
+  }
+  if (!tracker.inZone[block.id]) {
+    block.touched++
+    block.lastTouchAt = candle.time
+    if (block.mitigatedAt === null) {
+      block.mitigatedAt = candle.time
+      if (block.status === 'FRESH') block.status = 'MITIGATED'
     }
+  }
+  tracker.inZone[block.id] = true
+}
 
-    // Check if broken
-    if (block.type === 'BULLISH' && latest.close < block.bottom) {
-      block.broken = true
-    }
-    if (block.type === 'BEARISH' && latest.close > block.top) {
-      block.broken = true
-    }
-  })
+function confirmOrderBlock(recent: Candle[]): OrderBlock | null {
+  if (recent.length < 4) return null
+  const [prev2, prev1, , next] = recent.slice(-4)
+
+  // Bullish OB: consecutive down candles followed by an up move; bearish is the mirror
+  const bullish = prev2.close < prev2.open && prev1.close < prev1.open && next.close > next.open
+  const bearish = prev2.close > prev2.open && prev1.close > prev1.open && next.close < next.open
+  if (!bullish && !bearish) return null
 
-  return blocks.slice(-8).filter(b => !b.broken)
+  return {
+    id: `OB_${bullish ? 'BULL' : 'BEAR'}_${prev1.time}`,
+    type: bullish ? 'BULLISH' : 'BEARISH',
+    top: Math.max(prev2.open, prev2.close, prev1.open, prev1.close),
+    bottom: Math.min(prev2.open, prev2.close, prev1.open, prev1.close),
+    bodyTop: Math.max(prev2.open, prev2.close),
+    bodyBottom: Math.min(prev2.open, prev2.close),
+    time: prev1.time,
+    strength: calculateOBStrength(prev2, prev1, next),
+    touched: 0,
+    broken: false,
+    status: 'FRESH',
+    mitigatedAt: null,
+    brokenAt: null,
+    lastTouchAt: null
+  }
+}
+
+/** Advance the tracker by one closed candle: update existing blocks first, then look for a new one. */
+export function updateOrderBlockTracker(tracker: OrderBlockTracker, candle: Candle): OrderBlockTracker {
+  for (const block of tracker.blocks) {
+    updateBlockLifecycle(tracker, block, candle)
+  }
+
+  tracker.recent.push(candle)
+  if (tracker.recent.length > 4) tracker.recent.shift()
+
+  const block = confirmOrderBlock(tracker.recent)
+  if (block) {
+    tracker.blocks.push(block)
+    tracker.inZone[block.id] = overlapsZone(candle, block)
+  }
+
+  // Drop invalidated blocks and cap the history so long replays stay cheap
+  tracker.blocks = tracker.blocks.filter(b => b.status !== 'INVALIDATED').slice(-MAX_TRACKED_BLOCKS)
+  if (Object.keys(tracker.inZone).length > tracker.blocks.length) {
+    const keep = new Set(tracker.blocks.map(b => b.id))
+    for (const id of Object.keys(tracker.inZone)) if (!keep.has(id)) delete tracker.inZone[id]
+  }
+  return tracker
+}
+
+export function trackOrderBlocks(candles: Candle[], tracker: OrderBlockTracker = createOrderBlockTracker()): OrderBlockTracker {
+  for (const candle of candles) updateOrderBlockTracker(tracker, candle)
+  return tracker
+}
+
+/** The most recent active blocks (fresh, mitigated or breaker) after replaying `candles`. */
+export function detectOrderBlocks(candles: Candle[]): OrderBlock[] {
+  return trackOrderBlocks(candles).blocks.slice(-8)
 }
 
 function calculateOBStrength(c1: Candle, c2: Candle, c3: Candle): 'STRONG' | 'MODERATE' | 'WEAK' {
@@ -693,26 +917,75 @@ function calculateOBStrength(c1: Candle, c2: Candle, c3: Candle): 'STRONG' | 'MO
 
 // ==================== FAIR VALUE GAPS ====================
 
+const MAX_TRACKED_FVGS = 50
+
+// Advance one gap by a later candle. Returns false once an inversion FVG is closed back through.
+function updateFVGLifecycle(fvg: FVG, candle: Candle): boolean {
+  const bullish = fvg.type === 'BULLISH'
+
+  if (fvg.state === 'FILLED' || fvg.state === 'INVERSION') {
+    const closedThrough = bullish ? candle.close < fvg.bottom : candle.close > fvg.top
+    if (!closedThrough) {
+      if (fvg.state === 'INVERSION') trackFill(fvg, candle)
+      return true
+    }
+    if (fvg.state === 'INVERSION') return false
+    // A filled gap that price closes through flips into an inversion FVG
+    fvg.type = bullish ? 'BEARISH' : 'BULLISH'
+    fvg.state = 'INVERSION'
+    fvg.invertedAt = candle.time
+    fvg.fillPercent = 0
+    fvg.mitigated = false
+    return true
+  }
+
+  trackFill(fvg, candle)
+  if (fvg.fillPercent >= 100) {
+    fvg.state = 'FILLED'
+    fvg.filledAt = candle.time
+    // The same candle may already close beyond the far edge
+    return updateFVGLifecycle(fvg, candle)
+  }
+  if (fvg.fillPercent > 0) fvg.state = 'PARTIAL'
+  return true
+}
+
+// Bullish gaps fill from the top down, bearish gaps from the bottom up
+function trackFill(fvg: FVG, candle: Candle) {
+  const depth = fvg.type === 'BULLISH' ? fvg.top - candle.low : candle.high - fvg.bottom
+  const pct = Math.max(0, Math.min(100, (depth / fvg.size) * 100))
+  if (pct > fvg.fillPercent) fvg.fillPercent = Math.round(pct * 10) / 10
+  if (fvg.fillPercent >= 50) fvg.mitigated = true
+}
+
+/** Replay every gap against the candles that followed it; fully filled, non-inverted gaps are dropped. */
 export function detectFVGs(candles: Candle[]): FVG[] {
-  const fvgs: FVG[] = []
+  let fvgs: FVG[] = []
 
-  for (let i = 1; i < candles.length - 1; i++) {
-    const prev = candles[i - 1]
-    const curr = candles[i]
-    const next = candles[i + 1]
+  for (let i = 2; i < candles.length; i++) {
+    const next = candles[i]
+    fvgs = fvgs.filter(fvg => updateFVGLifecycle(fvg, next))
+
+    // A gap is confirmed once the third candle closes
+    const prev = candles[i - 2]
+    const curr = candles[i - 1]
 
     // Bullish FVG: gap between prev.high and next.low
     if (prev.high < next.low) {
       const size = next.low - prev.high
       fvgs.push({
-        id: `FVG_BULL_${i}`,
+        id: `FVG_BULL_${curr.time}`,
         type: 'BULLISH',
         top: next.low,
         bottom: prev.high,
         size,
         midpoint: (next.low + prev.high) / 2,
         time: curr.time,
-        mitigated: false
+        mitigated: false,
+        state: 'UNFILLED',
+        fillPercent: 0,
+        filledAt: null,
+        invertedAt: null
       })
     }
 
@@ -720,30 +993,25 @@ export function detectFVGs(candles: Candle[]): FVG[] {
     if (prev.low > next.high) {
       const size = prev.low - next.high
       fvgs.push({
-        id: `FVG_BEAR_${i}`,
+        id: `FVG_BEAR_${curr.time}`,
         type: 'BEARISH',
         top: prev.low,
         bottom: next.high,
         size,
         midpoint: (prev.low + next.high) / 2,
         time: curr.time,
-        mitigated: false
+        mitigated: false,
+        state: 'UNFILLED',
+        fillPercent: 0,
+        filledAt: null,
+        invertedAt: null
       })
     }
-  }
 
-  // Check mitigation
-  const latest = candles[candles.length - 1]
-  fvgs.forEach(fvg => {
-    if (fvg.type === 'BULLISH' && latest.low < fvg.midpoint) {
-      fvg.mitigated = true
-    }
-    if (fvg.type === 'BEARISH' && latest.high > fvg.midpoint) {
-      fvg.mitigated = true
-    }
-  })
+    if (fvgs.length > MAX_TRACKED_FVGS) fvgs = fvgs.slice(-MAX_TRACKED_FVGS)
+  }
 
-  return fvgs.slice(-5).filter(f => !f.mitigated)
+  return fvgs.filter(f => f.state !== 'FILLED').slice(-5)
 }
 
 // ==================== SUPPORT & RESISTANCE ====================
@@ -837,6 +1105,16 @@ export function detectSRLevels(candleArray: Candle[]): SRLevel[] {
 
 // ==================== SIGNAL GENERATION ====================
 
+// Optional context; the backtester has no higher timeframes or SMT references
+export interface BuildSignalOptions {
+  mta?: MTAResult[]
+  params?: StrategyParams      // default: DEFAULT_STRATEGY_PARAMS
+  smt?: Pattern[]
+  liquidity?: LiquidityZone[]
+  volume?: VolumeContext | null
+  sweepReversal?: SweepReversal | null // precomputed by the caller; detected from `liquidity` when omitted
+}
+
 export function buildSignal(
   candles: Candle[],
   rsi: number,
@@ -846,8 +1124,10 @@ export function buildSignal(
   amd: AMDPhase,
   orderBlocks: OrderBlock[],
   fvgs: FVG[],
-  srLevels: SRLevel[]
+  srLevels: SRLevel[],
+  options: BuildSignalOptions = {}
 ): GoldSignal {
+  const { mta, params = DEFAULT_STRATEGY_PARAMS, smt = [], liquidity = [], volume = null } = options
   const latest = candles[candles.length - 1]
   const price = latest.close
 
@@ -859,21 +1139,22 @@ export function buildSignal(
   let liquidityScore = 0
 
   // RSI-based signals
-  if (rsi < 30) {
+  const { rsiOversold, rsiOverbought, rsiMomentumBand } = params
+  if (rsi < rsiOversold) {
     action = 'BUY'
     baseConfidence = 65
-    confluences.push('RSI oversold (<30) — bullish reversal opportunity')
-  } else if (rsi > 70) {
+    confluences.push(`RSI oversold (<${rsiOversold}) — bullish reversal opportunity`)
+  } else if (rsi > rsiOverbought) {
     action = 'SELL'
     baseConfidence = 65
-    confluences.push('RSI overbought (>70) — bearish reversal risk')
-  } else if (rsi < 40 && rsi >= 30) {
+    confluences.push(`RSI overbought (>${rsiOverbought}) — bearish reversal risk`)
+  } else if (rsi < rsiOversold + rsiMomentumBand && rsi >= rsiOversold) {
     if (macd.histogram > 0) {
       action = 'BUY'
       baseConfidence = 60
       confluences.push('RSI recovering from oversold + MACD bullish')
     }
-  } else if (rsi > 60 && rsi <= 70) {
+  } else if (rsi > rsiOverbought - rsiMomentumBand && rsi <= rsiOverbought) {
     if (macd.histogram < 0) {
       action = 'SELL'
       baseConfidence = 60
@@ -894,7 +1175,22 @@ export function buildSignal(
     }
   }
 
-  // Check order blocks for entry zones
+  // Liquidity sweep followed by a CHoCH — the highest-conviction reversal, overrides oscillator reads
+  const reversal = options.sweepReversal !== undefined ? options.sweepReversal : detectSweepReversal(candles, liquidity)
+  if (reversal) {
+    const reversalAction = reversal.direction === 'BULLISH' ? 'BUY' : 'SELL'
+    if (action === reversalAction) {
+      baseConfidence += 12
+    } else {
+      if (action !== 'WAIT') confluences.push(`Sweep reversal overrides ${action} read`)
+      action = reversalAction
+      baseConfidence = 70
+    }
+    liquidityScore = reversal.pool.strength
+    confluences.push(reversal.description)
+  }
+
+  // Check order blocks for entry zones — untested blocks carry the most weight
   const relevantOBs = orderBlocks.filter(ob => {
     if (action === 'BUY' && ob.type === 'BULLISH') return true
     if (action === 'SELL' && ob.type === 'BEARISH') return true
@@ -902,19 +1198,29 @@ export function buildSignal(
   })
 
   if (relevantOBs.length > 0) {
-    const strongOBs = relevantOBs.filter(ob => ob.strength === 'STRONG')
+    const freshOBs = relevantOBs.filter(isFreshOrderBlock)
+    const strongOBs = freshOBs.filter(ob => ob.strength === 'STRONG')
+    const breakers = freshOBs.filter(ob => ob.status === 'BREAKER')
     if (strongOBs.length > 0) {
       baseConfidence += 10
       patternScore += 25
-      confluences.push(`${strongOBs.length} strong order block(s) aligned`)
-    } else {
+      confluences.push(`${strongOBs.length} fresh strong order block(s) aligned`)
+    } else if (freshOBs.length > 0) {
       baseConfidence += 5
       patternScore += 15
-      confluences.push(`${relevantOBs.length} order block(s) in zone`)
+      confluences.push(`${freshOBs.length} fresh order block(s) in zone`)
+    } else {
+      const retests = Math.max(...relevantOBs.map(ob => ob.touched))
+      baseConfidence += 2
+      patternScore += 5
+      confluences.push(`${relevantOBs.length} mitigated order block(s) (up to ${retests} retest${retests === 1 ? '' : 's'})`)
+    }
+    if (breakers.length > 0) {
+      confluences.push(`${breakers.length} breaker block(s) flipped ${action === 'BUY' ? 'bullish' : 'bearish'}`)
     }
   }
 
-  // Check FVGs
+  // Check FVGs — open imbalances first, then inversion FVGs that flipped our way
   const relevantFVGs = fvgs.filter(fvg => {
     if (action === 'BUY' && fvg.type === 'BULLISH') return true
     if (action === 'SELL' && fvg.type === 'BEARISH') return true
@@ -922,9 +1228,89 @@ export function buildSignal(
   })
 
   if (relevantFVGs.length > 0) {
-    baseConfidence += 5
-    patternScore += 10
-    confluences.push(`${relevantFVGs.length} FVG(s) providing entry context`)
+    const openFVGs = relevantFVGs.filter(fvg => fvg.state !== 'INVERSION' && !fvg.mitigated)
+    const inversions = relevantFVGs.filter(fvg => fvg.state === 'INVERSION')
+    if (openFVGs.length > 0) {
+      baseConfidence += 5
+      patternScore += 10
+      confluences.push(`${openFVGs.length} FVG(s) providing entry context`)
+    } else if (inversions.length === 0) {
+      baseConfidence += 2
+      patternScore += 5
+      confluences.push(`${relevantFVGs.length} FVG(s) filled past consequent encroachment`)
+    }
+    if (inversions.length > 0) {
+      baseConfidence += 5
+      patternScore += 10
+      confluences.push(`${inversions.length} inversion FVG(s) flipped ${action === 'BUY' ? 'bullish' : 'bearish'}`)
+    }
+  }
+
+  // Premium / discount of the active dealing range — buy cheap, sell expensive
+  const range = detectDealingRange(candles, atr)
+  if (range && action !== 'WAIT') {
+    const [oteLow, oteHigh] = action === 'BUY' ? range.ote.buy : range.ote.sell
+    const favourable = action === 'BUY' ? 'DISCOUNT' : 'PREMIUM'
+    if (price >= oteLow && price <= oteHigh) {
+      baseConfidence += 8
+      patternScore += 15
+      confluences.push(`Price in ${favourable.toLowerCase()} OTE (62–79%) of dealing range ${range.low.toFixed(2)}–${range.high.toFixed(2)}`)
+    } else if (range.zone === favourable) {
+      baseConfidence += 4
+      patternScore += 8
+      confluences.push(`${action === 'BUY' ? 'Buying' : 'Selling'} in ${favourable.toLowerCase()} (${range.positionPct}% of dealing range)`)
+    } else if (range.zone !== 'EQUILIBRIUM') {
+      baseConfidence -= 5
+      confluences.push(`⚠ ${action === 'BUY' ? 'Buying' : 'Selling'} in ${range.zone.toLowerCase()} (${range.positionPct}% of dealing range) — wait for OTE`)
+    }
+  }
+
+  // SMT divergence against silver / the dollar — confirms a sweep, never starts a trade
+  if (action !== 'WAIT' && smt.length > 0) {
+    const want = action === 'BUY' ? 'BULLISH' : 'BEARISH'
+    const aligned = smt.filter(p => p.direction === want)
+    const opposed = smt.filter(p => p.direction !== want)
+    if (aligned.length > 0) {
+      baseConfidence += 6 + (aligned.length > 1 ? 4 : 0)
+      patternScore += 12 * aligned.length
+      aligned.forEach(p => confluences.push(p.description))
+    }
+    if (opposed.length > 0) {
+      baseConfidence -= 5
+      confluences.push(`⚠ ${opposed[0].description}`)
+    }
+  }
+
+  // Anchored VWAP and the last completed session's value area
+  if (volume && action !== 'WAIT') {
+    const buying = action === 'BUY'
+    const vwap = volume.vwap.find(v => v.anchor === 'DAY') ?? volume.vwap.find(v => v.anchor === 'WEEK')
+    if (vwap) {
+      const name = `${vwap.anchor.toLowerCase()} VWAP ${vwap.vwap.toFixed(2)}`
+      if (buying ? price >= vwap.vwap : price <= vwap.vwap) {
+        baseConfidence += 4
+        patternScore += 8
+        confluences.push(`Price ${buying ? 'above' : 'below'} ${name}`)
+      } else if (buying ? price <= vwap.lower2 : price >= vwap.upper2) {
+        baseConfidence += 3
+        patternScore += 5
+        confluences.push(`Stretched beyond ${buying ? '-2σ' : '+2σ'} of ${name} — reversion room`)
+      } else {
+        baseConfidence -= 3
+        confluences.push(`⚠ ${buying ? 'Buying below' : 'Selling above'} ${name}`)
+      }
+    }
+
+    const profile = volume.profiles.filter(p => p.complete).sort((a, b) => b.end - a.end)[0]
+      ?? volume.profiles.find(p => p.id === 'COMPOSITE')
+    if (profile) {
+      const edge = buying ? profile.val : profile.vah
+      if (Math.abs(price - edge) <= atr * 0.25 || (buying ? price < edge : price > edge)) {
+        baseConfidence += 4
+        patternScore += 8
+        confluences.push(`At ${profile.label} value area ${buying ? 'low' : 'high'} ${edge.toFixed(2)} (POC ${profile.poc.toFixed(2)})`)
+      }
+    }
   }
 
   // Check S&R alignment
@@ -940,8 +1326,8 @@ export function buildSignal(
     confluences.push(`${relevantSR.length} S/R level(s) supporting direction`)
   }
 
-  // AMD strength adjustment
-  mtaScore = amd.strength
+  // Multi-timeframe alignment (falls back to AMD strength when MTA is unavailable)
+  mtaScore = mta && mta.length > 0 ? mta[0].alignment : amd.strength
 
   // Calculate confidence with weights
   let confidence = baseConfidence
@@ -951,22 +1337,36 @@ export function buildSignal(
 
   // Calculate entry, SL, TP
   const entry = price
-  const slDistance = atr * 1.5
+  const slDistance = atr * params.stopAtr
+  const [tp1Mult, tp2Mult, tp3Mult] = params.targetMultiples
   const sl = action === 'BUY' ? price - slDistance : price + slDistance
-  const tp1 = action === 'BUY' ? price + slDistance * 2 : price - slDistance * 2
-  const tp2 = action === 'BUY' ? price + slDistance * 3 : price - slDistance * 3
-  const tp3 = action === 'BUY' ? price + slDistance * 4 : price - slDistance * 4
+  const tp1 = action === 'BUY' ? price + slDistance * tp1Mult : price - slDistance * tp1Mult
+  const tp2 = action === 'BUY' ? price + slDistance * tp2Mult : price - slDistance * tp2Mult
+  const tp3 = action === 'BUY' ? price + slDistance * tp3Mult : price - slDistance * tp3Mult
+
+  // Entry zone: the OTE band, clipped to sit between price and the stop with at least
+  // entryZoneAtr of room to the stop; the symmetric ATR band when the range offers none
+  let entryZone: [number, number] = [price - atr * params.entryZoneAtr, price + atr * params.entryZoneAtr]
+  if (range && action !== 'WAIT') {
+    const buffer = atr * params.entryZoneAtr
+    const [oteLow, oteHigh] = action === 'BUY' ? range.ote.buy : range.ote.sell
+    const low = action === 'BUY' ? Math.max(oteLow, sl + buffer) : Math.max(oteLow, price)
+    const high = action === 'BUY' ? Math.min(oteHigh, price) : Math.min(oteHigh, sl - buffer)
+    if (high > low) entryZone = [low, high]
+  }
 
-  // Calculate entry zone
-  const entryZone: [number, number] = action === 'BUY'
-    ? [price - atr * 0.5, price + atr * 0.5]
-    : [price - atr * 0.5, price + atr * 0.5]
+  // Consequent encroachment of aligned gaps between price and the stop — limit-entry candidates
+  const entryCandidates: EntryCandidate[] = action === 'WAIT' ? [] : relevantFVGs
+    .filter(fvg => action === 'BUY' ? fvg.midpoint < price && fvg.midpoint > sl : fvg.midpoint > price && fvg.midpoint < sl)
+    .map(fvg => ({ source: fvg.state === 'INVERSION' ? 'IFVG_CE' as const : 'FVG_CE' as const, price: fvg.midpoint, ref: fvg.id }))
+    .sort((a, b) => Math.abs(price - a.price) - Math.abs(price - b.price))
 
   return {
     action,
     confidence: Math.round(confidence),
     entry,
     entryZone,
+    entryCandidates,
     stopLoss: sl,
     tp1,
     tp2,
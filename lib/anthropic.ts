@@ -80,6 +80,7 @@ function buildDeepPrompt(context: any): string {
     `RSI: ${Number(context?.rsi ?? 50).toFixed(1)} | ATR: ${Number(context?.atr ?? 0).toFixed(2)}`,
     `OrderBlocks: ${context?.orderBlocks?.length ?? 0} | FVGs: ${context?.fvgs?.length ?? 0} | SR: ${context?.srLevels?.length ?? 0}`,
     `News risk: ${context?.newsRisk?.level ?? 'N/A'} | Bias: ${context?.newsBias?.bias ?? 'N/A'}`,
+    `MTA: ${(context?.mta ?? []).map((r: any) => `${r.timeframe} ${r.trend}/${r.signal}`).join(' | ') || 'N/A'}`,
   ].join('\n')
 }
 
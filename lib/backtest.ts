@@ -0,0 +1,443 @@
+// lib/backtest.ts — Event-driven backtester over the /api/analyze signal pipeline
+import type { Candle } from './twelvedata'
+import { calculateRSI, calculateMACD, calculateBBands, calculateATR } from './twelvedata'
+import {
+  detectAMD,
+  detectOrderBlocks,
+  detectFVGs,
+  detectSRLevels,
+  detectLiquidityZones,
+  buildSignal,
+  type AMDPhase,
+  type GoldSignal
+} from './analysis'
+import { generatePriceActionSignal, type PriceActionSignal } from './priceaction'
+import { buildVolumeContext } from './volumeprofile'
+import { combineSignals, type HybridSignal } from './hybridsignal'
+import { calculateFixedFractionalSize, assessSignalQuality } from './riskmanagement'
+import { calculatePerformanceMetrics, type Trade, type PerformanceMetrics } from './performance'
+import { DEFAULT_STRATEGY_PARAMS, resolveStrategyParams, type StrategyParams } from './strategyparams'
+import { DEFAULT_SIGNAL_BLEND, resolveStrategyProfile, type SignalBlend } from './strategyprofiles'
+import { intervalSeconds } from './providers'
+import { DEFAULT_SESSION_CALENDAR, getSessionState, resolveSessionCalendar, type SessionCalendar, type SessionCalendarOverrides } from './sessions'
+
+// Window sizes the handler fetches: 150 analysis bars, 160 for RSI, 200 for MACD/BBands/ATR
+const ANALYSIS_BARS = 150
+const RSI_BARS = 160
+const INDICATOR_BARS = 200
+
+export const DEFAULT_TARGET_ALLOCATION: [number, number, number] = [0.5, 0.3, 0.2]
+
+export interface BacktestConfig {
+  interval: string
+  symbol?: string
+  profile?: string            // strategy profile id: its blend, thresholds and minimum confidence (default hybrid)
+  params?: Partial<StrategyParams> // signal thresholds over the profile's; unspecified fields use the defaults
+  spread?: number             // full bid/ask spread in price units (default 0.30)
+  slippage?: number           // adverse fill on market entries and stops (default 0.10)
+  initialBalance?: number     // default 10,000
+  riskPercent?: number        // fraction of balance risked per trade (default 0.01)
+  contractSize?: number       // oz per lot (default 100)
+  minConfidence?: number      // skip hybrid signals below this confidence (default: the profile's gate)
+  targetAllocation?: [number, number, number] // fraction closed at TP1/TP2/TP3 (default 50/30/20)
+  breakevenAfterTp1?: boolean // move the stop to entry once TP1 fills (default true)
+  maxBarsInTrade?: number     // expire at market after N bars; 0 disables (default 0)
+  warmupBars?: number         // bars before the first signal (default 200)
+  sessions?: SessionCalendarOverrides // trader's session calendar for AMD ranges and tier scoring
+}
+
+export type ExitReason = 'SL' | 'BREAKEVEN' | 'TARGET' | 'EXPIRED' | 'END_OF_DATA'
+
+export interface BacktestTrade extends Trade {
+  entryTime: number           // epoch seconds of the fill bar
+  exitTime: number
+  tp1: number
+  tp2: number
+  tp3: number
+  targetsHit: number
+  exitReason: ExitReason
+  mae: number                 // max adverse excursion, price units
+  mfe: number                 // max favorable excursion, price units
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[]
+  metrics: PerformanceMetrics
+  equityCurve: { time: number; balance: number }[]
+  initialBalance: number
+  finalBalance: number
+  bars: number
+  signals: number             // non-WAIT signals that passed minConfidence and the session gates
+  blocked: number             // non-WAIT signals turned into WAIT by a session gate (CME closed, outside the trade windows)
+  unsimulatedGates: string[]  // profile gates the replay can't apply (no higher-timeframe or news history)
+  skipped: number             // signals not filled (stale entry, breakout level not reached, zero size)
+}
+
+export interface PipelineSnapshot {
+  signal: HybridSignal
+  ict: GoldSignal
+  priceAction: PriceActionSignal
+  amd: AMDPhase
+  atr: number
+  avgAtr: number
+}
+
+/**
+ * Rebuild the handler's signal for the last bar of `history`.
+ * Only bars up to and including the last one are read, so calling this
+ * with candles.slice(0, i + 1) never looks ahead.
+ */
+export function runSignalPipeline(
+  history: Candle[],
+  interval: string,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS,
+  calendar: SessionCalendar = DEFAULT_SESSION_CALENDAR,
+  blend: SignalBlend = DEFAULT_SIGNAL_BLEND
+): PipelineSnapshot {
+  const candles = history.slice(-ANALYSIS_BARS)
+  const indicatorWindow = history.slice(-INDICATOR_BARS)
+
+  const rsi = calculateRSI(history.slice(-RSI_BARS))
+  const macd = calculateMACD(indicatorWindow)
+  const bbands = calculateBBands(indicatorWindow)
+  const atr = calculateATR(indicatorWindow)
+
+  const amd = detectAMD(candles, interval, calendar)
+  const orderBlocks = detectOrderBlocks(candles)
+  const fvgs = detectFVGs(candles)
+  const srLevels = detectSRLevels(candles)
+  const liquidity = detectLiquidityZones(candles, atr, interval, calendar)
+  const volume = buildVolumeContext(candles, interval, calendar)
+  const ict = buildSignal(candles, rsi, macd, bbands, atr, amd, orderBlocks, fvgs, srLevels, { params, liquidity, volume })
+
+  const price = candles[candles.length - 1].close
+  const priceAction = generatePriceActionSignal(candles, price, atr, params)
+  const signal = combineSignals(ict, priceAction, atr, blend)
+
+  return { signal, ict, priceAction, amd, atr, avgAtr: calculateATR(indicatorWindow, 100) }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Simulation state (shared with the journal outcome resolver)
+// ─────────────────────────────────────────────────────────────────────────────
+// Breakout entries rest at a level: a stop beyond price (the breakout), a limit behind it (the retest)
+export interface OrderTrigger {
+  price: number
+  kind: 'STOP' | 'LIMIT'
+}
+
+export interface PendingOrder {
+  direction: 'BUY' | 'SELL'
+  stopLoss: number
+  targets: number[]
+  confidence: number
+  tier: Trade['signalTier']
+  reason: string
+  trigger?: OrderTrigger      // unset: market order at the next open
+}
+
+export interface SimulatedPosition extends PendingOrder {
+  entry: number
+  entryTime: number
+  entryIndex: number
+  stop: number                // live stop; stopLoss keeps the original
+  lotSize: number
+  remaining: number           // open fraction of the position
+  targetsHit: number
+  realizedPnl: number
+  exitValue: number           // Σ exit price × fraction, for the average exit
+  balanceAtEntry: number
+  mae: number
+  mfe: number
+}
+
+export interface ExecutionCosts {
+  halfSpread: number
+  slippage: number
+  contractSize: number
+}
+
+function tierFor(snapshot: PipelineSnapshot, time: number, interval: string, calendar: SessionCalendar): Trade['signalTier'] {
+  const { signal, amd, priceAction, atr, avgAtr } = snapshot
+  return assessSignalQuality({
+    confidence: signal.confidence,
+    confluenceCount: signal.confluences.length,
+    trendAlignment: (signal.action === 'BUY' && amd.bias === 'BULLISH') || (signal.action === 'SELL' && amd.bias === 'BEARISH'),
+    atr,
+    avgATR: avgAtr,
+    // No historical calendar: replayed bars are scored as news-free
+    newsRisk: 'LOW',
+    riskReward: signal.rr1,
+    timeframe: interval,
+    sessionActive: getSessionState(time * 1000, calendar).inTradeWindow,
+    priceActionConfirmation: priceAction.action === signal.action
+  }).tier
+}
+
+/** Order type that reaches `entry` from `price`. */
+export function breakoutTrigger(entry: number, price: number, direction: 'BUY' | 'SELL'): OrderTrigger {
+  const dir = direction === 'BUY' ? 1 : -1
+  return { price: entry, kind: (entry - price) * dir > 0 ? 'STOP' : 'LIMIT' }
+}
+
+/**
+ * Mid price a resting order fills at on `bar`, or null when the bar never trades at
+ * its level. A bar that opens through the level fills at the open — worse than the
+ * level for a stop (gap), better for a limit.
+ */
+export function triggerFill(trigger: OrderTrigger, direction: 'BUY' | 'SELL', bar: Candle): number | null {
+  const side = (direction === 'BUY' ? 1 : -1) * (trigger.kind === 'STOP' ? 1 : -1)
+  if ((bar.open - trigger.price) * side >= 0) return bar.open
+  const reached = side > 0 ? bar.high >= trigger.price : bar.low <= trigger.price
+  return reached ? trigger.price : null
+}
+
+function orderFromSignal(snapshot: PipelineSnapshot, time: number, close: number, interval: string, calendar: SessionCalendar): PendingOrder | null {
+  const { signal } = snapshot
+  if (signal.action === 'WAIT') return null
+  const dir = signal.action === 'BUY' ? 1 : -1
+
+  // combineSignals can mix PA stops with ICT targets; keep only targets beyond entry, in order
+  const targets: number[] = []
+  for (const tp of [signal.tp1, signal.tp2, signal.tp3]) {
+    const last = targets[targets.length - 1] ?? signal.entry
+    if (Number.isFinite(tp) && (tp - last) * dir > 0) targets.push(tp)
+  }
+  if (targets.length === 0 || (signal.entry - signal.stopLoss) * dir <= 0) return null
+
+  return {
+    direction: signal.action,
+    stopLoss: signal.stopLoss,
+    targets,
+    confidence: signal.confidence,
+    tier: tierFor(snapshot, time, interval, calendar),
+    reason: signal.confluences[0] ?? '',
+    trigger: signal.entryType === 'BREAKOUT' ? breakoutTrigger(signal.entry, close, signal.action) : undefined
+  }
+}
+
+export function closeFraction(pos: SimulatedPosition, price: number, fraction: number, costs: ExecutionCosts): void {
+  const dir = pos.direction === 'BUY' ? 1 : -1
+  const size = Math.min(fraction, pos.remaining)
+  pos.realizedPnl += (price - pos.entry) * dir * costs.contractSize * pos.lotSize * size
+  pos.exitValue += price * size
+  pos.remaining -= size
+}
+
+export function finalizeTrade(pos: SimulatedPosition, exitTime: number, exitReason: ExitReason, symbol: string): BacktestTrade {
+  const closedFraction = 1 - pos.remaining
+  const exit = closedFraction > 0 ? pos.exitValue / closedFraction : pos.entry
+  const pnl = Math.round(pos.realizedPnl * 100) / 100
+  const stoppedOut = exitReason === 'SL' && pos.targetsHit === 0
+
+  return {
+    id: `bt-${pos.entryTime}`,
+    timestamp: pos.entryTime * 1000,
+    symbol,
+    direction: pos.direction,
+    entry: pos.entry,
+    exit,
+    stopLoss: pos.stopLoss,
+    takeProfit: pos.targets[0],
+    lotSize: pos.lotSize,
+    status: stoppedOut ? 'SL_HIT' : 'CLOSED',
+    pnl,
+    pnlPercent: pos.balanceAtEntry > 0 ? (pnl / pos.balanceAtEntry) * 100 : 0,
+    duration: (exitTime - pos.entryTime) * 1000,
+    signalConfidence: pos.confidence,
+    signalTier: pos.tier,
+    reason: pos.reason,
+    entryTime: pos.entryTime,
+    exitTime,
+    tp1: pos.targets[0],
+    tp2: pos.targets[1] ?? pos.targets[pos.targets.length - 1],
+    tp3: pos.targets[2] ?? pos.targets[pos.targets.length - 1],
+    targetsHit: pos.targetsHit,
+    exitReason,
+    mae: pos.mae,
+    mfe: pos.mfe
+  }
+}
+
+export function openPosition(order: PendingOrder, entry: number, time: number, index: number, lotSize: number, balance: number): SimulatedPosition {
+  return {
+    ...order,
+    entry,
+    entryTime: time,
+    entryIndex: index,
+    stop: order.stopLoss,
+    lotSize,
+    remaining: 1,
+    targetsHit: 0,
+    realizedPnl: 0,
+    exitValue: 0,
+    balanceAtEntry: balance,
+    mae: 0,
+    mfe: 0
+  }
+}
+
+/**
+ * Mark an open position against one bar: track MAE/MFE, then fill the stop or any
+ * targets the bar reached. When a bar touches both, the stop is assumed to fill first.
+ * Returns the exit reason once the position is flat, otherwise null.
+ */
+export function markPositionBar(
+  pos: SimulatedPosition,
+  bar: Candle,
+  costs: ExecutionCosts,
+  allocation: [number, number, number],
+  breakevenAfterTp1: boolean
+): ExitReason | null {
+  const dir = pos.direction === 'BUY' ? 1 : -1
+  // Exit side of the book: longs sell at the bid, shorts buy at the ask
+  const exitOpen = bar.open - dir * costs.halfSpread
+  const worst = (dir === 1 ? bar.low : bar.high) - dir * costs.halfSpread
+  const best = (dir === 1 ? bar.high : bar.low) - dir * costs.halfSpread
+
+  pos.mae = Math.max(pos.mae, (pos.entry - worst) * dir)
+  pos.mfe = Math.max(pos.mfe, (best - pos.entry) * dir)
+
+  if ((worst - pos.stop) * dir <= 0) {
+    // Gaps through the stop fill at the open
+    const fill = ((exitOpen - pos.stop) * dir < 0 ? exitOpen : pos.stop) - dir * costs.slippage
+    closeFraction(pos, fill, pos.remaining, costs)
+    return pos.targetsHit > 0 && pos.stop === pos.entry ? 'BREAKEVEN' : 'SL'
+  }
+
+  while (pos.targetsHit < pos.targets.length && (best - pos.targets[pos.targetsHit]) * dir >= 0) {
+    const isLast = pos.targetsHit === pos.targets.length - 1
+    closeFraction(pos, pos.targets[pos.targetsHit], isLast ? pos.remaining : allocation[pos.targetsHit], costs)
+    pos.targetsHit++
+    if (pos.targetsHit === 1 && breakevenAfterTp1) pos.stop = pos.entry
+  }
+
+  return pos.remaining <= 1e-9 ? 'TARGET' : null
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Engine
+// ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Replay `candles` bar by bar. Each bar is processed as three events:
+ *
+ * 1. open  — a pending order from the previous close fills at the open (± half spread + slippage);
+ *            a breakout entry only fills if the bar trades at its level, otherwise it is skipped
+ * 2. range — the open position is marked against the bar's high/low; when a bar touches both
+ *            the stop and a target, the stop is assumed to fill first
+ * 3. close — the pipeline runs on bars [0..i] and, when flat, queues an order for bar i + 1
+ *
+ * Candles are treated as mid prices. Targets are limit orders and fill without slippage.
+ */
+export function runBacktest(candles: Candle[], config: BacktestConfig): BacktestResult {
+  const symbol = config.symbol ?? 'XAU/USD'
+  const profile = resolveStrategyProfile(config.profile)
+  const params = resolveStrategyParams({ ...profile.params, ...config.params })
+  const initialBalance = config.initialBalance ?? 10_000
+  const riskPercent = config.riskPercent ?? 0.01
+  const minConfidence = config.minConfidence ?? profile.gates.minConfidence
+  const allocation = config.targetAllocation ?? DEFAULT_TARGET_ALLOCATION
+  const breakevenAfterTp1 = config.breakevenAfterTp1 ?? true
+  const calendar = resolveSessionCalendar(config.sessions)
+  const maxBarsInTrade = config.maxBarsInTrade ?? 0
+  const warmup = Math.max(config.warmupBars ?? INDICATOR_BARS, 20)
+  const costs: ExecutionCosts = {
+    halfSpread: (config.spread ?? 0.3) / 2,
+    slippage: config.slippage ?? 0.1,
+    contractSize: config.contractSize ?? 100
+  }
+
+  const trades: BacktestTrade[] = []
+  const equityCurve: { time: number; balance: number }[] = []
+  let balance = initialBalance
+  let pending: PendingOrder | null = null
+  let position: SimulatedPosition | null = null
+  let signals = 0
+  let skipped = 0
+  let blocked = 0
+  const barSeconds = intervalSeconds(config.interval)
+
+  const settle = (pos: SimulatedPosition, time: number, reason: ExitReason) => {
+    const trade = finalizeTrade(pos, time, reason, symbol)
+    trades.push(trade)
+    balance += trade.pnl
+    equityCurve.push({ time, balance: Math.round(balance * 100) / 100 })
+    position = null
+  }
+
+  for (let i = warmup; i < candles.length; i++) {
+    const bar = candles[i]
+    let intrabarFill = false
+
+    // ── 1. Open: fill the queued order ──
+    if (pending && !position) {
+      const order: PendingOrder = pending
+      pending = null
+      const dir = order.direction === 'BUY' ? 1 : -1
+      const fill = order.trigger ? triggerFill(order.trigger, order.direction, bar) : bar.open
+      // Limits, like targets, fill without slippage
+      const slippage = order.trigger?.kind === 'LIMIT' ? 0 : costs.slippage
+      const entry = (fill ?? bar.open) + dir * (costs.halfSpread + slippage)
+      const stale = fill === null || (entry - order.stopLoss) * dir <= 0 || (order.targets[0] - entry) * dir <= 0
+      const lotSize = stale ? 0 : calculateFixedFractionalSize(balance, riskPercent, entry, order.stopLoss, costs.contractSize).lotSize
+
+      if (lotSize > 0) {
+        position = openPosition(order, entry, bar.time, i, lotSize, balance)
+        intrabarFill = fill !== bar.open
+      } else {
+        skipped++
+      }
+    }
+
+    // ── 2. Range: stops, targets, expiry ──
+    // An intrabar fill can't see what the bar did before it; it is marked from the next bar
+    const pos = position as SimulatedPosition | null
+    if (pos && !intrabarFill) {
+      const exitReason = markPositionBar(pos, bar, costs, allocation, breakevenAfterTp1)
+      if (exitReason) {
+        settle(pos, bar.time, exitReason)
+      } else if (maxBarsInTrade > 0 && i - pos.entryIndex + 1 >= maxBarsInTrade) {
+        const dir = pos.direction === 'BUY' ? 1 : -1
+        closeFraction(pos, bar.close - dir * (costs.halfSpread + costs.slippage), pos.remaining, costs)
+        settle(pos, bar.time, 'EXPIRED')
+      }
+    }
+
+    // ── 3. Close: evaluate the pipeline on closed bars only ──
+    if (!position && i < candles.length - 1) {
+      const snapshot = runSignalPipeline(candles.slice(Math.max(0, i + 1 - INDICATOR_BARS), i + 1), config.interval, params, calendar, profile.blend)
+      if (snapshot.signal.action !== 'WAIT' && snapshot.signal.confidence >= minConfidence) {
+        // The handler would produce this signal at the bar's close, so gate on that instant
+        const session = getSessionState((bar.time + barSeconds) * 1000, calendar)
+        if ((calendar.blockCmeBreak && !session.marketOpen) || (profile.gates.tradeWindowsOnly && !session.inTradeWindow)) {
+          blocked++
+          continue
+        }
+        signals++
+        pending = orderFromSignal(snapshot, bar.time, bar.close, config.interval, calendar)
+        if (!pending) skipped++
+      }
+    }
+  }
+
+  const open = position as SimulatedPosition | null
+  if (open && candles.length > 0) {
+    const last = candles[candles.length - 1]
+    const dir = open.direction === 'BUY' ? 1 : -1
+    closeFraction(open, last.close - dir * costs.halfSpread, open.remaining, costs)
+    settle(open, last.time, 'END_OF_DATA')
+  }
+
+  return {
+    trades,
+    metrics: calculatePerformanceMetrics(trades),
+    equityCurve,
+    initialBalance,
+    finalBalance: Math.round(balance * 100) / 100,
+    bars: Math.max(0, candles.length - warmup),
+    signals,
+    blocked,
+    skipped,
+    unsimulatedGates: (['requireMtaAlignment', 'blockHighImpactNews'] as const).filter(gate => profile.gates[gate])
+  }
+}
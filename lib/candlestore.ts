@@ -0,0 +1,169 @@
+// lib/candlestore.ts — Persistent local candle store (append-only NDJSON per symbol/interval)
+import fs from 'fs'
+import path from 'path'
+import type { Candle } from './twelvedata'
+
+// Serverless deployments only allow writes under /tmp — point CANDLE_STORE_DIR there
+const STORE_DIR = () => process.env.CANDLE_STORE_DIR || path.join(process.cwd(), 'data', 'candles')
+
+// Rewrite a file once superseded lines outnumber live bars by this ratio
+const COMPACT_RATIO = 1.5
+
+export interface CandleRange {
+  from?: number   // inclusive, epoch seconds
+  to?: number     // inclusive, epoch seconds
+  limit?: number  // keep the most recent N bars of the range
+}
+
+export interface StoredSeriesInfo {
+  symbol: string
+  interval: string
+  count: number
+  first: number | null
+  last: number | null
+}
+
+interface LoadedSeries {
+  candles: Candle[]   // sorted, unique by time
+  lines: number       // raw lines on disk (duplicates included)
+  mtimeMs: number
+}
+
+const loaded = new Map<string, LoadedSeries>()
+
+function seriesKey(symbol: string, interval: string): string {
+  return `${symbol.replace(/[^A-Za-z0-9]/g, '').toUpperCase()}_${interval}`
+}
+
+function seriesPath(symbol: string, interval: string): string {
+  return path.join(STORE_DIR(), `${seriesKey(symbol, interval)}.ndjson`)
+}
+
+function ensureDir(): void {
+  const dir = STORE_DIR()
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+}
+
+function parseLines(raw: string): { candles: Candle[]; lines: number } {
+  const byTime = new Map<number, Candle>()
+  let lines = 0
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue
+    lines++
+    try {
+      const c = JSON.parse(line)
+      if (Number.isFinite(c?.time) && Number.isFinite(c?.close)) {
+        // Later lines win: the forming bar is re-appended as it updates
+        byTime.set(c.time, { time: c.time, open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume ?? 0 })
+      }
+    } catch {
+      // Skip a torn last line from an interrupted write
+    }
+  }
+  const candles = Array.from(byTime.values()).sort((a, b) => a.time - b.time)
+  return { candles, lines }
+}
+
+function loadSeries(symbol: string, interval: string): LoadedSeries {
+  const key = seriesKey(symbol, interval)
+  const filePath = seriesPath(symbol, interval)
+
+  let mtimeMs = 0
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs
+  } catch {
+    const empty = { candles: [], lines: 0, mtimeMs: 0 }
+    loaded.set(key, empty)
+    return empty
+  }
+
+  const cached = loaded.get(key)
+  if (cached && cached.mtimeMs === mtimeMs) return cached
+
+  const { candles, lines } = parseLines(fs.readFileSync(filePath, 'utf-8'))
+  const series = { candles, lines, mtimeMs }
+  loaded.set(key, series)
+  return series
+}
+
+function lowerBound(candles: Candle[], time: number): number {
+  let lo = 0
+  let hi = candles.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (candles[mid].time < time) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+/**
+ * Read stored bars for a symbol/interval, optionally limited to a time range.
+ * Returns an empty array when nothing is stored or the store is unreadable.
+ */
+export function readCandles(symbol: string, interval: string, range: CandleRange = {}): Candle[] {
+  try {
+    const { candles } = loadSeries(symbol, interval)
+    const start = range.from !== undefined ? lowerBound(candles, range.from) : 0
+    const end = range.to !== undefined ? lowerBound(candles, range.to + 1) : candles.length
+    const slice = candles.slice(start, end)
+    return range.limit !== undefined ? slice.slice(-range.limit) : slice
+  } catch (error) {
+    console.warn('[candlestore] read failed:', error)
+    return []
+  }
+}
+
+/**
+ * Merge bars into the store. Bars at or after the last stored bar are appended
+ * (the forming bar is overwritten); older bars trigger a full rewrite.
+ */
+export function upsertCandles(symbol: string, interval: string, candles: Candle[]): boolean {
+  if (candles.length === 0) return true
+
+  try {
+    ensureDir()
+    const filePath = seriesPath(symbol, interval)
+    const series = loadSeries(symbol, interval)
+    const lastTime = series.candles[series.candles.length - 1]?.time ?? -Infinity
+    const incoming = [...candles].sort((a, b) => a.time - b.time)
+
+    const byTime = new Map(series.candles.map(c => [c.time, c]))
+    incoming.forEach(c => byTime.set(c.time, c))
+    const merged = Array.from(byTime.values()).sort((a, b) => a.time - b.time)
+
+    const backfill = incoming[0].time < lastTime
+    const lines = series.lines + incoming.length
+    if (backfill || lines > merged.length * COMPACT_RATIO) {
+      writeSeries(filePath, merged)
+      loaded.set(seriesKey(symbol, interval), { candles: merged, lines: merged.length, mtimeMs: fs.statSync(filePath).mtimeMs })
+    } else {
+      fs.appendFileSync(filePath, incoming.map(c => JSON.stringify(c)).join('\n') + '\n', 'utf-8')
+      loaded.set(seriesKey(symbol, interval), { candles: merged, lines, mtimeMs: fs.statSync(filePath).mtimeMs })
+    }
+    return true
+  } catch (error) {
+    console.warn('[candlestore] write failed:', error)
+    return false
+  }
+}
+
+function writeSeries(filePath: string, candles: Candle[]): void {
+  // Write to a temp file then rename so readers never see a half-written series
+  const tmpPath = `${filePath}.${process.pid}.tmp`
+  fs.writeFileSync(tmpPath, candles.map(c => JSON.stringify(c)).join('\n') + '\n', 'utf-8')
+  fs.renameSync(tmpPath, filePath)
+}
+
+export function getStoredSeriesInfo(symbol: string, interval: string): StoredSeriesInfo {
+  const candles = readCandles(symbol, interval)
+  return {
+    symbol,
+    interval,
+    count: candles.length,
+    first: candles[0]?.time ?? null,
+    last: candles[candles.length - 1]?.time ?? null
+  }
+}
@@ -0,0 +1,304 @@
+// lib/historyimport.ts — Broker CSV history import (MT5, Dukascopy, generic) into the candle store
+import type { Candle } from './twelvedata'
+import { ALLOWED_INTERVALS } from './twelvedata'
+import { intervalSeconds, normalizeSymbol, resampleCandles } from './providers'
+import { upsertCandles } from './candlestore'
+import { tradingDay } from './sessions'
+import { zonedTimeToUtc, isValidTimeZone, type WallTime } from './timezone'
+
+export type CsvFormat = 'mt5' | 'dukascopy' | 'generic'
+
+export interface CsvImportOptions {
+  format?: CsvFormat | 'auto'
+  // Source clock: an IANA zone (e.g. "EET" for most MT5 servers) or a fixed offset.
+  // Ignored for rows that carry their own offset (ISO "Z"/"+02:00", Dukascopy "GMT+0200").
+  timeZone?: string
+  utcOffsetMinutes?: number
+  // Explicit column indexes for headerless or unusual layouts
+  columns?: Partial<Record<'datetime' | 'date' | 'time' | 'open' | 'high' | 'low' | 'close' | 'volume', number>>
+}
+
+export interface CsvParseResult {
+  format: CsvFormat
+  candles: Candle[]
+  sourceSeconds: number   // detected bar resolution of the file
+  skipped: number         // rows that failed to parse or validate
+}
+
+export interface HistoryImportResult {
+  symbol: string
+  format: CsvFormat
+  rows: number
+  skipped: number
+  sourceSeconds: number
+  from: number | null
+  to: number | null
+  written: Record<string, number>
+}
+
+type ColumnMap = Required<Pick<NonNullable<CsvImportOptions['columns']>, 'open' | 'high' | 'low' | 'close'>> &
+  Pick<NonNullable<CsvImportOptions['columns']>, 'datetime' | 'date' | 'time' | 'volume'>
+
+const HEADER_ALIASES: Record<keyof ColumnMap, string[]> = {
+  datetime: ['datetime', 'timestamp', 'gmt time', 'local time', 'time (utc)', 'date time', 'time utc'],
+  date: ['date', 'day'],
+  time: ['time', 'hour'],
+  open: ['open', 'o', 'bid open', 'open bid'],
+  high: ['high', 'h', 'bid high', 'high bid'],
+  low: ['low', 'l', 'bid low', 'low bid'],
+  close: ['close', 'c', 'bid close', 'close bid', 'last'],
+  volume: ['volume', 'vol', 'tickvol', 'tick volume', 'tick_volume', 'v']
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+function detectDelimiter(line: string): string {
+  const counts = ['\t', ';', ','].map(d => ({ d, n: line.split(d).length - 1 }))
+  counts.sort((a, b) => b.n - a.n)
+  return counts[0].n > 0 ? counts[0].d : ','
+}
+
+function cleanHeader(cell: string): string {
+  // MT5 wraps headers in angle brackets: <DATE>, <TICKVOL>
+  return cell.trim().replace(/^<|>$/g, '').replace(/^"|"$/g, '').toLowerCase()
+}
+
+function isHeaderRow(cells: string[]): boolean {
+  return cells.some(c => /[a-z]/i.test(c) && !/^\d/.test(c.trim()))
+}
+
+function detectFormat(header: string[] | null, firstRow: string[]): CsvFormat {
+  if (header?.some(h => h === 'gmt time' || h === 'local time')) return 'dukascopy'
+  if (header?.includes('tickvol') || header?.includes('spread')) return 'mt5'
+  // Headerless MT4/MT5 exports: 2024.01.02,01:00,...
+  if (!header && /^\d{4}\.\d{2}\.\d{2}$/.test(firstRow[0]?.trim() ?? '')) return 'mt5'
+  return 'generic'
+}
+
+function mapColumns(header: string[] | null, format: CsvFormat, overrides: CsvImportOptions['columns']): ColumnMap {
+  if (header) {
+    const find = (key: keyof ColumnMap) => {
+      const idx = header.findIndex(h => HEADER_ALIASES[key].includes(h))
+      return idx >= 0 ? idx : undefined
+    }
+    const mapped = {
+      datetime: find('datetime'),
+      date: find('date'),
+      time: find('time'),
+      open: find('open'),
+      high: find('high'),
+      low: find('low'),
+      close: find('close'),
+      volume: find('volume'),
+      ...overrides
+    }
+    // A lone "time" column holds the full timestamp
+    if (mapped.datetime === undefined && mapped.date === undefined && mapped.time !== undefined) {
+      mapped.datetime = mapped.time
+      mapped.time = undefined
+    }
+    if (mapped.open === undefined || mapped.high === undefined || mapped.low === undefined || mapped.close === undefined) {
+      throw new Error('CSV import error: could not find open/high/low/close columns in header')
+    }
+    return mapped as ColumnMap
+  }
+
+  // Headerless layouts: MT4/MT5 "date,time,open,high,low,close,volume", otherwise "datetime,open,high,low,close,volume"
+  const defaults: ColumnMap = format === 'mt5'
+    ? { date: 0, time: 1, open: 2, high: 3, low: 4, close: 5, volume: 6 }
+    : { datetime: 0, open: 1, high: 2, low: 3, close: 4, volume: 5 }
+  return { ...defaults, ...overrides } as ColumnMap
+}
+
+interface ParsedStamp {
+  wall?: WallTime
+  epochMs?: number   // set when the value carried its own offset / was an epoch
+}
+
+function parseStamp(raw: string): ParsedStamp | null {
+  const value = raw.trim().replace(/^"|"$/g, '')
+  if (!value) return null
+
+  // Epoch seconds or milliseconds
+  if (/^\d{9,13}$/.test(value)) {
+    const n = Number(value)
+    return { epochMs: value.length > 10 ? n : n * 1000 }
+  }
+
+  // Dukascopy: "01.01.2024 00:00:00.000" with optional " GMT+0200"
+  let m = value.match(/^(\d{2})\.(\d{2})\.(\d{4})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(?:\s*GMT([+-]\d{2}):?(\d{2}))?$/)
+  if (m) {
+    const wall = { year: +m[3], month: +m[2], day: +m[1], hour: +m[4], minute: +m[5], second: +(m[6] ?? 0) }
+    if (m[7] !== undefined) {
+      const sign = m[7].startsWith('-') ? -1 : 1
+      const offset = sign * (Math.abs(+m[7]) * 60 + +m[8])
+      return { epochMs: Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second) - offset * 60_000 }
+    }
+    return { wall }
+  }
+
+  // MT5 / ISO-ish: "2024.01.02 01:00:00", "2024-01-02T01:00", "2024/01/02", optional Z/offset
+  m = value.match(/^(\d{4})[.\-/](\d{2})[.\-/](\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i)
+  if (m) {
+    const wall = { year: +m[1], month: +m[2], day: +m[3], hour: +(m[4] ?? 0), minute: +(m[5] ?? 0), second: +(m[6] ?? 0) }
+    if (m[7]) {
+      const tz = m[7].toUpperCase()
+      const offset = tz === 'Z' ? 0 : (tz.startsWith('-') ? -1 : 1) * (Math.abs(+tz.slice(0, 3)) * 60 + +tz.slice(-2))
+      return { epochMs: Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second) - offset * 60_000 }
+    }
+    return { wall }
+  }
+
+  return null
+}
+
+function toEpochSeconds(stamp: ParsedStamp, options: CsvImportOptions): number {
+  if (stamp.epochMs !== undefined) return Math.floor(stamp.epochMs / 1000)
+  const wall = stamp.wall!
+  if (options.timeZone) return Math.floor(zonedTimeToUtc(wall, options.timeZone) / 1000)
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second ?? 0)
+  return Math.floor(asUtc / 1000) - (options.utcOffsetMinutes ?? 0) * 60
+}
+
+// Semicolon and tab exports from European locales write prices as "2650,25"
+function parseNumber(cell: string | undefined, decimalComma: boolean): number {
+  const value = cell?.trim().replace(/^"|"$/g, '') ?? ''
+  return Number(decimalComma ? value.replace(',', '.') : value)
+}
+
+function detectResolution(candles: Candle[]): number {
+  let min = Infinity
+  for (let i = 1; i < candles.length; i++) {
+    const diff = candles[i].time - candles[i - 1].time
+    if (diff > 0 && diff < min) min = diff
+  }
+  return Number.isFinite(min) ? min : 0
+}
+
+/**
+ * Parse a broker CSV export into UTC candles.
+ * Rows with unparseable timestamps or inconsistent OHLC are skipped and counted.
+ */
+export function parseBrokerCsv(text: string, options: CsvImportOptions = {}): CsvParseResult {
+  if (options.timeZone && !isValidTimeZone(options.timeZone)) {
+    throw new Error(`CSV import error: unknown time zone "${options.timeZone}"`)
+  }
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim())
+  if (lines.length === 0) throw new Error('CSV import error: file is empty')
+
+  const delimiter = detectDelimiter(lines[0])
+  const firstCells = lines[0].split(delimiter)
+  const header = isHeaderRow(firstCells) ? firstCells.map(cleanHeader) : null
+  const dataLines = header ? lines.slice(1) : lines
+  const format = options.format && options.format !== 'auto'
+    ? options.format
+    : detectFormat(header, dataLines[0]?.split(delimiter) ?? [])
+  const cols = mapColumns(header, format, options.columns)
+  const decimalComma = delimiter !== ','
+
+  const byTime = new Map<number, Candle>()
+  let skipped = 0
+
+  for (const line of dataLines) {
+    const cells = line.split(delimiter)
+    const stampRaw = cols.datetime !== undefined
+      ? cells[cols.datetime]
+      : `${cells[cols.date ?? 0] ?? ''} ${cols.time !== undefined ? cells[cols.time] ?? '' : ''}`
+    const stamp = parseStamp(stampRaw ?? '')
+
+    const open = parseNumber(cells[cols.open], decimalComma)
+    const high = parseNumber(cells[cols.high], decimalComma)
+    const low = parseNumber(cells[cols.low], decimalComma)
+    const close = parseNumber(cells[cols.close], decimalComma)
+    const volume = cols.volume !== undefined ? parseNumber(cells[cols.volume], decimalComma) : 0
+
+    const valid = stamp && [open, high, low, close].every(Number.isFinite) &&
+      high >= Math.max(open, close, low) && low <= Math.min(open, close) && low > 0
+    if (!valid) {
+      skipped++
+      continue
+    }
+
+    const time = toEpochSeconds(stamp, options)
+    byTime.set(time, { time, open, high, low, close, volume: Number.isFinite(volume) ? volume : 0 })
+  }
+
+  const candles = Array.from(byTime.values()).sort((a, b) => a.time - b.time)
+  return { format, candles, sourceSeconds: detectResolution(candles), skipped }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Import: resample to every allowed interval and write to the candle store
+// ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Daily bars by gold trading day (18:00 → 17:00 New York, see tradingDay), not
+ * UTC midnight — a UTC day would split the Asian session across two bars.
+ * Each bar is stamped 00:00 UTC of its trading date.
+ */
+export function resampleToTradingDays(candles: Candle[]): Candle[] {
+  const out: Candle[] = []
+  let lastDay = ''
+  for (const c of candles) {
+    const day = tradingDay(c.time * 1000)
+    const last = out[out.length - 1]
+    if (last && day === lastDay) {
+      last.high = Math.max(last.high, c.high)
+      last.low = Math.min(last.low, c.low)
+      last.close = c.close
+      last.volume += c.volume
+    } else {
+      out.push({ ...c, time: Date.parse(`${day}T00:00:00Z`) / 1000 })
+      lastDay = day
+    }
+  }
+  return out
+}
+
+export function resampleToAllowedIntervals(candles: Candle[], sourceSeconds: number): Record<string, Candle[]> {
+  const result: Record<string, Candle[]> = {}
+  for (const interval of ALLOWED_INTERVALS) {
+    const seconds = intervalSeconds(interval)
+    // Only build intervals the source can be aggregated into exactly
+    if (sourceSeconds <= 0 || seconds < sourceSeconds || seconds % sourceSeconds !== 0) continue
+    result[interval] = seconds === sourceSeconds
+      ? candles
+      : interval === '1day' ? resampleToTradingDays(candles) : resampleCandles(candles, seconds)
+  }
+  return result
+}
+
+// Parquet files start (and end) with the magic bytes "PAR1"
+export function isParquet(text: string): boolean {
+  return text.startsWith('PAR1')
+}
+
+export function importHistoricalCsv(symbol: string, text: string, options: CsvImportOptions = {}): HistoryImportResult {
+  const canonical = normalizeSymbol(symbol)
+  if (isParquet(text)) throw new Error('Parquet is not supported — export the history as CSV')
+  const parsed = parseBrokerCsv(text, options)
+  if (parsed.candles.length === 0) {
+    throw new Error(`CSV import error: no valid rows (${parsed.skipped} skipped)`)
+  }
+
+  const written: Record<string, number> = {}
+  const series = resampleToAllowedIntervals(parsed.candles, parsed.sourceSeconds)
+  for (const [interval, candles] of Object.entries(series)) {
+    if (!upsertCandles(canonical, interval, candles)) {
+      throw new Error(`CSV import error: failed to write ${canonical} @ ${interval} to the candle store`)
+    }
+    written[interval] = candles.length
+  }
+
+  return {
+    symbol: canonical,
+    format: parsed.format,
+    rows: parsed.candles.length,
+    skipped: parsed.skipped,
+    sourceSeconds: parsed.sourceSeconds,
+    from: parsed.candles[0]?.time ?? null,
+    to: parsed.candles[parsed.candles.length - 1]?.time ?? null,
+    written
+  }
+}
@@ -0,0 +1,186 @@
+// lib/hybridsignal.ts — Hybrid ICT + Price Action signal
+import type { GoldSignal } from './analysis'
+import type { PriceActionSignal } from './priceaction'
+import { DEFAULT_SIGNAL_BLEND, type SignalBlend } from './strategyprofiles'
+
+export interface HybridSignal extends GoldSignal {
+  priceActionPatterns: string[]
+  entryType: PriceActionSignal['entryType'] // BREAKOUT when the entry is a PA chart-pattern breakout order
+}
+
+// A breakout order fills at one level; its zone only allows for slippage through it
+const BREAKOUT_ZONE_ATR = 0.1
+// The third price-action target extends the second (the measured move on a breakout) to 1.618×
+const PA_TP3_EXTENSION = 1.618
+
+type LevelSet = Pick<GoldSignal,
+  'entry' | 'entryZone' | 'entryCandidates' | 'stopLoss' | 'tp1' | 'tp2' | 'tp3' | 'rr1' | 'rr2' | 'rr3' | 'pips' | 'invalidation'>
+
+// R:R, pips and invalidation follow from the levels, so a mixed signal never carries another engine's
+function levelSet(
+  action: 'BUY' | 'SELL',
+  entry: number,
+  stopLoss: number,
+  targets: [number, number, number],
+  entryZone: [number, number],
+  entryCandidates: GoldSignal['entryCandidates']
+): LevelSet {
+  const [tp1, tp2, tp3] = targets
+  const risk = Math.abs(entry - stopLoss)
+  const rr = (tp: number) => risk > 0 ? Math.abs(tp - entry) / risk : 0
+  return {
+    entry,
+    entryZone,
+    entryCandidates,
+    stopLoss,
+    tp1,
+    tp2,
+    tp3,
+    rr1: rr(tp1),
+    rr2: rr(tp2),
+    rr3: rr(tp3),
+    pips: {
+      sl: risk * 10,
+      tp1: Math.abs(tp1 - entry) * 10,
+      tp2: Math.abs(tp2 - entry) * 10,
+      tp3: Math.abs(tp3 - entry) * 10
+    },
+    invalidation: action === 'BUY' ? `Price below $${stopLoss.toFixed(2)}` : `Price above $${stopLoss.toFixed(2)}`
+  }
+}
+
+// Every level from the price action geometry: on a breakout, TP2 is the measured move and the
+// ICT entry zone and FVG limit entries don't apply to an order resting at the breakout level
+function paLevelSet(paSignal: PriceActionSignal, ictSignal: GoldSignal, atr: number): LevelSet {
+  const action = paSignal.action === 'SELL' ? 'SELL' : 'BUY'
+  const { entry, takeProfit2 } = paSignal
+  const tp3 = entry + (takeProfit2 - entry) * PA_TP3_EXTENSION
+  const breakout = paSignal.entryType === 'BREAKOUT'
+  const zone = atr * BREAKOUT_ZONE_ATR
+  return levelSet(
+    action,
+    entry,
+    paSignal.stopLoss,
+    [paSignal.takeProfit1, takeProfit2, tp3],
+    breakout ? [entry - zone, entry + zone] : ictSignal.entryZone,
+    breakout ? [] : ictSignal.entryCandidates
+  )
+}
+
+/**
+ * Combine ICT and Price Action signals with the strategy profile's blend.
+ * Shared by /api/analyze and the backtester so both score bars identically.
+ */
+export function combineSignals(ictSignal: GoldSignal, paSignal: PriceActionSignal, atr: number, blend: SignalBlend = DEFAULT_SIGNAL_BLEND): HybridSignal {
+  // Single-engine profiles: the other engine is reported but never votes
+  if (blend.sources === 'ICT') {
+    return {
+      ...ictSignal,
+      confidence: ictSignal.confidence * blend.ictAloneFactor,
+      confluences: [...ictSignal.confluences],
+      priceActionPatterns: paSignal.patterns.map(p => p.name),
+      entryType: 'MARKET'
+    }
+  }
+  if (blend.sources === 'PA' && paSignal.action === 'WAIT') {
+    return {
+      ...ictSignal,
+      action: 'WAIT',
+      confidence: paSignal.confidence,
+      confluences: [...paSignal.confluences, 'PA-only profile: no price action setup'],
+      priceActionPatterns: paSignal.patterns.map(p => p.name),
+      entryType: 'MARKET'
+    }
+  }
+
+  const ictAction = blend.sources === 'PA' ? 'WAIT' : ictSignal.action
+  const paAction = paSignal.action
+  
+  // If both agree, boost confidence significantly
+  if (ictAction === paAction && ictAction !== 'WAIT') {
+    const combinedConfidence = Math.min(95, (ictSignal.confidence * blend.ictWeight + paSignal.confidence * blend.paWeight))
+    // A breakout order can't be averaged with a market entry — the trade waits for the breakout
+    const breakout = paSignal.entryType === 'BREAKOUT'
+    const levels = breakout
+      ? paLevelSet(paSignal, ictSignal, atr)
+      : levelSet(
+        ictAction,
+        (ictSignal.entry + paSignal.entry) / 2,
+        (ictSignal.stopLoss + paSignal.stopLoss) / 2,
+        [(ictSignal.tp1 + paSignal.takeProfit1) / 2, ictSignal.tp2, ictSignal.tp3],
+        ictSignal.entryZone,
+        ictSignal.entryCandidates
+      )
+    
+    return {
+      ...ictSignal,
+      ...levels,
+      action: ictAction,
+      confidence: combinedConfidence,
+      confluences: [
+        ...ictSignal.confluences,
+        `✓ PA Confirmation: ${paSignal.patterns.map(p => p.name).join(', ')}`,
+        ...(breakout && paSignal.chartPattern ? [`✓ Entry on ${paSignal.chartPattern.name} breakout at ${paSignal.entry.toFixed(2)}`] : []),
+        `✓ Combined ICT + PA Confidence: ${combinedConfidence.toFixed(0)}%`
+      ],
+      priceActionPatterns: paSignal.patterns.map(p => p.name),
+      entryType: paSignal.entryType
+    }
+  }
+  
+  // If they conflict, reduce confidence and default to WAIT or stronger signal
+  if (ictAction !== paAction && ictAction !== 'WAIT' && paAction !== 'WAIT') {
+    return {
+      ...ictSignal,
+      action: 'WAIT',
+      confidence: Math.min(ictSignal.confidence, paSignal.confidence) * blend.conflictFactor,
+      confluences: [
+        ...ictSignal.confluences,
+        `⚠ Signal Conflict: ICT ${ictAction} vs PA ${paAction} — waiting for clarity`
+      ],
+      priceActionPatterns: paSignal.patterns.map(p => p.name),
+      entryType: 'MARKET'
+    }
+  }
+  
+  // If one is WAIT, use the stronger signal but reduce confidence slightly
+  if (ictAction === 'WAIT' && paAction !== 'WAIT') {
+    return {
+      ...ictSignal,
+      ...paLevelSet(paSignal, ictSignal, atr),
+      action: paSignal.action,
+      confidence: paSignal.confidence * blend.paAloneFactor,
+      confluences: [
+        `PA Signal: ${paSignal.action} (${paSignal.confidence.toFixed(0)}%)`,
+        ...paSignal.confluences,
+        blend.sources === 'PA' ? 'PA-only profile: ICT not consulted' : 'ICT showing consolidation/neutral'
+      ],
+      priceActionPatterns: paSignal.patterns.map(p => p.name),
+      entryType: paSignal.entryType
+    }
+  }
+  
+  if (paAction === 'WAIT' && ictAction !== 'WAIT') {
+    return {
+      ...ictSignal,
+      confidence: ictSignal.confidence * blend.ictAloneFactor,
+      confluences: [
+        ...ictSignal.confluences,
+        `PA showing consolidation — ICT signal ${ictAction} at ${ictSignal.confidence.toFixed(0)}%`
+      ],
+      priceActionPatterns: paSignal.patterns.map(p => p.name),
+      entryType: 'MARKET'
+    }
+  }
+  
+  // Both WAIT
+  return {
+    ...ictSignal,
+    confluences: [
+      ...ictSignal.confluences,
+      'PA + ICT agree: sideways/consolidation'
+    ],
+    priceActionPatterns: paSignal.patterns.map(p => p.name),
+    entryType: 'MARKET'
+  }
+}
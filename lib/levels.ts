@@ -0,0 +1,176 @@
+// lib/levels.ts — Key reference levels: NY midnight open, D/W/M opens, prior D/W/M high/low/close, pivot points
+import type { Candle } from './twelvedata'
+import { readCandles } from './candlestore'
+import { newYorkDay, tradingDay, tradingWeek } from './sessions'
+
+export interface PeriodOHLC {
+  open: number
+  high: number
+  low: number
+  close: number
+  start: number                // epoch seconds of the first bar
+  end: number                  // epoch seconds of the last bar
+}
+
+export interface ClassicPivots { p: number; r1: number; r2: number; r3: number; s1: number; s2: number; s3: number }
+export interface CamarillaPivots { r1: number; r2: number; r3: number; r4: number; s1: number; s2: number; s3: number; s4: number }
+
+export interface KeyLevel {
+  id: string                   // e.g. PDH, WO, CAM_R3
+  label: string
+  kind: 'OPEN' | 'PREVIOUS' | 'PIVOT' | 'CAMARILLA'
+  price: number
+}
+
+export interface KeyLevels {
+  asOf: number                 // epoch seconds of the last bar used
+  midnightOpen: number | null  // first bar at/after 00:00 New York
+  dailyOpen: number | null     // CME trading day (opens 18:00 New York the evening before)
+  weeklyOpen: number | null
+  monthlyOpen: number | null
+  previousDay: PeriodOHLC | null
+  previousWeek: PeriodOHLC | null
+  previousMonth: PeriodOHLC | null
+  classic: ClassicPivots | null      // from the previous trading day
+  camarilla: CamarillaPivots | null  // from the previous trading day
+  levels: KeyLevel[]                 // everything above, flattened for plotting
+}
+
+export type PeriodKey = (epochMs: number) => string
+
+// Bars whose open is in the same trading month
+export const tradingMonth: PeriodKey = epochMs => tradingDay(epochMs).slice(0, 7)
+
+// Hourly history covers two full months plus the current one
+const LEVEL_LOOKBACK_DAYS = 70
+const LEVEL_SOURCE_INTERVAL = '1h'
+
+function keyOfBar(keyOf: PeriodKey, candle: Candle): string {
+  return keyOf(candle.time * 1000)
+}
+
+function toOHLC(bars: Candle[]): PeriodOHLC {
+  return {
+    open: bars[0].open,
+    high: Math.max(...bars.map(c => c.high)),
+    low: Math.min(...bars.map(c => c.low)),
+    close: bars[bars.length - 1].close,
+    start: bars[0].time,
+    end: bars[bars.length - 1].time
+  }
+}
+
+/**
+ * OHLC of the period before the one the last bar is in. Returns null when the
+ * window starts inside that period — a partial period would give a wrong extreme.
+ */
+export function previousPeriod(candles: Candle[], keyOf: PeriodKey): PeriodOHLC | null {
+  if (candles.length === 0) return null
+  const current = keyOfBar(keyOf, candles[candles.length - 1])
+  let end = candles.length - 1
+  while (end >= 0 && keyOfBar(keyOf, candles[end]) === current) end--
+  if (end < 0) return null
+
+  const prior = keyOfBar(keyOf, candles[end])
+  let start = end
+  while (start > 0 && keyOfBar(keyOf, candles[start - 1]) === prior) start--
+  if (start === 0) return null
+
+  return toOHLC(candles.slice(start, end + 1))
+}
+
+// Open of the current period, when the window reaches back to its first bar
+function currentOpen(candles: Candle[], keyOf: PeriodKey): number | null {
+  const current = keyOfBar(keyOf, candles[candles.length - 1])
+  let start = candles.length - 1
+  while (start > 0 && keyOfBar(keyOf, candles[start - 1]) === current) start--
+  return start > 0 ? candles[start].open : null
+}
+
+export function classicPivots({ high, low, close }: PeriodOHLC): ClassicPivots {
+  const p = (high + low + close) / 3
+  return {
+    p,
+    r1: 2 * p - low,
+    s1: 2 * p - high,
+    r2: p + (high - low),
+    s2: p - (high - low),
+    r3: high + 2 * (p - low),
+    s3: low - 2 * (high - p)
+  }
+}
+
+export function camarillaPivots({ high, low, close }: PeriodOHLC): CamarillaPivots {
+  const range = (high - low) * 1.1
+  return {
+    r1: close + range / 12, s1: close - range / 12,
+    r2: close + range / 6, s2: close - range / 6,
+    r3: close + range / 4, s3: close - range / 4,
+    r4: close + range / 2, s4: close - range / 2
+  }
+}
+
+/** Every reference level the bars allow; levels the window does not reach are null. */
+export function computeKeyLevels(candles: Candle[]): KeyLevels {
+  const empty: KeyLevels = {
+    asOf: 0, midnightOpen: null, dailyOpen: null, weeklyOpen: null, monthlyOpen: null,
+    previousDay: null, previousWeek: null, previousMonth: null, classic: null, camarilla: null, levels: []
+  }
+  if (candles.length === 0) return empty
+
+  const previousDay = previousPeriod(candles, tradingDay)
+  const previousWeek = previousPeriod(candles, tradingWeek)
+  const previousMonth = previousPeriod(candles, tradingMonth)
+  const result: KeyLevels = {
+    asOf: candles[candles.length - 1].time,
+    midnightOpen: currentOpen(candles, newYorkDay),
+    dailyOpen: currentOpen(candles, tradingDay),
+    weeklyOpen: currentOpen(candles, tradingWeek),
+    monthlyOpen: currentOpen(candles, tradingMonth),
+    previousDay,
+    previousWeek,
+    previousMonth,
+    classic: previousDay ? classicPivots(previousDay) : null,
+    camarilla: previousDay ? camarillaPivots(previousDay) : null,
+    levels: []
+  }
+
+  const add = (id: string, label: string, kind: KeyLevel['kind'], price: number | null | undefined) => {
+    if (price != null && Number.isFinite(price)) result.levels.push({ id, label, kind, price })
+  }
+  add('MNO', 'NY Midnight Open', 'OPEN', result.midnightOpen)
+  add('DO', 'Daily Open', 'OPEN', result.dailyOpen)
+  add('WO', 'Weekly Open', 'OPEN', result.weeklyOpen)
+  add('MO', 'Monthly Open', 'OPEN', result.monthlyOpen)
+  for (const [prefix, name, period] of [['PD', 'Prev Day', previousDay], ['PW', 'Prev Week', previousWeek], ['PM', 'Prev Month', previousMonth]] as const) {
+    add(`${prefix}H`, `${name} High`, 'PREVIOUS', period?.high)
+    add(`${prefix}L`, `${name} Low`, 'PREVIOUS', period?.low)
+    add(`${prefix}C`, `${name} Close`, 'PREVIOUS', period?.close)
+  }
+  if (result.classic) {
+    const { p, r1, r2, r3, s1, s2, s3 } = result.classic
+    Object.entries({ P: p, R1: r1, R2: r2, R3: r3, S1: s1, S2: s2, S3: s3 }).forEach(([k, v]) => add(`PIV_${k}`, `Pivot ${k}`, 'PIVOT', v))
+  }
+  if (result.camarilla) {
+    Object.entries(result.camarilla).forEach(([k, v]) => add(`CAM_${k.toUpperCase()}`, `Camarilla ${k.toUpperCase()}`, 'CAMARILLA', v))
+  }
+
+  return result
+}
+
+/**
+ * Hourly bars from the candle store, topped up with the analysis window so the
+ * forming bar counts. Falls back to the analysis window alone when no hourly
+ * history is stored (synthetic data, or a fresh install).
+ */
+export function loadLevelCandles(symbol: string, recent: Candle[]): Candle[] {
+  if (recent.length === 0) return recent
+  const last = recent[recent.length - 1].time
+  const stored = readCandles(symbol, LEVEL_SOURCE_INTERVAL, { from: last - LEVEL_LOOKBACK_DAYS * 86_400 })
+  if (stored.length === 0 || last - stored[stored.length - 1].time > 2 * 3600) return recent
+
+  // Only bars no coarser than an hour extend the stored series without distorting opens
+  const tail = recent.filter(c => c.time > stored[stored.length - 1].time)
+  const spacing = recent.length > 1 ? recent[recent.length - 1].time - recent[recent.length - 2].time : Infinity
+  return spacing <= 3600 ? [...stored, ...tail] : stored
+}
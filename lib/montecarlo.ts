@@ -0,0 +1,160 @@
+// lib/montecarlo.ts — Monte Carlo robustness analysis of trade sequences
+import type { Trade } from './performance'
+import { createRng } from './synthetic'
+
+export type MonteCarloMethod = 'bootstrap' | 'shuffle'
+
+export interface MonteCarloOptions {
+  iterations?: number          // default 5,000
+  method?: MonteCarloMethod    // bootstrap = resample with replacement, shuffle = reorder the same trades
+  initialBalance?: number      // default 10,000
+  // Replay each trade as an R-multiple at this fraction of equity (compounding).
+  // Omit to replay the recorded dollar P&L unchanged.
+  riskPercent?: number
+  contractSize?: number        // oz per lot, used to recover each trade's dollar risk (default 100)
+  ruinThreshold?: number       // equity drawdown from the start that counts as ruin (default 0.5 = -50%)
+  tradesPerRun?: number        // path length (default: number of trades)
+  seed?: number | string       // same seed → same report
+}
+
+export interface Percentiles {
+  p5: number
+  p25: number
+  p50: number
+  p75: number
+  p95: number
+}
+
+export interface MonteCarloReport {
+  iterations: number
+  method: MonteCarloMethod
+  tradesPerRun: number
+  initialBalance: number
+  riskPercent: number | null
+  maxDrawdown: Percentiles         // dollars, peak to trough
+  maxDrawdownPct: Percentiles      // percent of the running peak
+  finalEquity: Percentiles
+  finalEquityHistogram: { from: number; to: number; count: number }[]
+  expectedFinalEquity: number
+  probabilityOfLoss: number        // 0-1, final equity below the start
+  riskOfRuin: number               // 0-1, equity touched the ruin threshold
+}
+
+const HISTOGRAM_BUCKETS = 20
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const idx = (sorted.length - 1) * p
+  const lo = Math.floor(idx)
+  const hi = Math.ceil(idx)
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo)
+}
+
+function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b)
+  const round = (v: number) => Math.round(v * 100) / 100
+  return {
+    p5: round(percentile(sorted, 0.05)),
+    p25: round(percentile(sorted, 0.25)),
+    p50: round(percentile(sorted, 0.5)),
+    p75: round(percentile(sorted, 0.75)),
+    p95: round(percentile(sorted, 0.95))
+  }
+}
+
+function histogram(values: number[]): MonteCarloReport['finalEquityHistogram'] {
+  if (values.length === 0) return []
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const width = (max - min) / HISTOGRAM_BUCKETS || 1
+  const buckets = Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => ({
+    from: Math.round((min + i * width) * 100) / 100,
+    to: Math.round((min + (i + 1) * width) * 100) / 100,
+    count: 0
+  }))
+  for (const v of values) {
+    buckets[Math.min(HISTOGRAM_BUCKETS - 1, Math.floor((v - min) / width))].count++
+  }
+  return buckets
+}
+
+// Trade outcome in units of initial risk; falls back to pnlPercent when the stop is unknown
+function rMultiple(trade: Trade, contractSize: number): number {
+  const risk = Math.abs(trade.entry - trade.stopLoss) * contractSize * trade.lotSize
+  if (risk > 0) return trade.pnl / risk
+  return trade.pnlPercent / 100
+}
+
+/**
+ * Resample or reshuffle closed trades into many equity paths and summarise the spread of
+ * outcomes. A single backtest shows one ordering; this shows how bad the same edge can look.
+ */
+export function runMonteCarlo(trades: Trade[], options: MonteCarloOptions = {}): MonteCarloReport {
+  const iterations = Math.max(1, Math.floor(options.iterations ?? 5_000))
+  const method = options.method ?? 'bootstrap'
+  const initialBalance = options.initialBalance ?? 10_000
+  const riskPercent = options.riskPercent ?? null
+  const contractSize = options.contractSize ?? 100
+  const ruinLevel = initialBalance * (1 - (options.ruinThreshold ?? 0.5))
+  const rng = createRng(options.seed ?? 'montecarlo')
+
+  const closed = trades.filter(t => t.status === 'CLOSED' || t.status === 'SL_HIT')
+  const outcomes = closed.map(t => riskPercent !== null ? rMultiple(t, contractSize) : t.pnl)
+  const tradesPerRun = method === 'shuffle' || outcomes.length === 0
+    ? outcomes.length
+    : Math.max(0, Math.floor(options.tradesPerRun ?? outcomes.length))
+
+  const finals: number[] = []
+  const drawdowns: number[] = []
+  const drawdownPcts: number[] = []
+  let ruined = 0
+  let losses = 0
+  const order = outcomes.slice()
+
+  for (let run = 0; run < iterations; run++) {
+    if (method === 'shuffle') {
+      // Fisher–Yates
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1))
+        ;[order[i], order[j]] = [order[j], order[i]]
+      }
+    }
+
+    let equity = initialBalance
+    let peak = initialBalance
+    let maxDd = 0
+    let maxDdPct = 0
+    let hitRuin = false
+
+    for (let k = 0; k < tradesPerRun; k++) {
+      const outcome = method === 'shuffle' ? order[k] : outcomes[Math.floor(rng() * outcomes.length)]
+      equity = riskPercent !== null ? equity + equity * riskPercent * outcome : equity + outcome
+      if (equity > peak) peak = equity
+      const dd = peak - equity
+      if (dd > maxDd) maxDd = dd
+      if (peak > 0 && dd / peak > maxDdPct) maxDdPct = dd / peak
+      if (equity <= ruinLevel) hitRuin = true
+    }
+
+    finals.push(equity)
+    drawdowns.push(maxDd)
+    drawdownPcts.push(maxDdPct * 100)
+    if (hitRuin) ruined++
+    if (equity < initialBalance) losses++
+  }
+
+  return {
+    iterations,
+    method,
+    tradesPerRun,
+    initialBalance,
+    riskPercent,
+    maxDrawdown: percentiles(drawdowns),
+    maxDrawdownPct: percentiles(drawdownPcts),
+    finalEquity: percentiles(finals),
+    finalEquityHistogram: histogram(finals),
+    expectedFinalEquity: Math.round(finals.reduce((a, b) => a + b, 0) / finals.length * 100) / 100,
+    probabilityOfLoss: losses / iterations,
+    riskOfRuin: ruined / iterations
+  }
+}
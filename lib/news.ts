@@ -1,4 +1,6 @@
 // lib/news.ts — Enhanced Economic News and Fundamental Analysis
+import type { MeasuredCorrelation } from './smt'
+
 const JBLANKED_API_KEY = () => process.env.JBLANKED_API_KEY!
 // Trading Economics API base
 const TE_BASE = 'https://api.tradingeconomics.com'
@@ -40,6 +42,8 @@ export interface MacroCorrelation {
   asset: string
   correlation: number // -1 to 1
   description: string
+  source: 'MEASURED' | 'TYPICAL' // computed from fetched candles, or the long-run textbook value
+  samples?: number // returns the measured value is based on
 }
 
 export interface EventImpact {
@@ -292,37 +296,59 @@ export function computeNewsBias(events: NewsEvent[]): NewsBias {
 
 // ==================== MACRO CORRELATIONS ====================
 
-export function getMacroCorrelations(price: number): MacroCorrelation[] {
-  // Simplified macro correlations for gold
-  // In production, these would be calculated from actual data
+// Long-run relationships, shown when no candles for the asset could be fetched
+const TYPICAL_CORRELATIONS: Omit<MacroCorrelation, 'source'>[] = [
+  {
+    asset: 'US Dollar Index (DXY)',
+    correlation: -0.75, // Gold inversely correlated with USD
+    description: 'Strong inverse relationship — USD strength typically pressures gold'
+  },
+  {
+    asset: 'US 10-Year Yields',
+    correlation: -0.65,
+    description: 'Higher yields increase opportunity cost of holding gold'
+  },
+  {
+    asset: 'S&P 500',
+    correlation: 0.15,
+    description: 'Weak positive correlation — mixed safe-haven dynamics'
+  },
+  {
+    asset: 'Silver (XAG/USD)',
+    correlation: 0.85,
+    description: 'Strong positive correlation — often move together'
+  },
+  {
+    asset: 'USD/JPY',
+    correlation: -0.45,
+    description: 'Negative correlation via USD component'
+  }
+]
+
+function describeMeasured(correlation: number, typical: number): string {
+  const strength = Math.abs(correlation) >= 0.7 ? 'Strong' : Math.abs(correlation) >= 0.4 ? 'Moderate' : 'Weak'
+  const sign = correlation >= 0 ? 'positive' : 'inverse'
+  // A relationship running far from its norm is itself a warning sign
+  const drift = Math.abs(correlation - typical) >= 0.4 ? ` — well off its usual ${typical.toFixed(2)}, relationship decoupling` : ''
+  return `${strength} ${sign} correlation on recent bars${drift}`
+}
 
-  return [
-    {
-      asset: 'US Dollar Index (DXY)',
-      correlation: -0.75, // Gold inversely correlated with USD
-      description: 'Strong inverse relationship — USD strength typically pressures gold'
-    },
-    {
-      asset: 'US 10-Year Yields',
-      correlation: -0.65,
-      description: 'Higher yields increase opportunity cost of holding gold'
-    },
-    {
-      asset: 'S&P 500',
-      correlation: 0.15,
-      description: 'Weak positive correlation — mixed safe-haven dynamics'
-    },
-    {
-      asset: 'Silver (XAG/USD)',
-      correlation: 0.85,
-      description: 'Strong positive correlation — often move together'
-    },
-    {
-      asset: 'USD/JPY',
-      correlation: -0.45,
-      description: 'Negative correlation via USD component'
+/**
+ * Gold's macro correlations. Assets with measured return correlations (see
+ * measureCorrelations in lib/smt.ts) use them; the rest keep typical values.
+ */
+export function getMacroCorrelations(price: number, measured: MeasuredCorrelation[] = []): MacroCorrelation[] {
+  return TYPICAL_CORRELATIONS.map(typical => {
+    const live = measured.find(m => m.asset === typical.asset)
+    if (!live) return { ...typical, source: 'TYPICAL' as const }
+    return {
+      asset: typical.asset,
+      correlation: live.correlation,
+      description: describeMeasured(live.correlation, typical.correlation),
+      source: 'MEASURED' as const,
+      samples: live.samples
     }
-  ]
+  })
 }
 
 // ==================== EVENT IMPACT SCORING ====================
@@ -85,7 +85,8 @@ Signal: ${signal?.action ?? 'WAIT'} at ${Number(signal?.entry ?? 0).toFixed(2)}
 AMD: ${ctx?.amd?.phase ?? 'N/A'} / ${ctx?.amd?.bias ?? 'N/A'}
 RSI: ${Number(ctx?.rsi ?? 50).toFixed(1)} | ATR: ${Number(ctx?.atr ?? 0).toFixed(2)}
 OrderBlocks: ${ctx?.orderBlocks?.length ?? 0} | FVGs: ${ctx?.fvgs?.length ?? 0} | SR: ${ctx?.srLevels?.length ?? 0}
-News risk: ${ctx?.newsRisk?.level ?? 'N/A'} | Bias: ${ctx?.newsBias?.bias ?? 'N/A'}`
+News risk: ${ctx?.newsRisk?.level ?? 'N/A'} | Bias: ${ctx?.newsBias?.bias ?? 'N/A'}
+MTA: ${ctx?.mta?.map((r: any) => `${r.timeframe} ${r.trend}/${r.signal}`).join(' | ') || 'N/A'}`
 }
 
 function generateFallbackNarrative(ctx: any): string {
@@ -0,0 +1,277 @@
+// lib/outcomes.ts — Resolve journaled signals against the candles that followed them
+import type { Candle } from './twelvedata'
+import { readCandles } from './candlestore'
+import { normalizeSymbol } from './providers'
+import { calculateFixedFractionalSize } from './riskmanagement'
+import type { Trade } from './performance'
+import {
+  DEFAULT_TARGET_ALLOCATION,
+  openPosition,
+  markPositionBar,
+  breakoutTrigger,
+  triggerFill,
+  closeFraction,
+  finalizeTrade,
+  type ExecutionCosts,
+  type ExitReason,
+  type PendingOrder,
+  type BacktestTrade
+} from './backtest'
+import { updateJournal, type JournalSignal } from './signaljournal'
+
+export type OutcomeStatus = 'PENDING' | 'NO_FILL' | 'OPEN' | 'CLOSED'
+
+export interface SignalOutcome {
+  status: OutcomeStatus
+  fillTime: number | null      // epoch seconds
+  fillPrice: number | null
+  targetsHit: number           // 0-3
+  exitReason: ExitReason | null
+  exitTime: number | null
+  exitPrice: number | null
+  mae: number                  // price units against the fill
+  mfe: number
+  pnl: number | null
+  barsReplayed: number
+  resolvedAt: number           // ms
+  trade: BacktestTrade | null  // set once CLOSED
+}
+
+export interface OutcomeOptions {
+  fillWindowBars?: number      // bars after the signal for price to reach the entry zone (default 3)
+  expiryBars?: number          // bars a filled trade may stay open before closing at market (default 48)
+  accountBalance?: number      // notional account for P&L (default 10,000, not compounded)
+  riskPercent?: number         // default 0.01
+  spread?: number              // default 0.30
+  slippage?: number            // default 0.10
+  contractSize?: number        // default 100
+  targetAllocation?: [number, number, number]
+  breakevenAfterTp1?: boolean  // default true
+}
+
+export interface ResolveSummary {
+  checked: number
+  updated: number
+  closed: number
+}
+
+function orderFromJournal(signal: JournalSignal): PendingOrder {
+  const dir = signal.action === 'BUY' ? 1 : -1
+  // Same target sanitising as the backtester: only levels beyond entry, in order
+  const targets: number[] = []
+  for (const tp of [signal.tp1, signal.tp2, signal.tp3]) {
+    const last = targets[targets.length - 1] ?? signal.entry
+    if (Number.isFinite(tp) && (tp - last) * dir > 0) targets.push(tp)
+  }
+  return {
+    direction: signal.action,
+    stopLoss: signal.stopLoss,
+    targets,
+    confidence: signal.confidence,
+    tier: signal.tier,
+    reason: signal.confluences[0] ?? ''
+  }
+}
+
+function emptyOutcome(status: OutcomeStatus, barsReplayed: number): SignalOutcome {
+  return {
+    status,
+    fillTime: null,
+    fillPrice: null,
+    targetsHit: 0,
+    exitReason: null,
+    exitTime: null,
+    exitPrice: null,
+    mae: 0,
+    mfe: 0,
+    pnl: null,
+    barsReplayed,
+    resolvedAt: Date.now(),
+    trade: null
+  }
+}
+
+/**
+ * Replay the bars after a signal. The entry zone works as a limit order for
+ * `fillWindowBars`; once filled, stops and TP1–TP3 are managed exactly like the
+ * backtester (scale-out, breakeven after TP1, stop-first on ambiguous bars).
+ * `candles` may include bars at or before the signal bar — they are ignored.
+ */
+export function resolveSignalOutcome(signal: JournalSignal, candles: Candle[], options: OutcomeOptions = {}): SignalOutcome {
+  const fillWindowBars = options.fillWindowBars ?? 3
+  const expiryBars = options.expiryBars ?? 48
+  const balance = options.accountBalance ?? 10_000
+  const allocation = options.targetAllocation ?? DEFAULT_TARGET_ALLOCATION
+  const breakevenAfterTp1 = options.breakevenAfterTp1 ?? true
+  const costs: ExecutionCosts = {
+    halfSpread: (options.spread ?? 0.3) / 2,
+    slippage: options.slippage ?? 0.1,
+    contractSize: options.contractSize ?? 100
+  }
+
+  const bars = candles.filter(c => c.time > signal.barTime)
+  const order = orderFromJournal(signal)
+  const dir = signal.action === 'BUY' ? 1 : -1
+  const [zoneLow, zoneHigh] = signal.entryZone[0] <= signal.entryZone[1]
+    ? signal.entryZone
+    : [signal.entryZone[1], signal.entryZone[0]]
+
+  if (order.targets.length === 0 || (signal.entry - signal.stopLoss) * dir <= 0) {
+    return emptyOutcome('NO_FILL', 0)
+  }
+
+  // ── Fill: first bar whose ask (buys) / bid (sells) trades into the zone ──
+  // Breakout entries wait for their level instead: a stop beyond the signal price, a limit behind it
+  const trigger = signal.entryType === 'BREAKOUT' ? breakoutTrigger(signal.entry, signal.inputs.price, signal.action) : null
+  let fillIndex = -1
+  let fillPrice = 0
+  let filledAtOpen = false
+  for (let i = 0; i < Math.min(bars.length, fillWindowBars); i++) {
+    const bar = bars[i]
+    if (trigger) {
+      const fill = triggerFill(trigger, signal.action, bar)
+      if (fill === null) continue
+      fillPrice = fill + dir * (costs.halfSpread + (trigger.kind === 'STOP' ? costs.slippage : 0))
+      filledAtOpen = fill === bar.open
+      fillIndex = i
+      break
+    }
+    const low = bar.low + dir * costs.halfSpread
+    const high = bar.high + dir * costs.halfSpread
+    if (low <= zoneHigh && high >= zoneLow) {
+      const open = bar.open + dir * costs.halfSpread
+      // Limit order: a gap through the zone fills at the better open price
+      fillPrice = dir === 1 ? Math.min(open, zoneHigh) : Math.max(open, zoneLow)
+      fillIndex = i
+      break
+    }
+  }
+
+  if (fillIndex < 0) {
+    return emptyOutcome(bars.length >= fillWindowBars ? 'NO_FILL' : 'PENDING', Math.min(bars.length, fillWindowBars))
+  }
+
+  const lotSize = calculateFixedFractionalSize(balance, options.riskPercent ?? 0.01, fillPrice, signal.stopLoss, costs.contractSize).lotSize
+  const pos = openPosition(order, fillPrice, bars[fillIndex].time, fillIndex, Math.max(lotSize, 0.01), balance)
+
+  // An intrabar fill can't see what the fill bar did before it; only open fills mark their own bar
+  if (!trigger) filledAtOpen = fillPrice === bars[fillIndex].open + dir * costs.halfSpread
+  let exitReason: ExitReason | null = null
+  let exitTime = 0
+  let last = fillIndex
+
+  for (let i = filledAtOpen ? fillIndex : fillIndex + 1; i < bars.length; i++) {
+    last = i
+    exitReason = markPositionBar(pos, bars[i], costs, allocation, breakevenAfterTp1)
+    exitTime = bars[i].time
+    if (exitReason) break
+    if (i - fillIndex + 1 >= expiryBars) {
+      closeFraction(pos, bars[i].close - dir * (costs.halfSpread + costs.slippage), pos.remaining, costs)
+      exitReason = 'EXPIRED'
+      break
+    }
+  }
+
+  const outcome: SignalOutcome = {
+    status: exitReason ? 'CLOSED' : 'OPEN',
+    fillTime: pos.entryTime,
+    fillPrice,
+    targetsHit: pos.targetsHit,
+    exitReason,
+    exitTime: exitReason ? exitTime : null,
+    exitPrice: null,
+    mae: pos.mae,
+    mfe: pos.mfe,
+    pnl: exitReason ? Math.round(pos.realizedPnl * 100) / 100 : null,
+    barsReplayed: last + 1,
+    resolvedAt: Date.now(),
+    trade: null
+  }
+
+  if (exitReason) {
+    const trade = finalizeTrade(pos, exitTime, exitReason, signal.symbol)
+    outcome.exitPrice = trade.exit
+    outcome.trade = { ...trade, id: signal.id }
+  }
+  return outcome
+}
+
+/**
+ * Resolve every journaled signal that is still PENDING or OPEN from the local
+ * candle store, optionally limited to one symbol/interval, and save the journal.
+ */
+export async function resolveJournalOutcomes(filter: { symbol?: string; interval?: string } = {}, options: OutcomeOptions = {}): Promise<ResolveSummary> {
+  const symbol = filter.symbol ? normalizeSymbol(filter.symbol) : undefined
+  const { result: summary, saved } = await updateJournal<ResolveSummary>(entries => {
+    const summary = resolveEntries(entries, symbol, filter.interval, options)
+    return { result: summary, write: summary.updated > 0 ? 'NOW' : 'NONE' }
+  })
+  if (!saved) console.warn('[outcomes] failed to save resolved outcomes')
+  return summary
+}
+
+function resolveEntries(entries: JournalSignal[], symbol: string | undefined, interval: string | undefined, options: OutcomeOptions): ResolveSummary {
+  const summary: ResolveSummary = { checked: 0, updated: 0, closed: 0 }
+  const seriesCache = new Map<string, Candle[]>()
+
+  for (const entry of entries) {
+    if (entry.outcome && (entry.outcome.status === 'CLOSED' || entry.outcome.status === 'NO_FILL')) continue
+    if (symbol && normalizeSymbol(entry.symbol) !== symbol) continue
+    if (interval && entry.interval !== interval) continue
+    summary.checked++
+
+    const key = `${normalizeSymbol(entry.symbol)}:${entry.interval}`
+    let series = seriesCache.get(key)
+    if (!series) {
+      series = readCandles(normalizeSymbol(entry.symbol), entry.interval)
+      seriesCache.set(key, series)
+    }
+
+    const outcome = resolveSignalOutcome(entry, series, options)
+    if (
+      !entry.outcome ||
+      entry.outcome.status !== outcome.status ||
+      entry.outcome.barsReplayed !== outcome.barsReplayed
+    ) {
+      entry.outcome = outcome
+      summary.updated++
+      if (outcome.status === 'CLOSED') summary.closed++
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Journal entries as lib/performance.ts trades: closed outcomes carry their P&L,
+ * unfilled signals become CANCELLED (ignored by the metrics but kept for the record).
+ */
+export function journalToTrades(entries: JournalSignal[]): Trade[] {
+  const trades: Trade[] = []
+  for (const entry of entries) {
+    const outcome = entry.outcome
+    if (outcome?.status === 'CLOSED' && outcome.trade) {
+      trades.push(outcome.trade)
+    } else if (outcome?.status === 'NO_FILL') {
+      trades.push({
+        id: entry.id,
+        timestamp: entry.barTime * 1000,
+        symbol: entry.symbol,
+        direction: entry.action,
+        entry: entry.entry,
+        exit: entry.entry,
+        stopLoss: entry.stopLoss,
+        takeProfit: entry.tp1,
+        lotSize: 0,
+        status: 'CANCELLED',
+        pnl: 0,
+        pnlPercent: 0,
+        duration: 0,
+        signalConfidence: entry.confidence,
+        signalTier: entry.tier,
+        reason: 'Entry zone not reached'
+      })
+    }
+  }
+  return trades.sort((a, b) => a.timestamp - b.timestamp)
+}
@@ -0,0 +1,346 @@
+// lib/patternstats.ts — Historical forward outcomes of candlestick and chart patterns, and confidence calibration
+import fs from 'fs'
+import path from 'path'
+import type { Candle } from './twelvedata'
+import { ALLOWED_INTERVALS } from './twelvedata'
+import { readCandles } from './candlestore'
+import { intervalSeconds, normalizeSymbol } from './providers'
+import { detectCandlestickPatterns, detectChartPatterns, type PatternCalibrator } from './priceaction'
+import { breakoutTrigger, triggerFill, type OrderTrigger } from './backtest'
+import { DEFAULT_STRATEGY_PARAMS } from './strategyparams'
+import { DEFAULT_SESSION_CALENDAR, getSessionState, type SessionCalendar, type TradingSession } from './sessions'
+
+// Serverless deployments only allow writes under /tmp — point PATTERN_STATS_PATH there
+const STATS_PATH = () => process.env.PATTERN_STATS_PATH || path.join(process.cwd(), 'data', 'pattern-stats.json')
+
+const ATR_PERIOD = 14              // same 14-bar mean true range as calculateATR
+const CHART_WINDOW = 150           // bars the live analysis passes to detectChartPatterns
+const DEFAULT_HORIZONS = [5, 10, 20]
+const DEFAULT_MAX_BARS = 20_000
+// A scan is synchronous and roughly linear in bars; beyond this it runs for many minutes
+export const MAX_SCAN_BARS = 100_000
+const MIN_SESSION_SAMPLES = 20     // thinner session buckets fall back to all sessions
+const PRIOR_WEIGHT = 30            // samples' worth of trust in the hand-picked constant
+
+export type PatternKind = 'CANDLESTICK' | 'CHART'
+export type StatsSession = TradingSession | 'ALL'
+
+export interface MoveAfter {
+  bars: number
+  meanAtr: number              // mean close-to-close move in the pattern's direction, in ATR
+  positiveRate: number         // 0-1, share of samples in profit after `bars`
+}
+
+export interface PatternStat {
+  pattern: string
+  kind: PatternKind
+  direction: 'bullish' | 'bearish'
+  interval: string
+  session: StatsSession
+  detected: number             // occurrences; chart patterns whose breakout never traded are not samples
+  samples: number
+  hitRate1R: number            // 0-1: +1R reached before the −1R stop within the longest horizon
+  hitRate2R: number
+  moves: MoveAfter[]
+}
+
+export interface PatternStatsOptions {
+  horizons?: number[]          // bars after entry for the move statistics (default 5, 10, 20)
+  riskAtr?: number             // 1R in ATR (default: paStopAtr, the price-action stop)
+  maxBars?: number             // most recent stored bars scanned per interval (default 20,000, at most 100,000)
+  calendar?: SessionCalendar
+}
+
+export interface PatternStatsReport {
+  symbol: string
+  generatedAt: number          // ms
+  horizons: number[]
+  riskAtr: number
+  intervals: { interval: string; bars: number; from: number | null; to: number | null }[]
+  stats: PatternStat[]
+}
+
+interface Outcome {
+  hit1R: boolean
+  hit2R: boolean
+  moves: number[]              // in ATR, one per horizon
+}
+
+interface Sample {
+  pattern: string
+  kind: PatternKind
+  direction: 'bullish' | 'bearish'
+  session: TradingSession
+  outcome: Outcome | null      // null: detected, never filled
+}
+
+// A chart pattern's breakout order, re-priced every bar the pattern is still detected
+interface RestingOrder {
+  sample: Sample
+  trigger: OrderTrigger
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Measurement
+// ─────────────────────────────────────────────────────────────────────────────
+
+function rollingATR(candles: Candle[]): number[] {
+  const atrs = new Array<number>(candles.length).fill(0)
+  let sum = 0
+  const trs: number[] = [0]
+  for (let i = 1; i < candles.length; i++) {
+    const c = candles[i]
+    const tr = Math.max(c.high - c.low, Math.abs(c.high - candles[i - 1].close), Math.abs(c.low - candles[i - 1].close))
+    trs.push(tr)
+    sum += tr
+    if (i > ATR_PERIOD) sum -= trs[i - ATR_PERIOD]
+    if (i >= ATR_PERIOD) atrs[i] = sum / ATR_PERIOD
+  }
+  return atrs
+}
+
+/**
+ * Walk forward from `first` (the entry bar itself when filled at its open). The
+ * stop is checked before the targets on every bar, like the backtester, so a bar
+ * that reaches both counts as a loss.
+ */
+function measureOutcome(candles: Candle[], entryIndex: number, first: number, entry: number, dir: 1 | -1, risk: number, atr: number, horizons: number[]): Outcome {
+  const longest = Math.max(...horizons)
+  const stop = entry - dir * risk
+  let hit1R = false
+  let hit2R = false
+  for (let i = first; i <= entryIndex + longest && !hit2R; i++) {
+    const bar = candles[i]
+    if (((dir > 0 ? bar.low : bar.high) - stop) * dir <= 0) break
+    const best = ((dir > 0 ? bar.high : bar.low) - entry) * dir
+    if (best >= risk) hit1R = true
+    if (best >= 2 * risk) hit2R = true
+  }
+  return { hit1R, hit2R, moves: horizons.map(n => ((candles[entryIndex + n].close - entry) * dir) / atr) }
+}
+
+/**
+ * Replay `candles` bar by bar with the live detectors. Candlestick patterns are
+ * entered at the pattern bar's close. A chart pattern is counted once per
+ * formation: its breakout order rests at the current breakout level for as long
+ * as the pattern is detected, and becomes a sample only if price trades there.
+ * Neutral candles (doji) have no direction to measure and are left out.
+ */
+function collectSamples(candles: Candle[], horizons: number[], riskAtr: number, calendar: SessionCalendar): Sample[] {
+  const samples: Sample[] = []
+  const atrs = rollingATR(candles)
+  const longest = Math.max(...horizons)
+  const orders = new Map<string, RestingOrder>()
+  let filled = new Set<string>()   // formations already traded, until they disappear
+
+  for (let i = Math.max(CHART_WINDOW - 1, ATR_PERIOD); i < candles.length - longest; i++) {
+    const bar = candles[i]
+
+    // Open: resting breakout orders from the previous close
+    for (const [key, order] of orders) {
+      const dir = order.sample.direction === 'bullish' ? 1 : -1
+      const fill = triggerFill(order.trigger, dir > 0 ? 'BUY' : 'SELL', bar)
+      if (fill === null) continue
+      order.sample.outcome = measureOutcome(candles, i, fill === bar.open ? i : i + 1, fill, dir, riskAtr * atrs[i - 1], atrs[i - 1], horizons)
+      orders.delete(key)
+      filled.add(key)
+    }
+
+    const atr = atrs[i]
+    if (!(atr > 0)) continue
+    const session = getSessionState(bar.time * 1000, calendar).session
+
+    // Close: candlestick patterns completed by this bar
+    for (const p of detectCandlestickPatterns(candles.slice(i - 2, i + 1), atr)) {
+      if (p.index !== 2 || p.type === 'neutral') continue
+      const dir = p.type === 'bullish' ? 1 : -1
+      samples.push({
+        pattern: p.name,
+        kind: 'CANDLESTICK',
+        direction: p.type,
+        session,
+        outcome: measureOutcome(candles, i, i + 1, bar.close, dir, riskAtr * atr, atr, horizons)
+      })
+    }
+
+    // Close: chart patterns on the live analysis window
+    const seen = new Set<string>()
+    for (const p of detectChartPatterns(candles.slice(i + 1 - CHART_WINDOW, i + 1), atr)) {
+      const key = `${p.name}|${p.direction}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      if (filled.has(key)) continue
+      const action = p.direction === 'bullish' ? 'BUY' : 'SELL'
+      const existing = orders.get(key)
+      if (existing) {
+        existing.trigger = breakoutTrigger(p.breakoutLevel, bar.close, action)
+        continue
+      }
+      const sample: Sample = { pattern: p.name, kind: 'CHART', direction: p.direction, session, outcome: null }
+      samples.push(sample)
+      orders.set(key, { sample, trigger: breakoutTrigger(p.breakoutLevel, bar.close, action) })
+    }
+
+    // A pattern that is no longer detected cancels its order and may form again
+    for (const key of orders.keys()) if (!seen.has(key)) orders.delete(key)
+    filled = new Set([...filled].filter(key => seen.has(key)))
+  }
+
+  return samples
+}
+
+function round(value: number, places: number): number {
+  const f = 10 ** places
+  return Math.round(value * f) / f
+}
+
+function summarize(group: Sample[], interval: string, session: StatsSession, horizons: number[]): PatternStat {
+  const measured = group.map(s => s.outcome).filter((o): o is Outcome => o !== null)
+  const n = measured.length
+  const rate = (count: number) => (n > 0 ? round(count / n, 3) : 0)
+  return {
+    pattern: group[0].pattern,
+    kind: group[0].kind,
+    direction: group[0].direction,
+    interval,
+    session,
+    detected: group.length,
+    samples: n,
+    hitRate1R: rate(measured.filter(o => o.hit1R).length),
+    hitRate2R: rate(measured.filter(o => o.hit2R).length),
+    moves: horizons.map((bars, h) => ({
+      bars,
+      meanAtr: n > 0 ? round(measured.reduce((sum, o) => sum + o.moves[h], 0) / n, 2) : 0,
+      positiveRate: rate(measured.filter(o => o.moves[h] > 0).length)
+    }))
+  }
+}
+
+/**
+ * Forward outcome of every pattern in `candles`, per pattern and direction, for all
+ * sessions together and — below daily bars — for each session the pattern bar fell in.
+ */
+export function measurePatternOutcomes(candles: Candle[], interval: string, options: PatternStatsOptions = {}): PatternStat[] {
+  const horizons = options.horizons ?? DEFAULT_HORIZONS
+  const riskAtr = options.riskAtr ?? DEFAULT_STRATEGY_PARAMS.paStopAtr
+  const samples = collectSamples(candles, horizons, riskAtr, options.calendar ?? DEFAULT_SESSION_CALENDAR)
+  const bySession = intervalSeconds(interval) < 86_400
+
+  const groups = new Map<string, { session: StatsSession; samples: Sample[] }>()
+  const add = (sample: Sample, session: StatsSession) => {
+    const key = `${sample.pattern}|${sample.direction}|${session}`
+    const group = groups.get(key) ?? { session, samples: [] }
+    group.samples.push(sample)
+    groups.set(key, group)
+  }
+  for (const sample of samples) {
+    add(sample, 'ALL')
+    if (bySession) add(sample, sample.session)
+  }
+
+  return [...groups.values()]
+    .map(g => summarize(g.samples, interval, g.session, horizons))
+    .sort((a, b) => a.pattern.localeCompare(b.pattern) || a.direction.localeCompare(b.direction) || a.session.localeCompare(b.session))
+}
+
+/**
+ * Scan the candle store for `symbol` on every interval and measure each pattern's outcomes.
+ * Runs synchronously for minutes on long histories — call it from `npm run pattern-stats`,
+ * never from a request handler.
+ */
+export function runPatternStatistics(
+  symbol: string,
+  intervals: string[] = [...ALLOWED_INTERVALS],
+  options: PatternStatsOptions = {}
+): PatternStatsReport {
+  const normalized = normalizeSymbol(symbol)
+  const report: PatternStatsReport = {
+    symbol: normalized,
+    generatedAt: Date.now(),
+    horizons: options.horizons ?? DEFAULT_HORIZONS,
+    riskAtr: options.riskAtr ?? DEFAULT_STRATEGY_PARAMS.paStopAtr,
+    intervals: [],
+    stats: []
+  }
+
+  for (const interval of intervals) {
+    const candles = readCandles(normalized, interval, { limit: Math.min(options.maxBars ?? DEFAULT_MAX_BARS, MAX_SCAN_BARS) })
+    report.intervals.push({
+      interval,
+      bars: candles.length,
+      from: candles[0]?.time ?? null,
+      to: candles[candles.length - 1]?.time ?? null
+    })
+    if (candles.length <= CHART_WINDOW) continue
+    report.stats.push(...measurePatternOutcomes(candles, interval, options))
+  }
+
+  return report
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────────────────────────────────────
+export function loadPatternStats(): PatternStatsReport | null {
+  try {
+    const filePath = STATS_PATH()
+    if (fs.existsSync(filePath)) {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      return data && Array.isArray(data.stats) ? data : null
+    }
+  } catch (error) {
+    console.warn('[patternstats] load failed:', error)
+  }
+  return null
+}
+
+export function savePatternStats(report: PatternStatsReport): boolean {
+  try {
+    const filePath = STATS_PATH()
+    const dir = path.dirname(filePath)
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true })
+    }
+    const tmpPath = `${filePath}.${process.pid}.tmp`
+    fs.writeFileSync(tmpPath, JSON.stringify(report, null, 2), 'utf-8')
+    fs.renameSync(tmpPath, filePath)
+    return true
+  } catch (error) {
+    console.warn('[patternstats] save failed:', error)
+    return false
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Calibration
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calibrator for live patterns on `interval` during `session`. The confidence
+ * becomes the 1R hit rate, shrunk towards the hand-picked constant by sample
+ * size: with PRIOR_WEIGHT samples the two count equally. Session numbers are used
+ * when that bucket has MIN_SESSION_SAMPLES, otherwise the all-session numbers.
+ */
+export function patternCalibrator(
+  report: PatternStatsReport | null,
+  symbol: string,
+  interval: string,
+  session: TradingSession
+): PatternCalibrator | undefined {
+  if (!report || report.symbol !== normalizeSymbol(symbol)) return undefined
+  const stats = new Map(report.stats
+    .filter(s => s.interval === interval)
+    .map(s => [`${s.pattern}|${s.direction}|${s.session}`, s]))
+  if (stats.size === 0) return undefined
+
+  return (name, direction, prior) => {
+    const inSession = stats.get(`${name}|${direction}|${session}`)
+    const stat = inSession && inSession.samples >= MIN_SESSION_SAMPLES ? inSession : stats.get(`${name}|${direction}|ALL`)
+    if (!stat || stat.samples === 0) return null
+    const confidence = (prior * PRIOR_WEIGHT + stat.hitRate1R * 100 * stat.samples) / (PRIOR_WEIGHT + stat.samples)
+    return {
+      confidence: Math.round(confidence),
+      evidence: { samples: stat.samples, hitRate1R: stat.hitRate1R, hitRate2R: stat.hitRate2R, session: stat.session }
+    }
+  }
+}
@@ -13,7 +13,7 @@ export interface Trade {
   status: 'OPEN' | 'CLOSED' | 'SL_HIT' | 'CANCELLED'
   pnl: number
   pnlPercent: number
-  duration: number
+  duration: number  // ms
   signalConfidence: number
   signalTier: 'PREMIUM' | 'STANDARD' | 'FILTERED'
   reason?: string
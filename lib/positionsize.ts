@@ -0,0 +1,129 @@
+// lib/positionsize.ts — Lots, risk and margin for a signal under fixed-fractional, Kelly and volatility-adjusted sizing
+import { fetchQuoteWithProvider } from './twelvedata'
+import { calculateFixedFractionalSize, calculateKellyPositionSize, calculateVolatilityAdjustedSize } from './riskmanagement'
+
+export type SizingMethod = 'FIXED_FRACTIONAL' | 'KELLY' | 'VOLATILITY_ADJUSTED'
+
+export interface AccountSpec {
+  balance: number              // in the account currency
+  currency: string             // ISO code, e.g. USD, EUR
+  usdRate: number              // account currency per 1 USD (1 for USD accounts)
+  riskPercent: number          // fraction of balance risked per trade (0.01 = 1%)
+  contractSize: number         // oz per lot (100 for a standard XAU/USD lot)
+  lotStep: number              // broker volume step, e.g. 0.01
+  minLot: number               // smallest tradable volume
+  leverage: number             // account leverage for margin, e.g. 100 for 1:100
+}
+
+export interface TradeGeometry {
+  entry: number
+  stopLoss: number
+  atr?: number                 // current ATR and its longer average, for the volatility method
+  avgAtr?: number
+}
+
+export interface KellyInputs {
+  winRate: number              // fraction
+  payoff: number               // average win / average loss
+  samples: number              // closed trades behind the numbers; 0 when not measured
+  source: 'JOURNAL' | 'REQUEST'
+}
+
+export interface MethodSize {
+  method: SizingMethod
+  lots: number                 // rounded down to the lot step; 0 when below the minimum lot
+  rawLots: number              // before rounding
+  dollarRisk: number           // USD lost at the stop with `lots`
+  risk: number                 // the same in the account currency
+  riskPercent: number          // of balance, with `lots`
+  margin: number               // account currency
+  notional: number             // USD
+  note: string
+}
+
+export interface PositionSizeReport {
+  account: AccountSpec
+  stopDistance: number         // price units
+  kelly: KellyInputs | null     // null: no measured win rate, so Kelly is not sized
+  sizes: MethodSize[]          // fixed fractional, Kelly, volatility adjusted
+}
+
+// Majors quoted as XXX/USD; every other currency is quoted USD/XXX
+const USD_QUOTED = new Set(['EUR', 'GBP', 'AUD', 'NZD'])
+
+// Lot steps are decimal (0.01, 0.1); keep the rounded size free of float noise
+function floorToStep(lots: number, step: number): number {
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step)))
+  return Number((Math.floor(lots / step + 1e-9) * step).toFixed(decimals))
+}
+
+/**
+ * Account currency per 1 USD from the provider chain. Synthetic quotes are
+ * refused: a made-up FX rate would misstate every risk figure.
+ */
+export async function fetchUsdRate(currency: string): Promise<number> {
+  if (currency === 'USD') return 1
+  const inverted = USD_QUOTED.has(currency)
+  const symbol = inverted ? `${currency}/USD` : `USD/${currency}`
+  const { quote, provider } = await fetchQuoteWithProvider(symbol)
+  if (provider === 'synthetic' || !(quote.close > 0)) throw new Error(`No live ${symbol} quote — pass fxRate instead`)
+  return inverted ? 1 / quote.close : quote.close
+}
+
+function sizeFromLots(method: SizingMethod, rawLots: number, account: AccountSpec, entry: number, stopDistance: number, note: string): MethodSize {
+  const stepped = floorToStep(Math.max(0, rawLots), account.lotStep)
+  const lots = stepped >= account.minLot ? stepped : 0
+  const dollarRisk = lots * stopDistance * account.contractSize
+  const notional = lots * account.contractSize * entry
+  const balanceUsd = account.balance / account.usdRate
+  return {
+    method,
+    lots,
+    rawLots: Math.round(rawLots * 10_000) / 10_000,
+    dollarRisk: Math.round(dollarRisk * 100) / 100,
+    risk: Math.round(dollarRisk * account.usdRate * 100) / 100,
+    riskPercent: balanceUsd > 0 ? dollarRisk / balanceUsd : 0,
+    margin: Math.round(notional / account.leverage * account.usdRate * 100) / 100,
+    notional: Math.round(notional * 100) / 100,
+    note: lots === 0 && rawLots > 0 ? `${note}; below the ${account.minLot} lot minimum` : note
+  }
+}
+
+/**
+ * Size one trade by each method, side by side, in the account's lots and currency.
+ * Kelly needs a measured edge; without one (`kelly` null) it is reported at 0 lots.
+ */
+export function sizePosition(account: AccountSpec, trade: TradeGeometry, kelly: KellyInputs | null): PositionSizeReport {
+  const stopDistance = Math.abs(trade.entry - trade.stopLoss)
+  const balanceUsd = account.balance / account.usdRate
+  const perLotRisk = stopDistance * account.contractSize
+
+  const fixed = calculateFixedFractionalSize(balanceUsd, account.riskPercent, trade.entry, trade.stopLoss, account.contractSize)
+  // The library rounds to 0.01 lots; size from its dollar risk so the broker's step decides
+  const fixedLots = perLotRisk > 0 ? fixed.dollarRisk / perLotRisk : 0
+
+  const kellyRisk = kelly ? calculateKellyPositionSize(kelly.winRate, kelly.payoff, 1, balanceUsd) : 0
+  const kellyLots = perLotRisk > 0 ? kellyRisk / perLotRisk : 0
+  const kellyNote = !kelly
+    ? 'Unavailable: no measured win rate — pass winRate and payoff, or wait for enough closed journal trades'
+    : `¼ Kelly, capped at 5%: ${(kelly.winRate * 100).toFixed(0)}% win rate, ${kelly.payoff.toFixed(2)} payoff` +
+      (kelly.source === 'JOURNAL' ? ` from ${kelly.samples} journaled trades` : '') +
+      (kellyRisk === 0 ? ' — no edge' : '')
+
+  const hasAtr = (trade.atr ?? 0) > 0 && (trade.avgAtr ?? 0) > 0
+  const volLots = hasAtr ? calculateVolatilityAdjustedSize(fixedLots, trade.atr as number, trade.avgAtr as number) : fixedLots
+  const volNote = hasAtr
+    ? `Fixed fractional scaled for ATR ${(trade.atr as number).toFixed(2)} vs ${(trade.avgAtr as number).toFixed(2)} average`
+    : 'No ATR given — same as fixed fractional'
+
+  return {
+    account,
+    stopDistance,
+    kelly,
+    sizes: [
+      sizeFromLots('FIXED_FRACTIONAL', fixedLots, account, trade.entry, stopDistance, `${(account.riskPercent * 100).toFixed(2)}% of balance at the stop`),
+      sizeFromLots('KELLY', kellyLots, account, trade.entry, stopDistance, kellyNote),
+      sizeFromLots('VOLATILITY_ADJUSTED', volLots, account, trade.entry, stopDistance, volNote)
+    ]
+  }
+}
@@ -1,4 +1,6 @@
 // lib/priceaction.ts - Price Action Analysis for XAUUSD
+import { DEFAULT_STRATEGY_PARAMS, type StrategyParams } from './strategyparams'
+
 export interface Candle {
   time: number
   open: number
@@ -8,6 +10,21 @@ export interface Candle {
   volume?: number
 }
 
+// Historical outcome behind a calibrated confidence (lib/patternstats.ts)
+export interface PatternEvidence {
+  samples: number
+  hitRate1R: number                // 0-1: reached +1R before the stop
+  hitRate2R: number
+  session: string                  // bucket the numbers come from; 'ALL' when the session had too few
+}
+
+// Calibrated confidence for a pattern, or null to keep its constant
+export type PatternCalibrator = (
+  name: string,
+  direction: 'bullish' | 'bearish',
+  prior: number
+) => { confidence: number; evidence: PatternEvidence } | null
+
 export interface CandlestickPattern {
   name: string
   type: 'bullish' | 'bearish' | 'neutral'
@@ -15,6 +32,7 @@ export interface CandlestickPattern {
   index: number
   confidence: number
   description: string
+  evidence?: PatternEvidence       // set when the confidence comes from history
 }
 
 export interface WickAnalysis {
@@ -26,6 +44,11 @@ export interface WickAnalysis {
   significance: number
 }
 
+export interface ChartPoint {
+  index: number
+  price: number
+}
+
 export interface ChartPattern {
   name: string
   type: 'continuation' | 'reversal'
@@ -33,8 +56,12 @@ export interface ChartPattern {
   startIndex: number
   endIndex: number
   breakoutLevel: number
-  targetLevel: number
+  targetLevel: number              // measured move from the breakout level
   confidence: number
+  state: 'FORMING' | 'CONFIRMED'   // CONFIRMED once a bar has closed beyond the breakout level
+  breakoutIndex: number | null     // bar whose close confirmed the breakout
+  neckline: [ChartPoint, ChartPoint] | null // head & shoulders and double/triple tops and bottoms
+  evidence?: PatternEvidence
 }
 
 export interface PriceActionSignal {
@@ -47,14 +74,48 @@ export interface PriceActionSignal {
   riskReward: number
   patterns: CandlestickPattern[]
   chartPattern: ChartPattern | null
+  entryType: 'MARKET' | 'BREAKOUT' // BREAKOUT: entry is an order at the chart pattern's breakout level
   wickAnalysis: WickAnalysis
   confluences: string[]
 }
 
+// Size thresholds for the multi-candle patterns, as multiples of ATR so they hold at any price level or timeframe
+const PATTERN_ATR = {
+  largeBody: 0.6,      // a "real" trend candle (harami mother, piercing/dark cloud first candle)
+  soldierBody: 0.4,    // each candle of three soldiers / crows
+  soldierWick: 0.25,   // max closing wick on soldiers / crows
+  tweezerMatch: 0.05,  // max gap between the two tweezer extremes
+  tweezerRange: 0.3,   // both tweezer candles must be this big
+  breakout: 0.1,       // close beyond the mother bar for an inside-bar breakout
+  outsideRange: 1.2    // outside-bar reversal range
+}
+
+// Swing chart patterns, also in ATR multiples
+const CHART_ATR = {
+  levelMatch: 0.5,     // double/triple tops and bottoms: spread of the peaks
+  shoulderMatch: 1,    // head & shoulders: difference between the two shoulders
+  headClearance: 0.5,  // head beyond the higher shoulder
+  minHeight: 1.5,      // peak to neckline — the measured move
+  channelFit: 0.5,     // max distance of a swing from its channel line
+  channelWidth: 1.5,   // min distance between the channel lines
+  channelSlope: 1      // min rise/fall of the channel over its length
+}
+const CHART_LOOKBACK = 120      // bars searched for swing points
+const CHART_SWING_SPAN = 3      // bars either side of a swing point
+const CHART_MIN_SPACING = 5     // bars between the peaks of one pattern
+const FORMING_MAX_BARS = 30     // a pattern with no breakout this long after its last swing is dropped
+const BREAKOUT_FRESH_BARS = 10  // a confirmed breakout older than this is no longer a setup
+
+// Mean high-low range over the last `period` bars — stands in for ATR when the caller has none
+function averageRange(candles: Candle[], period = 14): number {
+  const tail = candles.slice(-period)
+  return tail.length > 0 ? tail.reduce((sum, c) => sum + (c.high - c.low), 0) / tail.length : 0
+}
+
 // Candlestick Pattern Detection
-export function detectCandlestickPatterns(candles: Candle[]): CandlestickPattern[] {
+export function detectCandlestickPatterns(candles: Candle[], atr: number = averageRange(candles)): CandlestickPattern[] {
   const patterns: CandlestickPattern[] = []
-  if (candles.length < 3) return patterns
+  if (candles.length < 3 || !(atr > 0)) return patterns
 
   for (let i = 2; i < candles.length; i++) {
     const current = candles[i]
@@ -92,6 +153,30 @@ export function detectCandlestickPatterns(candles: Candle[]): CandlestickPattern
     // Pin Bar
     const pinBar = detectPinBar(current)
     if (pinBar) patterns.push({ ...pinBar, index: i })
+
+    // Harami (2-candle pattern)
+    const harami = detectHarami(prev, current, atr)
+    if (harami) patterns.push({ ...harami, index: i })
+
+    // Tweezer Top / Bottom
+    const tweezer = detectTweezer(prev, current, atr)
+    if (tweezer) patterns.push({ ...tweezer, index: i })
+
+    // Piercing Line / Dark Cloud Cover
+    const piercing = detectPiercingOrDarkCloud(prev, current, atr)
+    if (piercing) patterns.push({ ...piercing, index: i })
+
+    // Outside-bar reversal
+    const outside = detectOutsideBarReversal(prev, current, atr)
+    if (outside) patterns.push({ ...outside, index: i })
+
+    // Three White Soldiers / Three Black Crows (3-candle pattern)
+    const soldiers = detectThreeSoldiersOrCrows(prev2, prev, current, atr)
+    if (soldiers) patterns.push({ ...soldiers, index: i })
+
+    // Inside-bar breakout (mother bar, inside bar, breakout bar)
+    const insideBreakout = detectInsideBarBreakout(prev2, prev, current, atr)
+    if (insideBreakout) patterns.push({ ...insideBreakout, index: i })
   }
 
   return patterns
@@ -275,6 +360,114 @@ function detectPinBar(candle: Candle): CandlestickPattern | null {
   return null
 }
 
+function bodyOf(candle: Candle): number {
+  return Math.abs(candle.close - candle.open)
+}
+
+function detectHarami(prev: Candle, current: Candle, atr: number): CandlestickPattern | null {
+  const prevBody = bodyOf(prev)
+  if (prevBody < atr * PATTERN_ATR.largeBody) return null
+
+  // Current body sits inside the prior body and is at most half its size, opposite colour
+  const inside = Math.max(current.open, current.close) <= Math.max(prev.open, prev.close) &&
+    Math.min(current.open, current.close) >= Math.min(prev.open, prev.close)
+  if (!inside || bodyOf(current) > prevBody * 0.5) return null
+
+  const strength = prevBody > atr * 1.2 ? 'strong' : 'moderate'
+  if (prev.close < prev.open && current.close > current.open) {
+    return { name: 'Bullish Harami', type: 'bullish', strength, index: 0, confidence: 65, description: 'Selling stalls inside a large bearish candle' }
+  }
+  if (prev.close > prev.open && current.close < current.open) {
+    return { name: 'Bearish Harami', type: 'bearish', strength, index: 0, confidence: 65, description: 'Buying stalls inside a large bullish candle' }
+  }
+  return null
+}
+
+function detectTweezer(prev: Candle, current: Candle, atr: number): CandlestickPattern | null {
+  const minRange = atr * PATTERN_ATR.tweezerRange
+  if (prev.high - prev.low < minRange || current.high - current.low < minRange) return null
+  const tolerance = atr * PATTERN_ATR.tweezerMatch
+
+  if (prev.close < prev.open && current.close > current.open && Math.abs(prev.low - current.low) <= tolerance) {
+    return { name: 'Tweezer Bottom', type: 'bullish', strength: 'moderate', index: 0, confidence: 70, description: 'Matching lows rejected twice - support holding' }
+  }
+  if (prev.close > prev.open && current.close < current.open && Math.abs(prev.high - current.high) <= tolerance) {
+    return { name: 'Tweezer Top', type: 'bearish', strength: 'moderate', index: 0, confidence: 70, description: 'Matching highs rejected twice - resistance holding' }
+  }
+  return null
+}
+
+function detectPiercingOrDarkCloud(prev: Candle, current: Candle, atr: number): CandlestickPattern | null {
+  if (bodyOf(prev) < atr * PATTERN_ATR.largeBody) return null
+  const prevMid = (prev.open + prev.close) / 2
+
+  // Opens beyond the prior close, recovers past its midpoint but not its open (that would be engulfing)
+  if (prev.close < prev.open && current.close > current.open &&
+      current.open <= prev.close && current.close > prevMid && current.close < prev.open) {
+    const strength = current.close - prevMid > bodyOf(prev) * 0.25 ? 'strong' : 'moderate'
+    return { name: 'Piercing Line', type: 'bullish', strength, index: 0, confidence: 72, description: 'Buyers reclaim over half of the prior bearish candle' }
+  }
+  if (prev.close > prev.open && current.close < current.open &&
+      current.open >= prev.close && current.close < prevMid && current.close > prev.open) {
+    const strength = prevMid - current.close > bodyOf(prev) * 0.25 ? 'strong' : 'moderate'
+    return { name: 'Dark Cloud Cover', type: 'bearish', strength, index: 0, confidence: 72, description: 'Sellers take back over half of the prior bullish candle' }
+  }
+  return null
+}
+
+function detectOutsideBarReversal(prev: Candle, current: Candle, atr: number): CandlestickPattern | null {
+  const range = current.high - current.low
+  if (current.high <= prev.high || current.low >= prev.low || range < atr * PATTERN_ATR.outsideRange) return null
+
+  // Close in the outer quarter of the range, against the prior candle
+  const closePos = (current.close - current.low) / range
+  const strength = range > atr * 2 ? 'strong' : 'moderate'
+  if (prev.close < prev.open && closePos >= 0.75) {
+    return { name: 'Outside Bar Reversal (Bullish)', type: 'bullish', strength, index: 0, confidence: 75, description: 'Range expansion takes out the prior low and closes near the high' }
+  }
+  if (prev.close > prev.open && closePos <= 0.25) {
+    return { name: 'Outside Bar Reversal (Bearish)', type: 'bearish', strength, index: 0, confidence: 75, description: 'Range expansion takes out the prior high and closes near the low' }
+  }
+  return null
+}
+
+function detectThreeSoldiersOrCrows(first: Candle, second: Candle, third: Candle, atr: number): CandlestickPattern | null {
+  const bars = [first, second, third]
+  if (bars.some(c => bodyOf(c) < atr * PATTERN_ATR.soldierBody)) return null
+  const maxWick = atr * PATTERN_ATR.soldierWick
+
+  // Each candle opens inside the previous body and closes beyond the previous close, near its extreme
+  const bullish = bars.every((c, i) =>
+    c.close > c.open && c.high - c.close <= maxWick &&
+    (i === 0 || (c.close > bars[i - 1].close && c.open >= bars[i - 1].open && c.open <= bars[i - 1].close)))
+  const bearish = bars.every((c, i) =>
+    c.close < c.open && c.close - c.low <= maxWick &&
+    (i === 0 || (c.close < bars[i - 1].close && c.open <= bars[i - 1].open && c.open >= bars[i - 1].close)))
+
+  const strength = bars.every(c => bodyOf(c) > atr * 0.8) ? 'strong' : 'moderate'
+  if (bullish) {
+    return { name: 'Three White Soldiers', type: 'bullish', strength, index: 0, confidence: 78, description: 'Three strong closes higher - sustained buying' }
+  }
+  if (bearish) {
+    return { name: 'Three Black Crows', type: 'bearish', strength, index: 0, confidence: 78, description: 'Three strong closes lower - sustained selling' }
+  }
+  return null
+}
+
+function detectInsideBarBreakout(mother: Candle, inside: Candle, current: Candle, atr: number): CandlestickPattern | null {
+  if (inside.high >= mother.high || inside.low <= mother.low) return null
+  const margin = atr * PATTERN_ATR.breakout
+  const strength = mother.high - mother.low > atr ? 'strong' : 'moderate'
+
+  if (current.close > mother.high + margin) {
+    return { name: 'Inside Bar Breakout (Bullish)', type: 'bullish', strength, index: 0, confidence: 72, description: 'Close above the mother bar after compression' }
+  }
+  if (current.close < mother.low - margin) {
+    return { name: 'Inside Bar Breakout (Bearish)', type: 'bearish', strength, index: 0, confidence: 72, description: 'Close below the mother bar after compression' }
+  }
+  return null
+}
+
 // Wick and Shadow Analysis
 export function analyzeWicks(candle: Candle): WickAnalysis {
   const body = Math.abs(candle.close - candle.open)
@@ -324,10 +517,26 @@ export function analyzeWicks(candle: Candle): WickAnalysis {
 }
 
 // Chart Pattern Detection
-export function detectChartPatterns(candles: Candle[]): ChartPattern[] {
+// Swing-based patterns come first: their levels come from actual swing points, the
+// range-based triangle/wedge/flag only from the 20-bar envelope (which includes the
+// last bar, so those stay FORMING). Confirmed breakouts sort ahead of forming ones.
+export function detectChartPatterns(candles: Candle[], atr: number = averageRange(candles)): ChartPattern[] {
   const patterns: ChartPattern[] = []
   if (candles.length < 20) return patterns
 
+  // Detect swing patterns
+  if (atr > 0) {
+    const swings = findSwings(candles, Math.max(0, candles.length - CHART_LOOKBACK))
+    const swingPatterns = [
+      detectHeadAndShoulders(candles, swings, atr, 'HIGH'),
+      detectHeadAndShoulders(candles, swings, atr, 'LOW'),
+      detectMultipleTopBottom(candles, swings, atr, 'HIGH'),
+      detectMultipleTopBottom(candles, swings, atr, 'LOW'),
+      detectChannel(candles, swings, atr)
+    ]
+    swingPatterns.forEach(pattern => { if (pattern) patterns.push(pattern) })
+  }
+
   // Detect Triangle Pattern
   const triangle = detectTriangle(candles)
   if (triangle) patterns.push(triangle)
@@ -340,7 +549,7 @@ export function detectChartPatterns(candles: Candle[]): ChartPattern[] {
   const flag = detectFlag(candles)
   if (flag) patterns.push(flag)
 
-  return patterns
+  return patterns.sort((a, b) => (a.state === b.state ? 0 : a.state === 'CONFIRMED' ? -1 : 1))
 }
 
 function detectTriangle(candles: Candle[]): ChartPattern | null {
@@ -371,7 +580,10 @@ function detectTriangle(candles: Candle[]): ChartPattern | null {
       endIndex: len - 1,
       breakoutLevel: direction === 'bullish' ? highestHigh : lowestLow,
       targetLevel: direction === 'bullish' ? highestHigh + range : lowestLow - range,
-      confidence: 75
+      confidence: 75,
+      state: 'FORMING',
+      breakoutIndex: null,
+      neckline: null
     }
   }
 
@@ -407,7 +619,10 @@ function detectWedge(candles: Candle[]): ChartPattern | null {
       endIndex: len - 1,
       breakoutLevel: trend === 'rising' ? Math.min(...lows) : Math.max(...highs),
       targetLevel: trend === 'rising' ? Math.min(...lows) - range : Math.max(...highs) + range,
-      confidence: 72
+      confidence: 72,
+      state: 'FORMING',
+      breakoutIndex: null,
+      neckline: null
     }
   }
 
@@ -446,22 +661,271 @@ function detectFlag(candles: Candle[]): ChartPattern | null {
       endIndex: len - 1,
       breakoutLevel: direction === 'bullish' ? Math.max(...closes) : Math.min(...closes),
       targetLevel: direction === 'bullish' ? poleEnd + poleMove : poleEnd - poleMove,
-      confidence: 78
+      confidence: 78,
+      state: 'FORMING',
+      breakoutIndex: null,
+      neckline: null
+    }
+  }
+
+  return null
+}
+
+// Swing Chart Patterns
+interface SwingPoint extends ChartPoint {
+  type: 'HIGH' | 'LOW'
+}
+
+// A formation before its breakout has been looked for
+interface PatternSetup {
+  name: string
+  type: ChartPattern['type']
+  direction: ChartPattern['direction']
+  startIndex: number
+  formedIndex: number                  // last swing of the formation; breakouts are searched after it
+  levelAt: (index: number) => number   // breakout line
+  invalidAt: (index: number) => number // a close beyond this line, against the pattern, voids it
+  height: number                       // measured move
+  confidence: number
+  neckline: [ChartPoint, ChartPoint] | null
+}
+
+// Swing highs and lows from `from` on, in bar order — only swings with a full span of bars after them
+function findSwings(candles: Candle[], from: number): SwingPoint[] {
+  const swings: SwingPoint[] = []
+  for (let i = Math.max(from, CHART_SWING_SPAN); i < candles.length - CHART_SWING_SPAN; i++) {
+    let high = true
+    let low = true
+    for (let j = i - CHART_SWING_SPAN; j <= i + CHART_SWING_SPAN; j++) {
+      if (j === i) continue
+      if (candles[j].high >= candles[i].high) high = false
+      if (candles[j].low <= candles[i].low) low = false
+    }
+    if (high) swings.push({ index: i, price: candles[i].high, type: 'HIGH' })
+    if (low) swings.push({ index: i, price: candles[i].low, type: 'LOW' })
+  }
+  return swings
+}
+
+// Most extreme high or low strictly between two bars — the reaction a neckline is drawn through
+function extremeBetween(candles: Candle[], from: number, to: number, side: 'HIGH' | 'LOW'): ChartPoint | null {
+  let best: ChartPoint | null = null
+  for (let i = from + 1; i < to; i++) {
+    const price = side === 'HIGH' ? candles[i].high : candles[i].low
+    if (!best || (side === 'HIGH' ? price > best.price : price < best.price)) best = { index: i, price }
+  }
+  return best
+}
+
+function lineThrough(a: ChartPoint, b: ChartPoint): (index: number) => number {
+  const slope = b.index === a.index ? 0 : (b.price - a.price) / (b.index - a.index)
+  return index => a.price + slope * (index - a.index)
+}
+
+// Least-squares line through swing points
+function fitLine(points: ChartPoint[]): { slope: number; at: (index: number) => number } {
+  const n = points.length
+  const meanX = points.reduce((sum, p) => sum + p.index, 0) / n
+  const meanY = points.reduce((sum, p) => sum + p.price, 0) / n
+  const sxx = points.reduce((sum, p) => sum + (p.index - meanX) ** 2, 0)
+  const slope = sxx > 0 ? points.reduce((sum, p) => sum + (p.index - meanX) * (p.price - meanY), 0) / sxx : 0
+  return { slope, at: index => meanY + slope * (index - meanX) }
+}
+
+/**
+ * Walk the closes after the formation. The first close beyond the breakout line
+ * confirms it; a close beyond the invalidation line voids the pattern, before or
+ * after the breakout. A confirmed pattern is dropped once price has reached the
+ * measured move or the breakout is stale, a forming one once it has gone
+ * FORMING_MAX_BARS without breaking.
+ */
+function resolveBreakout(candles: Candle[], setup: PatternSetup): ChartPattern | null {
+  const last = candles.length - 1
+  const dir = setup.direction === 'bullish' ? 1 : -1
+  let breakoutIndex: number | null = null
+
+  for (let i = setup.formedIndex + 1; i <= last; i++) {
+    const close = candles[i].close
+    if ((close - setup.invalidAt(i)) * dir < 0) return null
+    if (breakoutIndex === null && (close - setup.levelAt(i)) * dir > 0) breakoutIndex = i
+  }
+
+  const breakoutLevel = setup.levelAt(breakoutIndex ?? last)
+  const targetLevel = breakoutLevel + dir * setup.height
+  if (breakoutIndex === null) {
+    if (last - setup.formedIndex > FORMING_MAX_BARS) return null
+  } else {
+    if (last - breakoutIndex > BREAKOUT_FRESH_BARS) return null
+    for (let i = breakoutIndex; i <= last; i++) {
+      if (((dir > 0 ? candles[i].high : candles[i].low) - targetLevel) * dir >= 0) return null
     }
   }
 
+  return {
+    name: setup.name,
+    type: setup.type,
+    direction: setup.direction,
+    startIndex: setup.startIndex,
+    endIndex: last,
+    breakoutLevel,
+    targetLevel,
+    confidence: setup.confidence,
+    state: breakoutIndex === null ? 'FORMING' : 'CONFIRMED',
+    breakoutIndex,
+    neckline: setup.neckline
+  }
+}
+
+// Head & shoulders at highs (bearish) or inverse at lows (bullish): the last three swings,
+// the middle one clear of two matching shoulders, neckline through the reactions between them
+function detectHeadAndShoulders(candles: Candle[], swings: SwingPoint[], atr: number, side: 'HIGH' | 'LOW'): ChartPattern | null {
+  const peaks = swings.filter(s => s.type === side)
+  if (peaks.length < 3) return null
+  const [left, head, right] = peaks.slice(-3)
+  const sign = side === 'HIGH' ? 1 : -1
+
+  if (head.index - left.index < CHART_MIN_SPACING || right.index - head.index < CHART_MIN_SPACING) return null
+  if ((head.price - left.price) * sign < CHART_ATR.headClearance * atr) return null
+  if ((head.price - right.price) * sign < CHART_ATR.headClearance * atr) return null
+  if (Math.abs(left.price - right.price) > CHART_ATR.shoulderMatch * atr) return null
+
+  const opposite = side === 'HIGH' ? 'LOW' : 'HIGH'
+  const first = extremeBetween(candles, left.index, head.index, opposite)
+  const second = extremeBetween(candles, head.index, right.index, opposite)
+  if (!first || !second) return null
+
+  const neckAt = lineThrough(first, second)
+  const height = (head.price - neckAt(head.index)) * sign
+  if (height < CHART_ATR.minHeight * atr) return null
+
+  return resolveBreakout(candles, {
+    name: side === 'HIGH' ? 'Head and Shoulders' : 'Inverse Head and Shoulders',
+    type: 'reversal',
+    direction: side === 'HIGH' ? 'bearish' : 'bullish',
+    startIndex: left.index,
+    formedIndex: right.index,
+    levelAt: neckAt,
+    invalidAt: () => head.price,
+    height,
+    confidence: 76,
+    neckline: [first, second]
+  })
+}
+
+// Double/triple top (bearish) or bottom (bullish): the last two or three swings at the same
+// level, neckline at the deepest reaction between them
+function detectMultipleTopBottom(candles: Candle[], swings: SwingPoint[], atr: number, side: 'HIGH' | 'LOW'): ChartPattern | null {
+  const peaks = swings.filter(s => s.type === side)
+  const sign = side === 'HIGH' ? 1 : -1
+  const opposite = side === 'HIGH' ? 'LOW' : 'HIGH'
+
+  for (const count of [3, 2]) {
+    if (peaks.length < count) continue
+    const set = peaks.slice(-count)
+    const prices = set.map(p => p.price)
+    if (Math.max(...prices) - Math.min(...prices) > CHART_ATR.levelMatch * atr) continue
+    if (set.some((p, k) => k > 0 && p.index - set[k - 1].index < CHART_MIN_SPACING)) continue
+
+    const reactions = set.slice(1).map((p, k) => extremeBetween(candles, set[k].index, p.index, opposite))
+    if (reactions.some(r => r === null)) continue
+    const neck = (reactions as ChartPoint[]).reduce((a, b) => ((b.price - a.price) * sign < 0 ? b : a))
+
+    const outer = sign > 0 ? Math.max(...prices) : Math.min(...prices)
+    const height = (outer - neck.price) * sign
+    if (height < CHART_ATR.minHeight * atr) continue
+
+    const last = set[set.length - 1]
+    return resolveBreakout(candles, {
+      name: `${count === 3 ? 'Triple' : 'Double'} ${side === 'HIGH' ? 'Top' : 'Bottom'}`,
+      type: 'reversal',
+      direction: side === 'HIGH' ? 'bearish' : 'bullish',
+      startIndex: set[0].index,
+      formedIndex: last.index,
+      levelAt: () => neck.price,
+      invalidAt: () => outer + sign * CHART_ATR.levelMatch * atr,
+      height,
+      confidence: count === 3 ? 74 : 70,
+      neckline: [{ index: set[0].index, price: neck.price }, { index: candles.length - 1, price: neck.price }]
+    })
+  }
+
   return null
 }
 
+// Ascending/descending channel: parallel lines fitted through the last swing highs and lows.
+// A close through the trend-side line continues the move; a close through the other side is a
+// failed channel and reverses it.
+function detectChannel(candles: Candle[], swings: SwingPoint[], atr: number): ChartPattern | null {
+  const highs = swings.filter(s => s.type === 'HIGH').slice(-3)
+  const lows = swings.filter(s => s.type === 'LOW').slice(-3)
+  if (highs.length < 2 || lows.length < 2) return null
+
+  const upper = fitLine(highs)
+  const lower = fitLine(lows)
+  const startIndex = Math.min(highs[0].index, lows[0].index)
+  const formedIndex = Math.max(highs[highs.length - 1].index, lows[lows.length - 1].index)
+  const length = formedIndex - startIndex
+  if (length < CHART_MIN_SPACING * 2) return null
+
+  if (Math.sign(upper.slope) !== Math.sign(lower.slope)) return null
+  if (Math.min(Math.abs(upper.slope), Math.abs(lower.slope)) * length < CHART_ATR.channelSlope * atr) return null
+  if (Math.abs(upper.slope - lower.slope) * length > CHART_ATR.channelFit * atr) return null
+  const misfit = [...highs.map(p => p.price - upper.at(p.index)), ...lows.map(p => p.price - lower.at(p.index))]
+  if (misfit.some(d => Math.abs(d) > CHART_ATR.channelFit * atr)) return null
+
+  const width = upper.at(formedIndex) - lower.at(formedIndex)
+  if (width < CHART_ATR.channelWidth * atr) return null
+
+  const ascending = upper.slope > 0
+  const [trendLine, counterLine] = ascending ? [upper.at, lower.at] : [lower.at, upper.at]
+  const base = { name: ascending ? 'Ascending Channel' : 'Descending Channel', startIndex, formedIndex, height: width, neckline: null }
+
+  const failure = resolveBreakout(candles, {
+    ...base,
+    type: 'reversal',
+    direction: ascending ? 'bearish' : 'bullish',
+    levelAt: counterLine,
+    invalidAt: trendLine,
+    confidence: 70
+  })
+  if (failure?.state === 'CONFIRMED') return failure
+
+  return resolveBreakout(candles, {
+    ...base,
+    type: 'continuation',
+    direction: ascending ? 'bullish' : 'bearish',
+    levelAt: trendLine,
+    invalidAt: counterLine,
+    confidence: 68
+  })
+}
+
+// Swap a pattern's constant confidence for the calibrated one
+function calibratePattern<T extends CandlestickPattern | ChartPattern>(pattern: T, direction: string, calibrate?: PatternCalibrator): T {
+  if (!calibrate || (direction !== 'bullish' && direction !== 'bearish')) return pattern
+  const calibrated = calibrate(pattern.name, direction, pattern.confidence)
+  return calibrated ? { ...pattern, confidence: calibrated.confidence, evidence: calibrated.evidence } : pattern
+}
+
+function sampleNote(pattern: CandlestickPattern | ChartPattern): string {
+  return pattern.evidence ? `, n=${pattern.evidence.samples}` : ''
+}
+
 // Generate Price Action Signal
+// `calibrate` replaces the pattern constants with historical hit rates. Only live analysis
+// passes it — statistics measured on the same bars would leak the future into a backtest.
 export function generatePriceActionSignal(
   candles: Candle[],
   currentPrice: number,
-  atr: number
+  atr: number,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS,
+  calibrate?: PatternCalibrator
 ): PriceActionSignal {
-  const patterns = detectCandlestickPatterns(candles)
-  const recentPatterns = patterns.filter(p => p.index >= candles.length - 3)
-  const chartPatterns = detectChartPatterns(candles)
+  const patterns = detectCandlestickPatterns(candles, atr)
+  const recentPatterns = patterns
+    .filter(p => p.index >= candles.length - 3)
+    .map(p => calibratePattern(p, p.type, calibrate))
+  const chartPatterns = detectChartPatterns(candles, atr).map(p => calibratePattern(p, p.direction, calibrate))
   const lastCandle = candles[candles.length - 1]
   const wickAnalysis = analyzeWicks(lastCandle)
 
@@ -473,10 +937,10 @@ export function generatePriceActionSignal(
   recentPatterns.forEach(pattern => {
     if (pattern.type === 'bullish') {
       bullishScore += pattern.confidence * (pattern.strength === 'strong' ? 1.5 : 1)
-      confluences.push(`${pattern.name} (${pattern.confidence.toFixed(0)}%)`)
+      confluences.push(`${pattern.name} (${pattern.confidence.toFixed(0)}%${sampleNote(pattern)})`)
     } else if (pattern.type === 'bearish') {
       bearishScore += pattern.confidence * (pattern.strength === 'strong' ? 1.5 : 1)
-      confluences.push(`${pattern.name} (${pattern.confidence.toFixed(0)}%)`)
+      confluences.push(`${pattern.name} (${pattern.confidence.toFixed(0)}%${sampleNote(pattern)})`)
     }
   })
 
@@ -492,14 +956,16 @@ export function generatePriceActionSignal(
   }
 
   // Score chart patterns
-  if (chartPatterns.length > 0) {
-    const mainPattern = chartPatterns[0]
+  const mainPattern = chartPatterns[0] || null
+  if (mainPattern) {
+    const state = (mainPattern.state === 'CONFIRMED' ? 'confirmed' : 'pending') +
+      (mainPattern.evidence ? `, ${mainPattern.confidence.toFixed(0)}%${sampleNote(mainPattern)}` : '')
     if (mainPattern.direction === 'bullish') {
       bullishScore += mainPattern.confidence
-      confluences.push(`${mainPattern.name} breakout`)
+      confluences.push(`${mainPattern.name} breakout (${state})`)
     } else {
       bearishScore += mainPattern.confidence
-      confluences.push(`${mainPattern.name} breakdown`)
+      confluences.push(`${mainPattern.name} breakdown (${state})`)
     }
   }
 
@@ -512,22 +978,32 @@ export function generatePriceActionSignal(
   let takeProfit2 = currentPrice
 
   const scoreDiff = Math.abs(bullishScore - bearishScore)
-  const minConfidence = 65
+  const minConfidence = params.paMinConfidence
 
   if (bullishScore > bearishScore && bullishScore > minConfidence) {
     action = 'BUY'
     confidence = Math.min(95, bullishScore)
-    entry = currentPrice
-    stopLoss = currentPrice - (atr * 1.5)
-    takeProfit1 = currentPrice + (atr * 2)
-    takeProfit2 = currentPrice + (atr * 3.5)
   } else if (bearishScore > bullishScore && bearishScore > minConfidence) {
     action = 'SELL'
     confidence = Math.min(95, bearishScore)
-    entry = currentPrice
-    stopLoss = currentPrice + (atr * 1.5)
-    takeProfit1 = currentPrice - (atr * 2)
-    takeProfit2 = currentPrice - (atr * 3.5)
+  }
+
+  // A signal on the side of the chart pattern enters at its breakout level: a stop order while
+  // the pattern is forming, a retest of the broken level once it is confirmed
+  const breakout = mainPattern && action !== 'WAIT' && (mainPattern.direction === 'bullish') === (action === 'BUY') ? mainPattern : null
+  const entryType = breakout ? 'BREAKOUT' : 'MARKET'
+
+  if (action !== 'WAIT') {
+    const dir = action === 'BUY' ? 1 : -1
+    entry = breakout ? breakout.breakoutLevel : currentPrice
+    stopLoss = entry - dir * atr * params.paStopAtr
+    takeProfit1 = entry + dir * atr * params.paTarget1Atr
+    takeProfit2 = entry + dir * atr * params.paTarget2Atr
+    if (breakout) {
+      // The measured move replaces the second target when it reaches past the first
+      if ((breakout.targetLevel - takeProfit1) * dir > 0) takeProfit2 = breakout.targetLevel
+      confluences.push(`Breakout entry at ${entry.toFixed(2)}, measured move ${breakout.targetLevel.toFixed(2)}`)
+    }
   }
 
   const riskReward = Math.abs(takeProfit1 - entry) / Math.abs(stopLoss - entry)
@@ -541,7 +1017,8 @@ export function generatePriceActionSignal(
     takeProfit2,
     riskReward,
     patterns: recentPatterns,
-    chartPattern: chartPatterns[0] || null,
+    chartPattern: mainPattern,
+    entryType,
     wickAnalysis,
     confluences
   }
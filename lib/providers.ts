@@ -0,0 +1,403 @@
+// lib/providers.ts — Market data provider registry with ordered fallback
+import type { Candle, Quote, DataProvider } from './twelvedata'
+
+const PROVIDER_TIMEOUT_MS = clampInt(process.env.PROVIDER_TIMEOUT_MS, 4_500, 1_000, 20_000)
+const PROVIDER_MAX_RETRIES = clampInt(process.env.PROVIDER_MAX_RETRIES, 1, 0, 3)
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504])
+
+// Used when MARKET_DATA_PROVIDERS is not set
+const DEFAULT_PROVIDER_ORDER: DataProvider[] = ['twelvedata', 'alphavantage', 'finnhub', 'marketstack', 'synthetic']
+
+export interface MarketDataProvider {
+  id: DataProvider
+  isConfigured(): boolean
+  fetchQuote(symbol: string): Promise<Quote>
+  fetchCandles(symbol: string, interval: string, count: number): Promise<Candle[]>
+}
+
+const registry = new Map<DataProvider, MarketDataProvider>()
+
+export function registerProvider(provider: MarketDataProvider): void {
+  registry.set(provider.id, provider)
+}
+
+/**
+ * Providers in priority order, read from MARKET_DATA_PROVIDERS
+ * (comma-separated, e.g. "twelvedata,finnhub,synthetic").
+ * Unknown ids and providers without credentials are skipped.
+ */
+export function getProviderChain(): MarketDataProvider[] {
+  const order = parseProviderOrder(process.env.MARKET_DATA_PROVIDERS)
+  return order
+    .map(id => registry.get(id))
+    .filter((p): p is MarketDataProvider => !!p && p.isConfigured())
+}
+
+function parseProviderOrder(raw: string | undefined): DataProvider[] {
+  if (!raw?.trim()) return DEFAULT_PROVIDER_ORDER
+  const ids = raw.split(',').map(id => id.trim().toLowerCase()).filter(Boolean)
+  const known = ids.filter((id): id is DataProvider => {
+    const ok = (DEFAULT_PROVIDER_ORDER as string[]).includes(id)
+    if (!ok) console.warn(`[providers] Unknown provider "${id}" in MARKET_DATA_PROVIDERS — ignored`)
+    return ok
+  })
+  return known.length > 0 ? Array.from(new Set(known)) : DEFAULT_PROVIDER_ORDER
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Shared helpers: symbols, retry logic, resampling
+// ─────────────────────────────────────────────────────────────────────────────
+export function clampInt(raw: string | undefined, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(raw ?? '', 10)
+  if (!Number.isFinite(parsed)) return fallback
+  if (parsed < min) return min
+  if (parsed > max) return max
+  return parsed
+}
+
+export function normalizeSymbol(symbol: string): string {
+  const cleaned = (symbol ?? '').trim().toUpperCase().replace(/[-_\s]/g, '')
+  if (cleaned === 'GOLD' || cleaned === 'XAUUSD' || cleaned === 'XAUUS$') {
+    return 'XAU/USD'
+  }
+  if (cleaned === 'XAU/USD'.replace('/', '')) {
+    return 'XAU/USD'
+  }
+  return symbol?.includes('/') ? symbol.toUpperCase() : symbol
+}
+
+export function isGoldSymbol(symbol: string): boolean {
+  return normalizeSymbol(symbol) === 'XAU/USD'
+}
+
+export function parseSymbol(symbol: string): { from: string; to: string } {
+  const canonical = normalizeSymbol(symbol)
+  const [from = 'XAU', to = 'USD'] = canonical.split('/')
+  return { from, to }
+}
+
+export function intervalSeconds(interval: string): number {
+  if (interval === '15min') return 15 * 60
+  if (interval === '1h') return 60 * 60
+  if (interval === '4h') return 4 * 60 * 60
+  return 24 * 60 * 60
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') return true
+    if (error.message.includes('fetch failed')) return true
+    if (error.message.includes('network')) return true
+    for (const code of RETRYABLE_STATUS) {
+      if (error.message.includes(` ${code}`)) return true
+    }
+  }
+  return false
+}
+
+export async function fetchJsonWithRetry(url: string): Promise<any> {
+  let lastError: unknown
+
+  for (let attempt = 0; attempt <= PROVIDER_MAX_RETRIES; attempt++) {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS)
+
+    try {
+      const res = await fetch(url, { cache: 'no-store', signal: controller.signal })
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}`)
+      }
+      return await res.json()
+    } catch (error) {
+      lastError = error
+      const shouldRetry = attempt < PROVIDER_MAX_RETRIES && isRetryableError(error)
+      if (!shouldRetry) break
+      await sleep(150 * (attempt + 1))
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error('Unknown provider fetch error')
+}
+
+function isValidCandle(c: Candle): boolean {
+  return Number.isFinite(c.time) && Number.isFinite(c.open) && Number.isFinite(c.high) && Number.isFinite(c.low) && Number.isFinite(c.close)
+}
+
+// Parse "YYYY-MM-DD HH:mm:ss" / "YYYY-MM-DD" / ISO strings as UTC epoch seconds
+function toEpochSeconds(datetime: string): number {
+  const iso = /[zZ]|[+-]\d{2}:?\d{2}$/.test(datetime) ? datetime : `${datetime.replace(' ', 'T')}Z`
+  return Math.floor(new Date(iso).getTime() / 1000)
+}
+
+/** Aggregate candles into buckets of `seconds`, aligned to UTC. Input must be sorted. */
+export function resampleCandles(candles: Candle[], seconds: number): Candle[] {
+  const out: Candle[] = []
+  for (const c of candles) {
+    const bucket = Math.floor(c.time / seconds) * seconds
+    const last = out[out.length - 1]
+    if (last && last.time === bucket) {
+      last.high = Math.max(last.high, c.high)
+      last.low = Math.min(last.low, c.low)
+      last.close = c.close
+      last.volume += c.volume
+    } else {
+      out.push({ ...c, time: bucket })
+    }
+  }
+  return out
+}
+
+export function quoteFromCandles(symbol: string, candles: Candle[]): Quote {
+  const last = candles[candles.length - 1]
+  const prev = candles[candles.length - 2] ?? last
+  const highs = candles.map(c => c.high)
+  const lows = candles.map(c => c.low)
+
+  // Use realistic fallback prices for gold
+  const isGold = isGoldSymbol(symbol)
+  const fallbackPrice = isGold ? 5180 : 2650
+
+  const change = (last?.close ?? fallbackPrice) - (prev?.close ?? fallbackPrice)
+  const percentChange = prev?.close ? (change / prev.close) * 100 : 0
+
+  return {
+    symbol,
+    close: last?.close ?? fallbackPrice,
+    change,
+    percent_change: percentChange,
+    high: last?.high ?? (fallbackPrice + 20),
+    low: last?.low ?? (fallbackPrice - 20),
+    open: last?.open ?? fallbackPrice,
+    volume: last?.volume ?? 0,
+    fifty_two_week: {
+      low: lows.length ? Math.min(...lows) : (fallbackPrice - 200),
+      high: highs.length ? Math.max(...highs) : (fallbackPrice + 200)
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Alpha Vantage: FX_INTRADAY / FX_DAILY (4h resampled from 60min)
+// ─────────────────────────────────────────────────────────────────────────────
+const ALPHAVANTAGE_KEY = () => process.env.ALPHAVANTAGE_API_KEY
+const ALPHAVANTAGE_BASE = 'https://www.alphavantage.co/query'
+
+async function fetchAlpha(params: Record<string, string>): Promise<any> {
+  const key = ALPHAVANTAGE_KEY()
+  if (!key) throw new Error('Missing ALPHAVANTAGE_API_KEY')
+
+  const url = new URL(ALPHAVANTAGE_BASE)
+  Object.entries(params).forEach(([k, v]) => url.searchParams.append(k, v))
+  url.searchParams.append('apikey', key)
+
+  const data = await fetchJsonWithRetry(url.toString())
+  const message = data?.['Error Message'] ?? data?.Note ?? data?.Information
+  if (message) throw new Error(`Alpha Vantage API error: ${message}`)
+  return data
+}
+
+function parseAlphaSeries(data: any): Candle[] {
+  const seriesKey = Object.keys(data ?? {}).find(k => k.startsWith('Time Series'))
+  const series = seriesKey ? data[seriesKey] : null
+  if (!series || typeof series !== 'object') return []
+
+  return Object.entries(series as Record<string, any>)
+    .map(([datetime, bar]) => ({
+      time: toEpochSeconds(datetime),
+      open: Number(bar['1. open']),
+      high: Number(bar['2. high']),
+      low: Number(bar['3. low']),
+      close: Number(bar['4. close']),
+      volume: 0
+    }))
+    .filter(isValidCandle)
+    .sort((a, b) => a.time - b.time)
+}
+
+const alphaVantageProvider: MarketDataProvider = {
+  id: 'alphavantage',
+  isConfigured: () => !!ALPHAVANTAGE_KEY(),
+
+  async fetchQuote(symbol) {
+    const { from, to } = parseSymbol(symbol)
+    const data = await fetchAlpha({ function: 'CURRENCY_EXCHANGE_RATE', from_currency: from, to_currency: to })
+    const rate = data?.['Realtime Currency Exchange Rate']
+    const close = Number(rate?.['5. Exchange Rate'])
+    if (!Number.isFinite(close) || close <= 0) {
+      throw new Error('Alpha Vantage quote error: invalid price')
+    }
+    // The exchange-rate endpoint has no OHLC; spend no extra quota on it
+    return {
+      symbol: normalizeSymbol(symbol),
+      close,
+      change: 0,
+      percent_change: 0,
+      high: close,
+      low: close,
+      open: close,
+      volume: 0,
+      fifty_two_week: { low: close * 0.9, high: close * 1.1 }
+    }
+  },
+
+  async fetchCandles(symbol, interval, count) {
+    const { from, to } = parseSymbol(symbol)
+    const resample = interval === '4h'
+    const rawCount = resample ? count * 4 : count
+    const params: Record<string, string> = interval === '1day'
+      ? { function: 'FX_DAILY', from_symbol: from, to_symbol: to }
+      : { function: 'FX_INTRADAY', from_symbol: from, to_symbol: to, interval: interval === '15min' ? '15min' : '60min' }
+    params.outputsize = rawCount > 100 ? 'full' : 'compact'
+
+    const candles = parseAlphaSeries(await fetchAlpha(params))
+    const finalCandles = (resample ? resampleCandles(candles, intervalSeconds('4h')) : candles).slice(-count)
+    if (finalCandles.length === 0) {
+      throw new Error('Alpha Vantage API error: No candle data returned')
+    }
+    return finalCandles
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Finnhub: OANDA forex candles (4h resampled from 60)
+// ─────────────────────────────────────────────────────────────────────────────
+const FINNHUB_KEY = () => process.env.FINNHUB_API_KEY
+const FINNHUB_BASE = 'https://finnhub.io/api/v1'
+
+async function fetchFinnhubCandles(symbol: string, interval: string, count: number): Promise<Candle[]> {
+  const key = FINNHUB_KEY()
+  if (!key) throw new Error('Missing FINNHUB_API_KEY')
+
+  const { from, to } = parseSymbol(symbol)
+  const resample = interval === '4h'
+  const rawInterval = resample ? '1h' : interval
+  const resolution = rawInterval === '15min' ? '15' : rawInterval === '1h' ? '60' : 'D'
+  const rawCount = resample ? count * 4 : count
+
+  // Request ~1.6x the window to cover weekends and market breaks
+  const toTs = Math.floor(Date.now() / 1000)
+  const fromTs = toTs - Math.ceil(rawCount * intervalSeconds(rawInterval) * 1.6)
+
+  const url = new URL(`${FINNHUB_BASE}/forex/candle`)
+  url.searchParams.append('symbol', `OANDA:${from}_${to}`)
+  url.searchParams.append('resolution', resolution)
+  url.searchParams.append('from', String(fromTs))
+  url.searchParams.append('to', String(toTs))
+  url.searchParams.append('token', key)
+
+  const data = await fetchJsonWithRetry(url.toString())
+  if (data?.error) throw new Error(`Finnhub API error: ${data.error}`)
+  if (data?.s !== 'ok' || !Array.isArray(data?.t)) {
+    throw new Error('Finnhub API error: No candle data returned')
+  }
+
+  const candles: Candle[] = (data.t as number[])
+    .map((time, i) => ({
+      time,
+      open: Number(data.o?.[i]),
+      high: Number(data.h?.[i]),
+      low: Number(data.l?.[i]),
+      close: Number(data.c?.[i]),
+      volume: Number(data.v?.[i] ?? 0)
+    }))
+    .filter(isValidCandle)
+    .sort((a, b) => a.time - b.time)
+
+  return (resample ? resampleCandles(candles, intervalSeconds('4h')) : candles).slice(-count)
+}
+
+const finnhubProvider: MarketDataProvider = {
+  id: 'finnhub',
+  isConfigured: () => !!FINNHUB_KEY(),
+
+  async fetchQuote(symbol) {
+    // Forex quotes are not on the free plan; derive from the latest hourly bars
+    const candles = await fetchFinnhubCandles(symbol, '1h', 48)
+    if (candles.length === 0) throw new Error('Finnhub quote error: no recent bars')
+    return quoteFromCandles(normalizeSymbol(symbol), candles)
+  },
+
+  async fetchCandles(symbol, interval, count) {
+    const candles = await fetchFinnhubCandles(symbol, interval, count)
+    if (candles.length === 0) {
+      throw new Error('Finnhub API error: No candle data returned')
+    }
+    return candles
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Marketstack: intraday / EOD bars (4h resampled from 1hour)
+// ─────────────────────────────────────────────────────────────────────────────
+const MARKETSTACK_KEY = () => process.env.MARKETSTACK_API_KEY
+const MARKETSTACK_SYMBOL = () => process.env.MARKETSTACK_SYMBOL || 'XAUUSD'
+const MARKETSTACK_BASE = 'https://api.marketstack.com/v1'
+
+// Marketstack is configured for one gold ticker; anything else must fall through to the next provider
+function marketstackTicker(symbol: string): string {
+  if (!isGoldSymbol(symbol)) throw new Error(`Marketstack does not carry ${normalizeSymbol(symbol)}`)
+  return MARKETSTACK_SYMBOL()
+}
+
+async function fetchMarketstackCandles(symbol: string, interval: string, count: number): Promise<Candle[]> {
+  const key = MARKETSTACK_KEY()
+  if (!key) throw new Error('Missing MARKETSTACK_API_KEY')
+  const ticker = marketstackTicker(symbol)
+
+  const resample = interval === '4h'
+  const rawCount = resample ? count * 4 : count
+  const isDaily = interval === '1day'
+
+  const url = new URL(`${MARKETSTACK_BASE}/${isDaily ? 'eod' : 'intraday'}`)
+  url.searchParams.append('access_key', key)
+  url.searchParams.append('symbols', ticker)
+  url.searchParams.append('limit', String(Math.min(rawCount, 1000)))
+  if (!isDaily) url.searchParams.append('interval', interval === '15min' ? '15min' : '1hour')
+
+  const data = await fetchJsonWithRetry(url.toString())
+  if (data?.error) throw new Error(`Marketstack API error: ${data.error.message ?? data.error.code ?? 'Unknown error'}`)
+
+  const rows = Array.isArray(data?.data) ? data.data : []
+  const candles: Candle[] = rows
+    .map((row: any) => ({
+      time: toEpochSeconds(String(row.date)),
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close ?? row.last),
+      volume: Number(row.volume ?? 0)
+    }))
+    .filter(isValidCandle)
+    .sort((a: Candle, b: Candle) => a.time - b.time)
+
+  return (resample ? resampleCandles(candles, intervalSeconds('4h')) : candles).slice(-count)
+}
+
+const marketstackProvider: MarketDataProvider = {
+  id: 'marketstack',
+  isConfigured: () => !!MARKETSTACK_KEY(),
+
+  async fetchQuote(symbol) {
+    const candles = await fetchMarketstackCandles(symbol, '1h', 48)
+    if (candles.length === 0) throw new Error('Marketstack quote error: no recent bars')
+    return quoteFromCandles(normalizeSymbol(symbol), candles)
+  },
+
+  async fetchCandles(symbol, interval, count) {
+    const candles = await fetchMarketstackCandles(symbol, interval, count)
+    if (candles.length === 0) {
+      throw new Error('Marketstack API error: No candle data returned')
+    }
+    return candles
+  }
+}
+
+registerProvider(alphaVantageProvider)
+registerProvider(finnhubProvider)
+registerProvider(marketstackProvider)
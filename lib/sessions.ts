@@ -0,0 +1,258 @@
+// lib/sessions.ts — DST-aware trading session calendar (sessions, ICT killzones, Silver Bullet, CME break)
+import type { Candle } from './twelvedata'
+import { isValidTimeZone, getTimeZoneOffsetMinutes } from './timezone'
+
+export type TradingSession = 'ASIA' | 'LONDON' | 'NEW_YORK' | 'OVERLAP' | 'OFF_HOURS'
+
+export type SessionWindowId =
+  | 'ASIA'
+  | 'LONDON'
+  | 'NEW_YORK'
+  | 'LONDON_OPEN'
+  | 'NY_AM'
+  | 'NY_PM'
+  | 'SILVER_BULLET_LONDON'
+  | 'SILVER_BULLET_AM'
+  | 'SILVER_BULLET_PM'
+  | 'CME_BREAK'
+
+export interface SessionWindow {
+  id: SessionWindowId
+  label: string
+  kind: 'SESSION' | 'KILLZONE' | 'SILVER_BULLET' | 'BREAK'
+  timeZone: string   // IANA zone the wall-clock times are defined in
+  start: string      // HH:MM local; an end at or before the start wraps past midnight
+  end: string
+  days: number[]     // local weekday the window starts on (0 = Sunday)
+}
+
+export interface SessionCalendar {
+  windows: Record<SessionWindowId, SessionWindow>
+  tradeWindows: SessionWindowId[]   // a signal inside any of these counts as "in session" for quality gating
+  blockCmeBreak: boolean            // force WAIT while CME metals are halted
+}
+
+export interface SessionCalendarOverrides {
+  windows?: Partial<Record<SessionWindowId, Partial<Pick<SessionWindow, 'timeZone' | 'start' | 'end' | 'days'>>>>
+  tradeWindows?: SessionWindowId[]
+  blockCmeBreak?: boolean
+}
+
+export interface SessionState {
+  time: number                      // epoch ms the state was computed for
+  session: TradingSession
+  active: SessionWindowId[]
+  killzone: SessionWindowId | null
+  silverBullet: SessionWindowId | null
+  inTradeWindow: boolean
+  marketOpen: boolean               // false during the CME daily break and the weekend close
+  newYorkTime: string               // HH:MM in New York, for display
+}
+
+export interface SessionRange {
+  high: number
+  low: number
+  start: number                     // epoch seconds of the first bar in the window
+  end: number                       // epoch seconds of the last bar
+  complete: boolean                 // the window has closed
+}
+
+const NEW_YORK = 'America/New_York'
+const LONDON = 'Europe/London'
+const WEEKDAYS = [1, 2, 3, 4, 5]
+
+// Times follow ICT conventions. London windows are defined in London time, so the
+// weeks when the US and UK change clocks on different dates stay correct.
+export const DEFAULT_SESSION_WINDOWS: Record<SessionWindowId, SessionWindow> = {
+  ASIA:                 { id: 'ASIA', label: 'Asia', kind: 'SESSION', timeZone: NEW_YORK, start: '20:00', end: '00:00', days: [0, 1, 2, 3, 4] },
+  LONDON:               { id: 'LONDON', label: 'London', kind: 'SESSION', timeZone: LONDON, start: '08:00', end: '17:00', days: WEEKDAYS },
+  NEW_YORK:             { id: 'NEW_YORK', label: 'New York', kind: 'SESSION', timeZone: NEW_YORK, start: '08:00', end: '17:00', days: WEEKDAYS },
+  LONDON_OPEN:          { id: 'LONDON_OPEN', label: 'London Open Killzone', kind: 'KILLZONE', timeZone: LONDON, start: '07:00', end: '10:00', days: WEEKDAYS },
+  NY_AM:                { id: 'NY_AM', label: 'NY AM Killzone', kind: 'KILLZONE', timeZone: NEW_YORK, start: '07:00', end: '10:00', days: WEEKDAYS },
+  NY_PM:                { id: 'NY_PM', label: 'NY PM Killzone', kind: 'KILLZONE', timeZone: NEW_YORK, start: '13:30', end: '16:00', days: WEEKDAYS },
+  SILVER_BULLET_LONDON: { id: 'SILVER_BULLET_LONDON', label: 'London Silver Bullet', kind: 'SILVER_BULLET', timeZone: NEW_YORK, start: '03:00', end: '04:00', days: WEEKDAYS },
+  SILVER_BULLET_AM:     { id: 'SILVER_BULLET_AM', label: 'AM Silver Bullet', kind: 'SILVER_BULLET', timeZone: NEW_YORK, start: '10:00', end: '11:00', days: WEEKDAYS },
+  SILVER_BULLET_PM:     { id: 'SILVER_BULLET_PM', label: 'PM Silver Bullet', kind: 'SILVER_BULLET', timeZone: NEW_YORK, start: '14:00', end: '15:00', days: WEEKDAYS },
+  CME_BREAK:            { id: 'CME_BREAK', label: 'CME Daily Break', kind: 'BREAK', timeZone: NEW_YORK, start: '17:00', end: '18:00', days: [1, 2, 3, 4] }
+}
+
+export const SESSION_WINDOW_IDS = Object.keys(DEFAULT_SESSION_WINDOWS) as SessionWindowId[]
+
+// Matches the old fixed-UTC rule: London and New York hours count as active
+export const DEFAULT_SESSION_CALENDAR: SessionCalendar = {
+  windows: DEFAULT_SESSION_WINDOWS,
+  tradeWindows: ['LONDON', 'NEW_YORK'],
+  blockCmeBreak: true
+}
+
+// Offsets only change on the hour, so cache them per zone and UTC hour — session
+// lookups run for every bar of every backtest step
+const offsetCache = new Map<string, number>()
+
+function localTime(epochMs: number, timeZone: string): Date {
+  const key = `${timeZone}:${Math.floor(epochMs / 3_600_000)}`
+  let offset = offsetCache.get(key)
+  if (offset === undefined) {
+    if (offsetCache.size > 50_000) offsetCache.clear()
+    offset = getTimeZoneOffsetMinutes(epochMs, timeZone)
+    offsetCache.set(key, offset)
+  }
+  // Read with getUTC* — the fields are the zone's wall clock
+  return new Date(epochMs + offset * 60_000)
+}
+
+function parseClock(value: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(value)
+  if (!m) return null
+  const minutes = Number(m[1]) * 60 + Number(m[2])
+  return Number(m[2]) < 60 && minutes <= 24 * 60 ? minutes : null
+}
+
+/**
+ * Merge per-trader overrides onto the default calendar.
+ * Throws on unknown windows, bad HH:MM times or invalid time zones.
+ */
+export function resolveSessionCalendar(overrides: SessionCalendarOverrides = {}): SessionCalendar {
+  const windows = { ...DEFAULT_SESSION_WINDOWS }
+  if (overrides.windows !== undefined && (typeof overrides.windows !== 'object' || overrides.windows === null)) {
+    throw new Error('Session calendar error: windows must be an object')
+  }
+
+  for (const [id, patch] of Object.entries(overrides.windows ?? {})) {
+    if (!Object.hasOwn(windows, id)) throw new Error(`Session calendar error: unknown window ${id}`)
+    const merged = { ...windows[id as SessionWindowId], ...patch }
+    if (parseClock(merged.start) === null || parseClock(merged.end) === null) {
+      throw new Error(`Session calendar error: ${id} times must be HH:MM`)
+    }
+    if (!isValidTimeZone(merged.timeZone)) {
+      throw new Error(`Session calendar error: invalid time zone ${merged.timeZone}`)
+    }
+    if (!Array.isArray(merged.days) || merged.days.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+      throw new Error(`Session calendar error: ${id} days must be weekdays 0-6`)
+    }
+    windows[id as SessionWindowId] = merged
+  }
+
+  const tradeWindows = overrides.tradeWindows ?? DEFAULT_SESSION_CALENDAR.tradeWindows
+  if (!Array.isArray(tradeWindows)) throw new Error('Session calendar error: tradeWindows must be an array')
+  const unknown = tradeWindows.find(id => !Object.hasOwn(windows, id))
+  if (unknown) throw new Error(`Session calendar error: unknown trade window ${unknown}`)
+
+  return {
+    windows,
+    tradeWindows,
+    blockCmeBreak: overrides.blockCmeBreak ?? DEFAULT_SESSION_CALENDAR.blockCmeBreak
+  }
+}
+
+// Local start date (YYYY-MM-DD) of the window occurrence containing `epochMs`, or null when outside it
+function windowOccurrence(epochMs: number, window: SessionWindow): string | null {
+  const start = parseClock(window.start) ?? 0
+  const end = parseClock(window.end) ?? 0
+  const local = localTime(epochMs, window.timeZone)
+  const minute = local.getUTCHours() * 60 + local.getUTCMinutes()
+
+  let startedYesterday = false
+  if (start < end) {
+    if (minute < start || minute >= end) return null
+  } else if (minute >= start) {
+    // Wrapping window, before midnight
+  } else if (minute < end) {
+    startedYesterday = true
+  } else {
+    return null
+  }
+
+  // Date of the window's start, stepping back a day for the post-midnight part
+  const day = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate() - (startedYesterday ? 1 : 0)))
+  const weekday = day.getUTCDay()
+  if (!window.days.includes(weekday)) return null
+  return day.toISOString().slice(0, 10)
+}
+
+export function isInSessionWindow(epochMs: number, window: SessionWindow): boolean {
+  return windowOccurrence(epochMs, window) !== null
+}
+
+/** CME gold trades Sunday 18:00 – Friday 17:00 New York, halting 17:00–18:00 each weekday. */
+export function isMarketOpen(epochMs: number, calendar: SessionCalendar = DEFAULT_SESSION_CALENDAR): boolean {
+  const ny = localTime(epochMs, NEW_YORK)
+  const minute = ny.getUTCHours() * 60 + ny.getUTCMinutes()
+  const weekday = ny.getUTCDay()
+  if (weekday === 6) return false
+  if (weekday === 5 && minute >= 17 * 60) return false
+  if (weekday === 0 && minute < 18 * 60) return false
+  return !isInSessionWindow(epochMs, calendar.windows.CME_BREAK)
+}
+
+/** New York calendar date (YYYY-MM-DD) of an instant — the day that starts at NY midnight. */
+export function newYorkDay(epochMs: number): string {
+  return localTime(epochMs, NEW_YORK).toISOString().slice(0, 10)
+}
+
+/**
+ * CME trading day (YYYY-MM-DD) an instant belongs to. The day rolls at 17:00
+ * New York, so Sunday's evening open already counts as Monday.
+ */
+export function tradingDay(epochMs: number): string {
+  return localTime(epochMs + 7 * 3_600_000, NEW_YORK).toISOString().slice(0, 10)
+}
+
+/** Trading day of the Monday that starts the instant's trading week. */
+export function tradingWeek(epochMs: number): string {
+  const day = new Date(`${tradingDay(epochMs)}T00:00:00Z`)
+  const sinceMonday = (day.getUTCDay() + 6) % 7
+  return new Date(day.getTime() - sinceMonday * 86_400_000).toISOString().slice(0, 10)
+}
+
+/** Everything the calendar says about one instant — pass any historical timestamp. */
+export function getSessionState(epochMs: number = Date.now(), calendar: SessionCalendar = DEFAULT_SESSION_CALENDAR): SessionState {
+  const active = SESSION_WINDOW_IDS.filter(id => isInSessionWindow(epochMs, calendar.windows[id]))
+  const has = (id: SessionWindowId) => active.includes(id)
+
+  let session: TradingSession = 'OFF_HOURS'
+  if (has('LONDON') && has('NEW_YORK')) session = 'OVERLAP'
+  else if (has('LONDON')) session = 'LONDON'
+  else if (has('NEW_YORK')) session = 'NEW_YORK'
+  else if (has('ASIA')) session = 'ASIA'
+
+  const ny = localTime(epochMs, NEW_YORK)
+  return {
+    time: epochMs,
+    session,
+    active,
+    killzone: active.find(id => calendar.windows[id].kind === 'KILLZONE') ?? null,
+    silverBullet: active.find(id => calendar.windows[id].kind === 'SILVER_BULLET') ?? null,
+    inTradeWindow: calendar.tradeWindows.some(has),
+    marketOpen: isMarketOpen(epochMs, calendar),
+    newYorkTime: ny.toISOString().slice(11, 16)
+  }
+}
+
+/**
+ * High/low of the most recent occurrence of a window in `candles` (bars are
+ * assigned by their open time). Returns undefined when no bar falls inside it.
+ */
+export function getSessionRange(candles: Candle[], window: SessionWindow): SessionRange | undefined {
+  let key: string | null = null
+  let range: SessionRange | undefined
+
+  for (let i = candles.length - 1; i >= 0; i--) {
+    const c = candles[i]
+    const occurrence = windowOccurrence(c.time * 1000, window)
+    if (key === null) {
+      if (occurrence === null) continue
+      key = occurrence
+      range = { high: c.high, low: c.low, start: c.time, end: c.time, complete: i < candles.length - 1 }
+      continue
+    }
+    // Occurrences are contiguous, so the first bar outside it ends the scan
+    if (occurrence !== key) break
+    const r = range as SessionRange
+    r.high = Math.max(r.high, c.high)
+    r.low = Math.min(r.low, c.low)
+    r.start = c.time
+  }
+
+  return range
+}
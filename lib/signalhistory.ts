@@ -0,0 +1,176 @@
+// lib/signalhistory.ts — Filtered views, live statistics and CSV export of the signal journal
+import type { SignalTier, JournalSignal } from './signaljournal'
+import type { OutcomeStatus } from './outcomes'
+import { journalToTrades } from './outcomes'
+import { normalizeSymbol } from './providers'
+import { calculatePerformanceMetrics, calculateTierPerformance, analyzeWinStreaks, type PerformanceMetrics, type TierPerformance } from './performance'
+
+export interface HistoryFilter {
+  symbol?: string
+  interval?: string
+  action?: 'BUY' | 'SELL'
+  tier?: SignalTier
+  from?: number                // epoch seconds, inclusive (signal bar time)
+  to?: number                  // epoch seconds, inclusive
+}
+
+export type HistoryResult = 'WIN' | 'LOSS' | 'BREAKEVEN' | 'NO_FILL' | 'OPEN' | 'PENDING'
+
+export interface HistoryRow {
+  id: string
+  barTime: number              // epoch seconds
+  symbol: string
+  interval: string
+  action: 'BUY' | 'SELL'
+  tier: SignalTier
+  confidence: number
+  entry: number
+  stopLoss: number
+  tp1: number
+  tp2: number
+  tp3: number
+  status: OutcomeStatus
+  result: HistoryResult
+  fillPrice: number | null
+  exitPrice: number | null
+  exitTime: number | null
+  exitReason: string | null
+  targetsHit: number
+  pnl: number | null
+  pips: number | null          // signed, 1 pip = $0.10 (same convention as GoldSignal.pips)
+  seenCount: number
+}
+
+export interface HistoryStats {
+  totalSignals: number
+  closed: number
+  open: number
+  noFill: number
+  metrics: PerformanceMetrics
+  tiers: TierPerformance
+  streaks: ReturnType<typeof analyzeWinStreaks>
+  avgPips: number
+  bestPips: number
+  worstPips: number
+}
+
+export interface HistoryReport {
+  filter: HistoryFilter
+  rows: HistoryRow[]           // newest first
+  stats: HistoryStats
+}
+
+const PIPS_PER_DOLLAR = 10
+
+export function filterJournal(entries: JournalSignal[], filter: HistoryFilter): JournalSignal[] {
+  // XAUUSD, gold and XAU/USD are the same series
+  const symbol = filter.symbol ? normalizeSymbol(filter.symbol).toUpperCase() : undefined
+  return entries.filter(e =>
+    (!symbol || normalizeSymbol(e.symbol).toUpperCase() === symbol) &&
+    (!filter.interval || e.interval === filter.interval) &&
+    (!filter.action || e.action === filter.action) &&
+    (!filter.tier || e.tier === filter.tier) &&
+    (filter.from === undefined || e.barTime >= filter.from) &&
+    (filter.to === undefined || e.barTime <= filter.to)
+  )
+}
+
+function toRow(entry: JournalSignal): HistoryRow {
+  const outcome = entry.outcome
+  const status: OutcomeStatus = outcome?.status ?? 'PENDING'
+  const dir = entry.action === 'BUY' ? 1 : -1
+  const pnl = outcome?.pnl ?? null
+
+  let pips: number | null = null
+  if (status === 'CLOSED' && outcome?.fillPrice != null && outcome.exitPrice != null) {
+    pips = Math.round((outcome.exitPrice - outcome.fillPrice) * dir * PIPS_PER_DOLLAR * 10) / 10
+  }
+
+  let result: HistoryResult
+  if (status === 'CLOSED') result = pnl === null || pnl === 0 ? 'BREAKEVEN' : pnl > 0 ? 'WIN' : 'LOSS'
+  else result = status
+
+  return {
+    id: entry.id,
+    barTime: entry.barTime,
+    symbol: entry.symbol,
+    interval: entry.interval,
+    action: entry.action,
+    tier: entry.tier,
+    confidence: entry.confidence,
+    entry: entry.entry,
+    stopLoss: entry.stopLoss,
+    tp1: entry.tp1,
+    tp2: entry.tp2,
+    tp3: entry.tp3,
+    status,
+    result,
+    fillPrice: outcome?.fillPrice ?? null,
+    exitPrice: outcome?.exitPrice ?? null,
+    exitTime: outcome?.exitTime ?? null,
+    exitReason: outcome?.exitReason ?? null,
+    targetsHit: outcome?.targetsHit ?? 0,
+    pnl,
+    pips,
+    seenCount: entry.seenCount
+  }
+}
+
+/**
+ * Filter the journal and compute the History page statistics from the outcomes
+ * that are actually on record — nothing here is estimated or back-filled.
+ */
+export function buildHistoryReport(entries: JournalSignal[], filter: HistoryFilter = {}): HistoryReport {
+  const selected = filterJournal(entries, filter)
+  const rows = selected.map(toRow).sort((a, b) => b.barTime - a.barTime)
+  const trades = journalToTrades(selected)
+  const closedPips = rows.filter(r => r.pips !== null).map(r => r.pips as number)
+
+  return {
+    filter,
+    rows,
+    stats: {
+      totalSignals: rows.length,
+      closed: rows.filter(r => r.status === 'CLOSED').length,
+      open: rows.filter(r => r.status === 'OPEN' || r.status === 'PENDING').length,
+      noFill: rows.filter(r => r.status === 'NO_FILL').length,
+      metrics: calculatePerformanceMetrics(trades),
+      tiers: calculateTierPerformance(trades),
+      streaks: analyzeWinStreaks(trades),
+      avgPips: closedPips.length > 0 ? Math.round(closedPips.reduce((a, b) => a + b, 0) / closedPips.length * 10) / 10 : 0,
+      bestPips: closedPips.length > 0 ? Math.max(...closedPips) : 0,
+      worstPips: closedPips.length > 0 ? Math.min(...closedPips) : 0
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CSV export
+// ─────────────────────────────────────────────────────────────────────────────
+const CSV_COLUMNS: (keyof HistoryRow)[] = [
+  'id', 'barTime', 'symbol', 'interval', 'action', 'tier', 'confidence',
+  'entry', 'stopLoss', 'tp1', 'tp2', 'tp3',
+  'status', 'result', 'fillPrice', 'exitPrice', 'exitTime', 'exitReason', 'targetsHit', 'pnl', 'pips', 'seenCount'
+]
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function isoTime(epochSeconds: number | null): string {
+  return epochSeconds === null ? '' : new Date(epochSeconds * 1000).toISOString()
+}
+
+/** One line per signal; times are exported as ISO-8601 UTC for spreadsheet audits. */
+export function historyToCsv(rows: HistoryRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')]
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(col => {
+      if (col === 'barTime' || col === 'exitTime') return csvCell(isoTime(row[col]))
+      return csvCell(row[col])
+    }).join(','))
+  }
+  return lines.join('\r\n') + '\r\n'
+}
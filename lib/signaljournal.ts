@@ -0,0 +1,252 @@
+// lib/signaljournal.ts — Persistent journal of every actionable signal /api/analyze produces
+import fs from 'fs'
+import path from 'path'
+import type { HybridSignal } from './hybridsignal'
+import type { DataProvider } from './twelvedata'
+import { intervalSeconds } from './providers'
+import type { SignalOutcome } from './outcomes'
+
+// Serverless deployments only allow writes under /tmp — point SIGNAL_JOURNAL_PATH there
+const JOURNAL_PATH = () => process.env.SIGNAL_JOURNAL_PATH || path.join(process.cwd(), 'data', 'signals.json')
+
+// A signal repeating within this many bars at a similar entry is the same setup
+const DEDUPE_BARS = 3
+const DEDUPE_ATR = 0.5
+
+// Entries kept in the journal file; older ones are rotated into the archive
+const MAX_ENTRIES = () => Number(process.env.SIGNAL_JOURNAL_MAX_ENTRIES) || 5000
+
+// Refresh counters on a reproduced setup reach disk at most this often
+const DEFERRED_SAVE_MS = 60_000
+
+export type SignalTier = 'PREMIUM' | 'STANDARD' | 'FILTERED'
+
+export interface SignalInputs {
+  price: number
+  rsi: number
+  macd: { macd: number; signal: number; histogram: number }
+  bbands: { upper: number; middle: number; lower: number }
+  atr: number
+  amd: { phase: string; bias: string; strength: number }
+  orderBlockIds: string[]
+  fvgIds: string[]
+  priceAction: { action: string; confidence: number; patterns: string[] }
+  mta?: { direction: string; strength: number; aligned: boolean }
+  newsRisk?: string
+  newsBias?: string
+}
+
+export interface JournalSignal {
+  id: string
+  timestamp: number            // ms, first time the setup was produced
+  lastSeenAt: number           // ms, latest refresh that reproduced it
+  seenCount: number
+  symbol: string
+  interval: string
+  barTime: number              // epoch seconds of the last candle the signal was built on
+  provider: { candles: DataProvider; quote: DataProvider }
+  action: 'BUY' | 'SELL'
+  confidence: number
+  tier: SignalTier
+  profile?: string             // strategy profile id; absent on entries recorded before profiles existed
+  entry: number
+  entryZone: [number, number]
+  entryType?: 'MARKET' | 'BREAKOUT' // absent on entries recorded before breakout entries existed
+  stopLoss: number
+  tp1: number
+  tp2: number
+  tp3: number
+  rr1: number
+  confluences: string[]
+  invalidation: string
+  inputs: SignalInputs
+  outcome?: SignalOutcome      // filled in by lib/outcomes.ts
+}
+
+export interface RecordSignalInput {
+  symbol: string
+  interval: string
+  barTime: number
+  provider: { candles: DataProvider; quote: DataProvider }
+  signal: HybridSignal
+  tier: SignalTier
+  profile?: string
+  inputs: SignalInputs
+}
+
+export interface RecordSignalResult {
+  entry: JournalSignal
+  duplicate: boolean
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsed journal shared by readers and the write queue while the file is unchanged
+let cache: { path: string; mtimeMs: number; entries: JournalSignal[] } | null = null
+let unsavedSince: number | null = null   // ms; deferred changes not yet on disk
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+export function loadJournal(): JournalSignal[] {
+  try {
+    const filePath = JOURNAL_PATH()
+    if (fs.existsSync(filePath)) {
+      const { mtimeMs } = fs.statSync(filePath)
+      if (cache && cache.path === filePath && cache.mtimeMs === mtimeMs) return cache.entries
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      cache = { path: filePath, mtimeMs, entries: Array.isArray(data) ? data : [] }
+      unsavedSince = null
+      return cache.entries
+    }
+  } catch (error) {
+    console.warn('[journal] load failed:', error)
+  }
+  return []
+}
+
+// Move the oldest entries past the cap to the NDJSON archive; the journal keeps the newest
+function rotateJournal(filePath: string, entries: JournalSignal[]): JournalSignal[] {
+  const overflow = entries.length - MAX_ENTRIES()
+  if (overflow <= 0) return entries
+  const archivePath = filePath.replace(/\.json$/, '') + '.archive.ndjson'
+  try {
+    fs.appendFileSync(archivePath, entries.slice(0, overflow).map(e => JSON.stringify(e)).join('\n') + '\n', 'utf-8')
+  } catch (error) {
+    console.warn('[journal] archive failed, keeping every entry:', error)
+    return entries
+  }
+  console.log(`[journal] Archived ${overflow} oldest signals to ${path.basename(archivePath)}`)
+  return entries.slice(overflow)
+}
+
+function saveJournal(entries: JournalSignal[]): boolean {
+  try {
+    const filePath = JOURNAL_PATH()
+    const dir = path.dirname(filePath)
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true })
+    }
+    const kept = rotateJournal(filePath, entries)
+    // Write to a temp file then rename so readers never see a half-written journal
+    const tmpPath = `${filePath}.${process.pid}.tmp`
+    fs.writeFileSync(tmpPath, JSON.stringify(kept, null, 2), 'utf-8')
+    fs.renameSync(tmpPath, filePath)
+    cache = { path: filePath, mtimeMs: fs.statSync(filePath).mtimeMs, entries: kept }
+    unsavedSince = null
+    return true
+  } catch (error) {
+    console.warn('[journal] save failed:', error)
+    return false
+  }
+}
+
+// NOW: rewrite the file. DEFERRED: keep the change in memory until the next write, or
+// until it is DEFERRED_SAVE_MS old (refresh counters). NONE: nothing changed.
+export type JournalWrite = 'NOW' | 'DEFERRED' | 'NONE'
+
+/**
+ * The only write path: load → mutate → save runs one update at a time, in call order,
+ * so concurrent requests never overwrite each other's changes.
+ * Resolves with the mutator's result and whether the journal is on disk.
+ */
+export function updateJournal<T>(mutate: (entries: JournalSignal[]) => { result: T; write: JournalWrite }): Promise<{ result: T; saved: boolean }> {
+  const run = writeQueue.then(() => {
+    const entries = loadJournal()
+    const { result, write } = mutate(entries)
+    const now = Date.now()
+
+    if (write === 'NONE') return { result, saved: true }
+    // Deferred changes live on the cached entries, which the next load returns while the file is unchanged
+    if (write === 'DEFERRED') {
+      unsavedSince ??= now
+      if (now - unsavedSince < DEFERRED_SAVE_MS) return { result, saved: true }
+    }
+    return { result, saved: saveJournal(entries) }
+  })
+  writeQueue = run.catch(() => undefined)
+  return run
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recording
+// ─────────────────────────────────────────────────────────────────────────────
+function findDuplicate(entries: JournalSignal[], input: RecordSignalInput): JournalSignal | undefined {
+  const window = DEDUPE_BARS * intervalSeconds(input.interval)
+  const tolerance = Math.max(input.inputs.atr * DEDUPE_ATR, 0.01)
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const e = entries[i]
+    if (input.barTime - e.barTime > window) break
+    if (
+      e.symbol === input.symbol &&
+      e.interval === input.interval &&
+      e.profile === input.profile &&
+      e.action === input.signal.action &&
+      Math.abs(e.entry - input.signal.entry) <= tolerance
+    ) {
+      return e
+    }
+  }
+  return undefined
+}
+
+/**
+ * Append a non-WAIT signal to the journal. A refresh that reproduces a recent setup
+ * (same symbol, interval and direction, entry within half an ATR, within 3 bars)
+ * only bumps lastSeenAt/seenCount on the original record; that bump is a deferred write.
+ * Resolves null for WAIT signals or when the journal can't be written.
+ */
+export async function recordSignal(input: RecordSignalInput): Promise<RecordSignalResult | null> {
+  const { signal } = input
+  const action = signal.action
+  if (action === 'WAIT') return null
+
+  const { result, saved } = await updateJournal<RecordSignalResult>(entries => {
+    const now = Date.now()
+
+    const existing = findDuplicate(entries, input)
+    if (existing) {
+      existing.lastSeenAt = now
+      existing.seenCount++
+      return { result: { entry: existing, duplicate: true }, write: 'DEFERRED' }
+    }
+
+    const baseId = `sig_${input.symbol.replace(/[^A-Za-z0-9]/g, '')}_${input.interval}_${input.barTime}_${action.toLowerCase()}`
+    const entry: JournalSignal = {
+      id: entries.some(e => e.id === baseId) ? `${baseId}_${entries.length}` : baseId,
+      timestamp: now,
+      lastSeenAt: now,
+      seenCount: 1,
+      symbol: input.symbol,
+      interval: input.interval,
+      barTime: input.barTime,
+      provider: input.provider,
+      action,
+      confidence: signal.confidence,
+      tier: input.tier,
+      profile: input.profile,
+      entry: signal.entry,
+      entryZone: signal.entryZone,
+      entryType: signal.entryType,
+      stopLoss: signal.stopLoss,
+      tp1: signal.tp1,
+      tp2: signal.tp2,
+      tp3: signal.tp3,
+      rr1: signal.rr1,
+      confluences: signal.confluences,
+      invalidation: signal.invalidation,
+      inputs: input.inputs
+    }
+
+    // Keep the journal ordered by bar time (dedupe scans from the end)
+    entries.push(entry)
+    entries.sort((a, b) => a.barTime - b.barTime || a.timestamp - b.timestamp)
+    return { result: { entry, duplicate: false }, write: 'NOW' }
+  })
+
+  if (!saved) return null
+  if (!result.duplicate) {
+    console.log(`[journal] Recorded ${result.entry.action} ${result.entry.symbol} @ ${result.entry.interval} (${result.entry.confidence}%, ${result.entry.tier})`)
+  }
+  return result
+}
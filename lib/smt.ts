@@ -0,0 +1,235 @@
+// lib/smt.ts — Smart-money (SMT) divergence between gold and correlated markets (silver, DXY proxy)
+import type { Candle, DataProvider } from './twelvedata'
+import { fetchCandlesWithProvider } from './twelvedata'
+import { intervalSeconds } from './providers'
+import type { Pattern } from './analysis'
+
+export interface SMTReferenceConfig {
+  id: 'XAG' | 'DXY'
+  symbol: string             // symbol fetched from the provider chain
+  asset: string              // name used in the macro correlation table
+  label: string              // short name for pattern descriptions
+  correlation: 'POSITIVE' | 'INVERSE'
+  invert: boolean            // price the fetched series as 1 / price
+}
+
+export interface SMTReference extends SMTReferenceConfig {
+  candles: Candle[]
+  provider: DataProvider
+}
+
+export interface MeasuredCorrelation {
+  asset: string
+  correlation: number        // Pearson correlation of bar-to-bar close returns
+  samples: number
+}
+
+// No free feed carries DXY itself; EUR/USD is ~58% of the index, so its inverse tracks it closely
+export const SMT_REFERENCES: SMTReferenceConfig[] = [
+  { id: 'XAG', symbol: 'XAG/USD', asset: 'Silver (XAG/USD)', label: 'silver', correlation: 'POSITIVE', invert: false },
+  { id: 'DXY', symbol: 'EUR/USD', asset: 'US Dollar Index (DXY)', label: 'DXY (1/EURUSD)', correlation: 'INVERSE', invert: true }
+]
+
+const SMT_LOOKBACK = 40      // aligned bars searched for the reference swing
+const PIVOT_SPAN = 3         // bars either side of a swing point
+const SMT_RECENT_BARS = 8    // the new extreme must be this fresh to matter
+const MIN_CORRELATION_SAMPLES = 20
+
+// Each reference costs one provider request. Divergences are read off closed swings, so a
+// reference is refetched at most every quarter bar (at least a minute), not on every
+// 20-second terminal refresh: on H1 that is 2 requests per 15 minutes instead of ~90.
+const REFERENCE_MIN_REFRESH_MS = 60_000
+const referenceCache = new Map<string, { reference: SMTReference; fetchedAt: number }>()
+
+const TIMEFRAME_LABELS: Record<string, string> = { '15min': 'M15', '1h': 'H1', '4h': 'H4', '1day': 'D1' }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reference data
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 1 / price, with highs and lows swapped so every bar stays well-formed. */
+export function invertCandles(candles: Candle[]): Candle[] {
+  return candles
+    .filter(c => c.low > 0)
+    .map(c => ({ time: c.time, open: 1 / c.open, high: 1 / c.low, low: 1 / c.high, close: 1 / c.close, volume: c.volume }))
+}
+
+/**
+ * Fetch every reference market for the gold interval, reusing a copy fetched within the
+ * last quarter bar; a reference that fails is left out (and retried on the next call).
+ */
+export async function fetchSMTReferences(interval: string, count: number): Promise<SMTReference[]> {
+  const maxAge = Math.max(REFERENCE_MIN_REFRESH_MS, intervalSeconds(interval) * 1000 / 4)
+  const results = await Promise.all(SMT_REFERENCES.map(async ref => {
+    const key = `${ref.id}:${interval}`
+    const cached = referenceCache.get(key)
+    if (cached && Date.now() - cached.fetchedAt <= maxAge && cached.reference.candles.length >= count) {
+      return { ...cached.reference, candles: cached.reference.candles.slice(-count) }
+    }
+    try {
+      const { candles, provider } = await fetchCandlesWithProvider(ref.symbol, interval, count)
+      const reference: SMTReference = { ...ref, candles: ref.invert ? invertCandles(candles) : candles, provider }
+      referenceCache.set(key, { reference, fetchedAt: Date.now() })
+      return reference
+    } catch (error) {
+      console.warn(`[smt] ${ref.symbol} fetch failed:`, error)
+      return null
+    }
+  }))
+  return results.filter((r): r is SMTReference => r !== null)
+}
+
+/**
+ * References that can be compared with gold from `goldProvider`. Synthetic bars
+ * against live gold would produce nothing but false divergences.
+ */
+export function usableReferences(references: SMTReference[], goldProvider: DataProvider): SMTReference[] {
+  return references.filter(ref => {
+    if (ref.provider !== 'synthetic' || goldProvider === 'synthetic') return true
+    console.warn(`[smt] ${ref.symbol} only available as synthetic data — skipped`)
+    return false
+  })
+}
+
+// Bars both series share, oldest first
+function alignSeries(gold: Candle[], reference: Candle[]): [Candle[], Candle[]] {
+  const byTime = new Map(reference.map(c => [c.time, c]))
+  const a: Candle[] = []
+  const b: Candle[] = []
+  for (const c of gold) {
+    const match = byTime.get(c.time)
+    if (match) {
+      a.push(c)
+      b.push(match)
+    }
+  }
+  return [a, b]
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Divergence detection
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Index of the most recent gold swing that has fresh bars after it
+function lastPivot(candles: Candle[], side: 'HIGH' | 'LOW'): number {
+  for (let i = candles.length - 1 - PIVOT_SPAN; i >= PIVOT_SPAN; i--) {
+    const value = side === 'HIGH' ? candles[i].high : candles[i].low
+    let pivot = true
+    for (let j = i - PIVOT_SPAN; j <= i + PIVOT_SPAN && pivot; j++) {
+      if (j === i) continue
+      const other = side === 'HIGH' ? candles[j].high : candles[j].low
+      if (side === 'HIGH' ? other >= value : other <= value) pivot = false
+    }
+    if (pivot) return i
+  }
+  return -1
+}
+
+// Extreme of one side over [from, to], with its index
+function extreme(candles: Candle[], side: 'HIGH' | 'LOW', from: number, to: number): { price: number; index: number } {
+  let best = { price: side === 'HIGH' ? -Infinity : Infinity, index: from }
+  for (let i = Math.max(0, from); i <= to; i++) {
+    const value = side === 'HIGH' ? candles[i].high : candles[i].low
+    if (side === 'HIGH' ? value > best.price : value < best.price) best = { price: value, index: i }
+  }
+  return best
+}
+
+function describeSwing(side: 'HIGH' | 'LOW', broke: boolean): string {
+  if (side === 'LOW') return broke ? 'a lower low' : 'a higher low'
+  return broke ? 'a higher high' : 'a lower high'
+}
+
+// Inverse references are compared through their mirror image: the dollar's high is gold's low
+function checkSide(gold: Candle[], reference: Candle[], ref: SMTReference, side: 'HIGH' | 'LOW', timeframe: string): Pattern | null {
+  const pivot = lastPivot(gold, side)
+  if (pivot < 0) return null
+
+  const last = gold.length - 1
+  const refSide = ref.correlation === 'INVERSE' ? (side === 'HIGH' ? 'LOW' : 'HIGH') : side
+  const beyond = (a: number, b: number, s: 'HIGH' | 'LOW') => s === 'HIGH' ? a > b : a < b
+
+  // Prior swing vs. everything traded since, for both markets over the same bars
+  const goldPrior = extreme(gold, side, pivot - PIVOT_SPAN, pivot + PIVOT_SPAN)
+  const goldNew = extreme(gold, side, pivot + PIVOT_SPAN + 1, last)
+  const refPrior = extreme(reference, refSide, pivot - PIVOT_SPAN, pivot + PIVOT_SPAN)
+  const refNew = extreme(reference, refSide, pivot + PIVOT_SPAN + 1, last)
+
+  const goldBroke = beyond(goldNew.price, goldPrior.price, side)
+  const refBroke = beyond(refNew.price, refPrior.price, refSide)
+  if (goldBroke === refBroke) return null
+
+  // Only a sweep that just happened is tradeable
+  const sweepIndex = goldBroke ? goldNew.index : refNew.index
+  if (last - sweepIndex >= SMT_RECENT_BARS) return null
+
+  const direction = side === 'LOW' ? 'BULLISH' : 'BEARISH'
+  return {
+    type: 'SMT_DIVERGENCE',
+    direction,
+    timeframe,
+    // Gold holding while the reference sweeps is the stronger read: gold is the relative-strength leader
+    confidence: goldBroke ? 70 : 75,
+    price: goldBroke ? goldNew.price : goldPrior.price,
+    description: `SMT vs ${ref.label}: gold made ${describeSwing(side, goldBroke)} while ${ref.label} made ${describeSwing(refSide, refBroke)} — ${direction.toLowerCase()} divergence`
+  }
+}
+
+/**
+ * Compare gold's latest swing high and low with each reference market over the
+ * same bars. Exactly one of the pair taking out its prior swing is an SMT
+ * divergence: at lows it is bullish for gold, at highs bearish.
+ */
+export function detectSMTDivergences(gold: Candle[], references: SMTReference[], interval: string): Pattern[] {
+  const timeframe = TIMEFRAME_LABELS[interval] ?? interval
+  const patterns: Pattern[] = []
+
+  for (const ref of references) {
+    const [g, r] = alignSeries(gold.slice(-SMT_LOOKBACK * 2), ref.candles)
+    const goldBars = g.slice(-SMT_LOOKBACK)
+    const refBars = r.slice(-SMT_LOOKBACK)
+    if (goldBars.length < PIVOT_SPAN * 2 + 2) continue
+
+    for (const side of ['LOW', 'HIGH'] as const) {
+      const pattern = checkSide(goldBars, refBars, ref, side, timeframe)
+      if (pattern) patterns.push(pattern)
+    }
+  }
+
+  return patterns
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Correlation
+// ─────────────────────────────────────────────────────────────────────────────
+
+function returns(candles: Candle[]): number[] {
+  const out: number[] = []
+  for (let i = 1; i < candles.length; i++) out.push(candles[i].close / candles[i - 1].close - 1)
+  return out
+}
+
+function pearson(a: number[], b: number[]): number {
+  const n = a.length
+  const meanA = a.reduce((s, v) => s + v, 0) / n
+  const meanB = b.reduce((s, v) => s + v, 0) / n
+  let cov = 0
+  let varA = 0
+  let varB = 0
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB)
+    varA += (a[i] - meanA) ** 2
+    varB += (b[i] - meanB) ** 2
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0
+}
+
+/** Return correlation of gold against each reference over their shared bars. */
+export function measureCorrelations(gold: Candle[], references: SMTReference[]): MeasuredCorrelation[] {
+  return references.flatMap(ref => {
+    const [g, r] = alignSeries(gold, ref.candles)
+    if (g.length < MIN_CORRELATION_SAMPLES) return []
+    const correlation = pearson(returns(g), returns(r))
+    return [{ asset: ref.asset, correlation: Math.round(correlation * 100) / 100, samples: g.length - 1 }]
+  })
+}
@@ -0,0 +1,45 @@
+// lib/strategyparams.ts — Tunable thresholds for buildSignal and generatePriceActionSignal
+
+export interface StrategyParams {
+  // ICT signal (buildSignal)
+  rsiOversold: number          // BUY below this RSI
+  rsiOverbought: number        // SELL above this RSI
+  rsiMomentumBand: number      // width of the MACD-confirmed band next to each extreme
+  stopAtr: number              // stop distance in ATR
+  targetMultiples: [number, number, number] // TP1–TP3 as multiples of the stop distance
+  entryZoneAtr: number         // fallback entry zone half-width, and the OTE zone's minimum gap to the stop, in ATR
+
+  // Price action signal (generatePriceActionSignal)
+  paMinConfidence: number      // minimum pattern score to act
+  paStopAtr: number
+  paTarget1Atr: number
+  paTarget2Atr: number
+}
+
+export const DEFAULT_STRATEGY_PARAMS: StrategyParams = {
+  rsiOversold: 30,
+  rsiOverbought: 70,
+  rsiMomentumBand: 10,
+  stopAtr: 1.5,
+  targetMultiples: [2, 3, 4],
+  entryZoneAtr: 0.5,
+  paMinConfidence: 65,
+  paStopAtr: 1.5,
+  paTarget1Atr: 2,
+  paTarget2Atr: 3.5
+}
+
+/** Fill unspecified fields from the defaults. */
+export function resolveStrategyParams(overrides: Partial<StrategyParams> = {}): StrategyParams {
+  return { ...DEFAULT_STRATEGY_PARAMS, ...overrides }
+}
+
+/** Short label for reports, e.g. "rsi 25/75 · sl 1.5atr · tp 2/3/4R · pa≥65". */
+export function describeStrategyParams(params: StrategyParams): string {
+  return [
+    `rsi ${params.rsiOversold}/${params.rsiOverbought}`,
+    `sl ${params.stopAtr}atr`,
+    `tp ${params.targetMultiples.join('/')}R`,
+    `pa≥${params.paMinConfidence}`
+  ].join(' · ')
+}
@@ -0,0 +1,139 @@
+// lib/strategyprofiles.ts — Named strategy profiles: signal blend weights, confidence nudges, gates and thresholds
+import { resolveStrategyParams, type StrategyParams } from './strategyparams'
+
+export type SignalSources = 'HYBRID' | 'ICT' | 'PA'
+
+// How combineSignals weighs the ICT and price action signals
+export interface SignalBlend {
+  sources: SignalSources       // ICT / PA: only that engine decides; the other is reported but ignored
+  ictWeight: number            // both agree: confidence = ict × ictWeight + pa × paWeight
+  paWeight: number
+  ictAloneFactor: number       // only ICT acts: its confidence × this
+  paAloneFactor: number        // only PA acts: its confidence × this
+  conflictFactor: number       // they disagree: WAIT at the lower confidence × this
+}
+
+// Confidence points added or removed by /api/analyze after the blend
+export interface ConfidenceAdjustments {
+  mtaAligned: number           // higher timeframes agree
+  mtaOpposed: number           // higher timeframes lean the other way
+  wideSpread: number           // GoldAPI spread flagged WIDE
+  weeklyExtreme: number        // BUY near the weekly high / SELL near the weekly low
+  weeklyExtremePct: number     // "near" = above this % of the weekly range (below 100 − this for SELL)
+  newsAligned: number          // news bias agrees with the signal
+  newsOpposed: number          // news bias conflicts with the signal
+}
+
+// Conditions that turn an actionable signal into WAIT
+export interface SignalGates {
+  minConfidence: number        // after all adjustments; 0 disables
+  blockHighImpactNews: boolean // high-impact news imminent
+  requireMtaAlignment: boolean // higher timeframes must be aligned with the signal
+  tradeWindowsOnly: boolean    // only inside the session calendar's trade windows
+}
+
+export interface StrategyProfile {
+  id: string
+  name: string
+  description: string
+  interval?: string            // chart interval used when the request doesn't name one
+  blend: SignalBlend
+  adjustments: ConfidenceAdjustments
+  gates: SignalGates
+  params: Partial<StrategyParams> // threshold overrides; unspecified fields use the defaults
+}
+
+export const DEFAULT_SIGNAL_BLEND: SignalBlend = {
+  sources: 'HYBRID',
+  ictWeight: 0.6,
+  paWeight: 0.4,
+  ictAloneFactor: 1,
+  paAloneFactor: 0.8,
+  conflictFactor: 0.5
+}
+
+const DEFAULT_ADJUSTMENTS: ConfidenceAdjustments = {
+  mtaAligned: 8,
+  mtaOpposed: 12,
+  wideSpread: 10,
+  weeklyExtreme: 8,
+  weeklyExtremePct: 80,
+  newsAligned: 10,
+  newsOpposed: 15
+}
+
+const DEFAULT_GATES: SignalGates = {
+  minConfidence: 0,
+  blockHighImpactNews: true,
+  requireMtaAlignment: false,
+  tradeWindowsOnly: false
+}
+
+export const DEFAULT_PROFILE_ID = 'hybrid'
+
+export const STRATEGY_PROFILES: Record<string, StrategyProfile> = {
+  hybrid: {
+    id: 'hybrid',
+    name: 'Hybrid',
+    description: 'ICT and price action blended 60/40; the default',
+    blend: DEFAULT_SIGNAL_BLEND,
+    adjustments: DEFAULT_ADJUSTMENTS,
+    gates: DEFAULT_GATES,
+    params: {}
+  },
+  'ict-only': {
+    id: 'ict-only',
+    name: 'ICT only',
+    description: 'Smart-money signal alone; price action patterns are listed but never vote',
+    blend: { ...DEFAULT_SIGNAL_BLEND, sources: 'ICT' },
+    adjustments: DEFAULT_ADJUSTMENTS,
+    gates: DEFAULT_GATES,
+    params: {}
+  },
+  'pa-only': {
+    id: 'pa-only',
+    name: 'PA only',
+    description: 'Candlestick and chart-pattern signal alone, at full confidence',
+    blend: { ...DEFAULT_SIGNAL_BLEND, sources: 'PA', paAloneFactor: 1 },
+    adjustments: DEFAULT_ADJUSTMENTS,
+    gates: DEFAULT_GATES,
+    params: {}
+  },
+  'hybrid-conservative': {
+    id: 'hybrid-conservative',
+    name: 'Hybrid conservative',
+    description: 'Trades only in the trade windows, with the higher timeframes, at 60%+; wider stops and heavier penalties',
+    blend: { ...DEFAULT_SIGNAL_BLEND, ictAloneFactor: 0.9, paAloneFactor: 0.6, conflictFactor: 0.3 },
+    adjustments: { mtaAligned: 5, mtaOpposed: 20, wideSpread: 15, weeklyExtreme: 12, weeklyExtremePct: 75, newsAligned: 5, newsOpposed: 25 },
+    gates: { minConfidence: 60, blockHighImpactNews: true, requireMtaAlignment: true, tradeWindowsOnly: true },
+    params: { stopAtr: 2, paStopAtr: 2, paMinConfidence: 75 }
+  },
+  'scalper-m15': {
+    id: 'scalper-m15',
+    name: 'Scalper M15',
+    description: 'M15 entries inside the trade windows with tight stops; spread weighs more, higher timeframes less',
+    interval: '15min',
+    blend: { ...DEFAULT_SIGNAL_BLEND, ictWeight: 0.5, paWeight: 0.5, paAloneFactor: 0.9 },
+    adjustments: { mtaAligned: 4, mtaOpposed: 6, wideSpread: 20, weeklyExtreme: 4, weeklyExtremePct: 90, newsAligned: 5, newsOpposed: 10 },
+    gates: { minConfidence: 55, blockHighImpactNews: true, requireMtaAlignment: false, tradeWindowsOnly: true },
+    params: {
+      stopAtr: 1, targetMultiples: [1.5, 2.5, 3.5], entryZoneAtr: 0.3,
+      paMinConfidence: 60, paStopAtr: 1, paTarget1Atr: 1.5, paTarget2Atr: 2.5
+    }
+  }
+}
+
+/** Look up a profile by id; undefined or empty means the default. Throws on unknown ids. */
+export function resolveStrategyProfile(id?: unknown): StrategyProfile {
+  if (id === undefined || id === null || id === '') return STRATEGY_PROFILES[DEFAULT_PROFILE_ID]
+  const key = typeof id === 'string' ? id.trim().toLowerCase() : ''
+  // Own keys only: "constructor" or "tostring" must not resolve to Object.prototype members
+  const profile = Object.hasOwn(STRATEGY_PROFILES, key) ? STRATEGY_PROFILES[key] : undefined
+  if (!profile) throw new Error(`Unknown profile ${String(id)} — expected one of ${Object.keys(STRATEGY_PROFILES).join(', ')}`)
+  return profile
+}
+
+/** The profile's thresholds with the defaults filled in. */
+export function profileParams(profile: StrategyProfile): StrategyParams {
+  return resolveStrategyParams(profile.params)
+}
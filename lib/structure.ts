@@ -0,0 +1,117 @@
+// lib/structure.ts — Market-structure map: labelled swing points, internal vs swing degree, BOS/CHoCH sequence
+import type { Candle } from './twelvedata'
+
+export type StructureDegree = 'INTERNAL' | 'SWING'
+export type SwingLabel = 'HH' | 'HL' | 'LH' | 'LL'
+export type StructureTrend = 'BULLISH' | 'BEARISH' | 'NEUTRAL'
+
+export interface StructurePoint {
+  type: 'HIGH' | 'LOW'
+  price: number
+  time: number                 // bar of the swing extreme
+  confirmedAt: number          // bar that completed the fractal
+  label: SwingLabel | null     // vs the previous swing of the same type; null for the first one
+  degree: StructureDegree
+}
+
+export interface StructureEvent {
+  type: 'BOS' | 'CHoCH'
+  direction: 'BULLISH' | 'BEARISH'
+  degree: StructureDegree
+  level: number                // price of the swing point that was broken
+  swingTime: number            // time of that swing point
+  time: number                 // bar whose close confirmed the break
+  close: number
+}
+
+export interface StructureDegreeMap {
+  degree: StructureDegree
+  trend: StructureTrend        // direction of the latest break
+  points: StructurePoint[]     // chronological by confirmation
+  events: StructureEvent[]     // chronological
+}
+
+export interface MarketStructure {
+  swing: StructureDegreeMap    // external structure: 5-bar fractals, same as the dealing range swings
+  internal: StructureDegreeMap // internal structure: 2-bar fractals inside the swing legs
+}
+
+const SWING_SPAN = 5
+const INTERNAL_SPAN = 2
+
+function isPivot(candles: Candle[], i: number, span: number, side: 'HIGH' | 'LOW'): boolean {
+  const value = side === 'HIGH' ? candles[i].high : candles[i].low
+  for (let j = i - span; j <= i + span; j++) {
+    if (j === i) continue
+    const other = side === 'HIGH' ? candles[j].high : candles[j].low
+    if (side === 'HIGH' ? other >= value : other <= value) return false
+  }
+  return true
+}
+
+function labelPoint(type: 'HIGH' | 'LOW', price: number, previous: StructurePoint | null): SwingLabel | null {
+  if (!previous) return null
+  if (type === 'HIGH') return price > previous.price ? 'HH' : 'LH'
+  return price < previous.price ? 'LL' : 'HL'
+}
+
+/**
+ * Walk the bars in order, as they would have printed. A swing is only known once
+ * its fractal completes, and a break needs a candle *close* beyond the most recent
+ * unbroken swing — wicks through it are liquidity grabs, not structure. The first
+ * break against the prevailing trend is a CHoCH; breaks with it are BOS.
+ */
+function mapDegree(candles: Candle[], span: number, degree: StructureDegree): StructureDegreeMap {
+  const points: StructurePoint[] = []
+  const events: StructureEvent[] = []
+  let trend: StructureTrend = 'NEUTRAL'
+  let lastHigh: StructurePoint | null = null
+  let lastLow: StructurePoint | null = null
+  let openHigh: StructurePoint | null = null
+  let openLow: StructurePoint | null = null
+
+  for (let i = 0; i < candles.length; i++) {
+    const c = candles[i]
+    const pivot = i - span
+
+    if (pivot >= span) {
+      const bar = candles[pivot]
+      if (isPivot(candles, pivot, span, 'HIGH')) {
+        const point: StructurePoint = { type: 'HIGH', price: bar.high, time: bar.time, confirmedAt: c.time, label: labelPoint('HIGH', bar.high, lastHigh), degree }
+        points.push(point)
+        lastHigh = openHigh = point
+      }
+      if (isPivot(candles, pivot, span, 'LOW')) {
+        const point: StructurePoint = { type: 'LOW', price: bar.low, time: bar.time, confirmedAt: c.time, label: labelPoint('LOW', bar.low, lastLow), degree }
+        points.push(point)
+        lastLow = openLow = point
+      }
+    }
+
+    if (openHigh && c.close > openHigh.price) {
+      events.push({ type: trend === 'BEARISH' ? 'CHoCH' : 'BOS', direction: 'BULLISH', degree, level: openHigh.price, swingTime: openHigh.time, time: c.time, close: c.close })
+      trend = 'BULLISH'
+      openHigh = null
+    }
+    if (openLow && c.close < openLow.price) {
+      events.push({ type: trend === 'BULLISH' ? 'CHoCH' : 'BOS', direction: 'BEARISH', degree, level: openLow.price, swingTime: openLow.time, time: c.time, close: c.close })
+      trend = 'BEARISH'
+      openLow = null
+    }
+  }
+
+  return { degree, trend, points, events }
+}
+
+/** Swing (external) and internal structure of the series, each with its own trend and break sequence. */
+export function analyzeStructure(candles: Candle[]): MarketStructure {
+  return {
+    swing: mapDegree(candles, SWING_SPAN, 'SWING'),
+    internal: mapDegree(candles, INTERNAL_SPAN, 'INTERNAL')
+  }
+}
+
+/** Both degrees' breaks merged in the order they were confirmed. */
+export function structureEvents(structure: MarketStructure): StructureEvent[] {
+  return [...structure.swing.events, ...structure.internal.events].sort((a, b) => a.time - b.time)
+}
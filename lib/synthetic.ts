@@ -0,0 +1,213 @@
+// lib/synthetic.ts — Seeded synthetic candle generator with market regimes (demo data + repeatable tests)
+import type { Candle } from './twelvedata'
+import { intervalSeconds } from './providers'
+
+export type SyntheticRegime = 'trending' | 'ranging' | 'news_spike' | 'london_sweep'
+
+export const SYNTHETIC_REGIMES: SyntheticRegime[] = ['trending', 'ranging', 'news_spike', 'london_sweep']
+
+export interface SyntheticOptions {
+  count: number
+  basePrice: number
+  interval: string
+  seed?: number | string
+  regime?: SyntheticRegime
+  // Open time of the last bar (epoch seconds). Defaults to the start of the current interval,
+  // so repeated calls inside one bar return identical data.
+  endTime?: number
+  // Trend / sweep direction; picked from the seed when omitted
+  direction?: 1 | -1
+  // Typical 1h move as a fraction of price (gold ≈ 0.0015)
+  hourlyVolatility?: number
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Seeded randomness
+// ─────────────────────────────────────────────────────────────────────────────
+function hashSeed(seed: number | string): number {
+  // FNV-1a over the string form so "42" and 42 give the same series
+  const text = String(seed)
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/** mulberry32: small, fast PRNG with a full 32-bit period. Returns values in [0, 1). */
+export function createRng(seed: number | string): () => number {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function gaussian(rng: () => number): number {
+  // Box-Muller; 1 - u keeps log() away from zero
+  const u = 1 - rng()
+  const v = rng()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Bar construction
+// ─────────────────────────────────────────────────────────────────────────────
+interface BarPlan {
+  close: number
+  volMult: number       // wick size and volume scale
+  forcedLow?: number    // sweep wicks
+  forcedHigh?: number
+}
+
+function makeBar(rng: () => number, time: number, open: number, plan: BarPlan, sigma: number, baseVolume: number): Candle {
+  const wick = sigma * plan.volMult * 0.5
+  const high = Math.max(open, plan.close, plan.forcedHigh ?? -Infinity) + Math.abs(gaussian(rng)) * wick
+  const low = Math.min(open, plan.close, plan.forcedLow ?? Infinity) - Math.abs(gaussian(rng)) * wick
+  const range = high - low
+  const volume = baseVolume * plan.volMult * (0.6 + 0.4 * range / Math.max(sigma, 1e-9)) * (0.8 + rng() * 0.4)
+  return {
+    time,
+    open: round(open),
+    high: round(high),
+    low: round(low),
+    close: round(plan.close),
+    volume: Math.round(volume)
+  }
+}
+
+function round(price: number): number {
+  return Math.round(price * 100) / 100
+}
+
+function utcHour(time: number): number {
+  return new Date(time * 1000).getUTCHours()
+}
+
+function utcDay(time: number): number {
+  return Math.floor(time / 86400)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Generator
+// ─────────────────────────────────────────────────────────────────────────────
+/**
+ * Generate reproducible OHLCV bars. The same options (including seed and endTime)
+ * always produce the same candles.
+ *
+ * - trending: steady drift with pullbacks
+ * - ranging: mean reversion around the base price
+ * - news_spike: ranging, then one 4–7σ bar with decaying follow-through volatility
+ * - london_sweep: tight Asian range, London wick through one side of it, NY expansion the other way
+ *   (intraday intervals only; daily bars fall back to trending)
+ */
+export function generateSyntheticCandles(options: SyntheticOptions): Candle[] {
+  const { count, basePrice, interval } = options
+  const regime = options.regime ?? 'ranging'
+  const step = intervalSeconds(interval)
+  const rng = createRng(options.seed ?? 1)
+  const endTime = options.endTime ?? Math.floor(Date.now() / 1000 / step) * step
+
+  // Per-bar sigma scales with √time; volume with bar length
+  const sigma = basePrice * (options.hourlyVolatility ?? 0.0015) * Math.sqrt(step / 3600)
+  const baseVolume = 1000 * step / 3600
+  const direction = options.direction ?? (rng() < 0.5 ? -1 : 1)
+  const sessionAware = regime === 'london_sweep' && step < 86400
+  const effective: SyntheticRegime = regime === 'london_sweep' && !sessionAware ? 'trending' : regime
+
+  const spikeAt = effective === 'news_spike' ? Math.floor(count * (0.7 + rng() * 0.2)) : -1
+  const spikeDir = rng() < 0.5 ? -1 : 1
+
+  const candles: Candle[] = []
+  let price = basePrice
+  let anchor = basePrice
+
+  // london_sweep day state
+  let day = -1
+  let dayDir: 1 | -1 = direction
+  let asiaHigh = -Infinity
+  let asiaLow = Infinity
+  let swept = false
+
+  for (let i = 0; i < count; i++) {
+    const time = endTime - (count - 1 - i) * step
+    const open = price
+    let plan: BarPlan
+
+    switch (effective) {
+      case 'trending': {
+        const pullback = Math.sin(i / 9) > 0.75 ? -0.6 : 1
+        plan = { close: open + direction * sigma * 0.25 * pullback + gaussian(rng) * sigma * 0.8, volMult: 1 }
+        break
+      }
+
+      case 'ranging': {
+        plan = { close: open + (anchor - open) * 0.15 + gaussian(rng) * sigma * 0.8, volMult: 1 }
+        break
+      }
+
+      case 'news_spike': {
+        if (i === spikeAt) {
+          const move = spikeDir * sigma * (4 + rng() * 3)
+          plan = { close: open + move, volMult: 5 }
+          // Price settles at roughly half the spike
+          anchor = open + move * 0.5
+        } else {
+          const since = i - spikeAt
+          const volMult = spikeAt >= 0 && since > 0 ? 1 + 3 * Math.exp(-since / 4) : 1
+          plan = { close: open + (anchor - open) * 0.15 + gaussian(rng) * sigma * 0.8 * volMult, volMult }
+        }
+        break
+      }
+
+      case 'london_sweep': {
+        const d = utcDay(time)
+        const hour = utcHour(time)
+        if (d !== day) {
+          day = d
+          dayDir = rng() < 0.5 ? -1 : 1
+          asiaHigh = -Infinity
+          asiaLow = Infinity
+          swept = false
+          anchor = open
+        }
+
+        if (hour < 7) {
+          // Accumulation: tight range around the day open
+          plan = { close: open + (anchor - open) * 0.3 + gaussian(rng) * sigma * 0.4, volMult: 0.6 }
+        } else if (hour < 10 && !swept && Number.isFinite(asiaLow)) {
+          // Manipulation: wick through the Asian extreme against the day direction, close back inside
+          swept = true
+          const overshoot = sigma * (0.5 + rng())
+          plan = dayDir === 1
+            ? { close: asiaLow + (asiaHigh - asiaLow) * 0.4, volMult: 2, forcedLow: asiaLow - overshoot }
+            : { close: asiaHigh - (asiaHigh - asiaLow) * 0.4, volMult: 2, forcedHigh: asiaHigh + overshoot }
+        } else if (hour < 20) {
+          // Distribution: expansion in the day direction through London and New York
+          plan = { close: open + dayDir * sigma * 0.45 + gaussian(rng) * sigma * 0.7, volMult: 1.3 }
+        } else {
+          plan = { close: open + gaussian(rng) * sigma * 0.4, volMult: 0.5 }
+        }
+        break
+      }
+    }
+
+    const bar = makeBar(rng, time, open, plan, sigma, baseVolume)
+    if (effective === 'london_sweep' && utcHour(time) < 7) {
+      asiaHigh = Math.max(asiaHigh, bar.high)
+      asiaLow = Math.min(asiaLow, bar.low)
+    }
+    candles.push(bar)
+    price = bar.close
+  }
+
+  return candles
+}
+
+export function isSyntheticRegime(value: unknown): value is SyntheticRegime {
+  return typeof value === 'string' && (SYNTHETIC_REGIMES as string[]).includes(value)
+}
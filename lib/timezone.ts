@@ -0,0 +1,71 @@
+// lib/timezone.ts — IANA time zone helpers (DST-aware, no dependencies)
+
+export interface WallTime {
+  year: number
+  month: number   // 1-12
+  day: number
+  hour: number
+  minute: number
+  second?: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone)
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+      weekday: 'short'
+    })
+    formatters.set(timeZone, fmt)
+  }
+  return fmt
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Wall-clock parts of an instant in `timeZone` (weekday: 0 = Sunday). */
+export function toZonedParts(epochMs: number, timeZone: string): Required<WallTime> & { weekday: number } {
+  const parts = getFormatter(timeZone).formatToParts(new Date(epochMs))
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '0'
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: weekdays.indexOf(get('weekday'))
+  }
+}
+
+/** UTC offset of `timeZone` at an instant, in minutes (e.g. New York in July → -240). */
+export function getTimeZoneOffsetMinutes(epochMs: number, timeZone: string): number {
+  const p = toZonedParts(epochMs, timeZone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return Math.round((asUtc - Math.floor(epochMs / 1000) * 1000) / 60_000)
+}
+
+/**
+ * Convert a wall-clock time in `timeZone` to epoch milliseconds.
+ * Ambiguous or skipped times around a DST change resolve to an adjacent valid instant.
+ */
+export function zonedTimeToUtc(wall: WallTime, timeZone: string): number {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second ?? 0)
+  // Two passes settle the offset across a DST boundary
+  let guess = asUtc - getTimeZoneOffsetMinutes(asUtc, timeZone) * 60_000
+  guess = asUtc - getTimeZoneOffsetMinutes(guess, timeZone) * 60_000
+  return guess
+}
@@ -1,26 +1,21 @@
-// lib/twelvedata.ts — Gold trading data with Twelve Data ONLY
+// lib/twelvedata.ts — Gold trading data: Twelve Data primary + provider fallback chain
+import {
+  registerProvider,
+  getProviderChain,
+  fetchJsonWithRetry,
+  normalizeSymbol,
+  isGoldSymbol,
+  parseSymbol,
+  quoteFromCandles,
+  intervalSeconds,
+  resampleCandles,
+  type MarketDataProvider
+} from './providers'
+import { readCandles, upsertCandles } from './candlestore'
+import { generateSyntheticCandles, isSyntheticRegime, type SyntheticRegime } from './synthetic'
 
 const TWELVEDATA_KEY = () => process.env.TWELVEDATA_API_KEY
 const TWELVEDATA_BASE = 'https://api.twelvedata.com'
-const PROVIDER_TIMEOUT_MS = clampInt(process.env.PROVIDER_TIMEOUT_MS, 4_500, 1_000, 20_000)
-const PROVIDER_MAX_RETRIES = clampInt(process.env.PROVIDER_MAX_RETRIES, 1, 0, 3)
-const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504])
-
-function clampInt(raw: string | undefined, fallback: number, min: number, max: number): number {
-  const parsed = Number.parseInt(raw ?? '', 10)
-  if (!Number.isFinite(parsed)) return fallback
-  if (parsed < min) return min
-  if (parsed > max) return max
-  return parsed
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Gold detection: Check if symbol is XAU/USD (gold commodity)
-// ─────────────────────────────────────────────────────────────────────────────
-function isGoldSymbol(symbol: string): boolean {
-  const normalized = normalizeSymbol(symbol)
-  return normalized === 'XAU/USD'
-}
 
 export interface Quote {
   symbol: string
@@ -43,25 +38,19 @@ export interface Candle {
   volume: number
 }
 
-export type DataProvider = 'twelvedata' | 'synthetic'
+// Intervals the terminal analyses and the candle store keeps
+export const ALLOWED_INTERVALS = new Set(['15min', '1h', '4h', '1day'])
+
+// 'store' marks candles served from the local store while every live provider is down
+export type DataProvider = 'twelvedata' | 'alphavantage' | 'finnhub' | 'marketstack' | 'synthetic' | 'store'
 
-interface CandleCacheEntry {
-  candles: Candle[]
+// Last live fetch per series; bars themselves live in the persistent candle store
+interface SeriesFetchEntry {
+  provider: DataProvider
   fetchedAt: number
 }
 
-const candleCache = new Map<string, CandleCacheEntry>()
-
-function normalizeSymbol(symbol: string): string {
-  const cleaned = (symbol ?? '').trim().toUpperCase().replace(/[-_\s]/g, '')
-  if (cleaned === 'GOLD' || cleaned === 'XAUUSD' || cleaned === 'XAUUS$') {
-    return 'XAU/USD'
-  }
-  if (cleaned === 'XAU/USD'.replace('/', '')) {
-    return 'XAU/USD'
-  }
-  return symbol?.includes('/') ? symbol.toUpperCase() : symbol
-}
+const seriesFetches = new Map<string, SeriesFetchEntry>()
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Twelve Data integration: Accurate gold spot prices + candles
@@ -85,7 +74,7 @@ async function fetchTwelveData(endpoint: string, params: Record<string, string>)
 
 async function fetchTwelveDataQuote(symbol: string): Promise<Quote> {
   const canonical = normalizeSymbol(symbol)
-  const [from = 'XAU', to = 'USD'] = canonical.split('/')
+  const { from, to } = parseSymbol(canonical)
   
   const data = await fetchTwelveData('quote', {
     symbol: `${from}/${to}`,
@@ -121,11 +110,7 @@ async function fetchTwelveDataQuote(symbol: string): Promise<Quote> {
 
 async function fetchTwelveDataCandles(symbol: string, interval: string, count: number): Promise<Candle[]> {
   const canonical = normalizeSymbol(symbol)
-  const [from = 'XAU', to = 'USD'] = canonical.split('/')
-  const cacheKey = `${canonical}:${interval}:${count}`
-  const cached = candleCache.get(cacheKey)
-  if (cached && Date.now() - cached.fetchedAt <= getCacheTtlMs(interval)) return cached.candles
-
+  const { from, to } = parseSymbol(canonical)
   const twelveDataInterval = interval === '15min' ? '15min' : interval === '1h' ? '1h' : interval === '4h' ? '4h' : '1day'
   
   const data = await fetchTwelveData('time_series', {
@@ -153,101 +138,26 @@ async function fetchTwelveDataCandles(symbol: string, interval: string, count: n
     throw new Error('Twelve Data API error: No candle data returned')
   }
 
-  candleCache.set(cacheKey, { candles: finalCandles, fetchedAt: Date.now() })
   return finalCandles
 }
 
-function getCacheTtlMs(interval: string): number {
-  // Reduced cache time for faster real-time updates
-  if (interval === '1day') return 2 * 60_000  // 2 minutes for daily
-  return 15_000  // 15 seconds for intraday (15min, 1h, 4h)
-}
-
-function parseSymbol(symbol: string): { from: string; to: string } {
-  const canonical = normalizeSymbol(symbol)
-  const [from = 'XAU', to = 'USD'] = canonical.split('/')
-  return { from, to }
+// Bars to request so the stored series reaches "now" (forming bar included)
+export function countMissingBars(lastStoredTime: number, interval: string, count: number): number {
+  const elapsed = Math.floor(Date.now() / 1000) - lastStoredTime
+  const missing = Math.ceil(elapsed / intervalSeconds(interval)) + 1
+  return Math.max(2, Math.min(count, missing))
 }
 
-// Helper functions for utilities (resampling, retry logic)
-
-// Removed: fetchFinnhubQuote() - using Twelve Data only
-
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
+function mergeCandles(stored: Candle[], fresh: Candle[]): Candle[] {
+  const byTime = new Map(stored.map(c => [c.time, c]))
+  fresh.forEach(c => byTime.set(c.time, c))
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time)
 }
 
-function isRetryableError(error: unknown): boolean {
-  if (error instanceof Error) {
-    if (error.name === 'AbortError') return true
-    if (error.message.includes('fetch failed')) return true
-    if (error.message.includes('network')) return true
-    for (const code of RETRYABLE_STATUS) {
-      if (error.message.includes(` ${code}`)) return true
-    }
-  }
-  return false
-}
-
-async function fetchJsonWithRetry(url: string): Promise<any> {
-  let lastError: unknown
-
-  for (let attempt = 0; attempt <= PROVIDER_MAX_RETRIES; attempt++) {
-    const controller = new AbortController()
-    const timeout = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS)
-
-    try {
-      const res = await fetch(url, { cache: 'no-store', signal: controller.signal })
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}`)
-      }
-      return await res.json()
-    } catch (error) {
-      lastError = error
-      const shouldRetry = attempt < PROVIDER_MAX_RETRIES && isRetryableError(error)
-      if (!shouldRetry) break
-      await sleep(150 * (attempt + 1))
-    } finally {
-      clearTimeout(timeout)
-    }
-  }
-
-  throw lastError instanceof Error ? lastError : new Error('Unknown provider fetch error')
-}
-
-// Removed: fetchAlpha(), fetchMarketstack(), fetchFinnhub() - using Twelve Data only
-
-// Removed: parseAlphaSeries(), resampleTo4h(), parseMarketstackRows(), parseFinnhubCandles() - using Twelve Data native interval support
-
-// Removed: fetchAlphaCandles(), fetchMarketstackCandles(), fetchFinnhubCandles() - using Twelve Data only
-
-function quoteFromCandles(symbol: string, candles: Candle[]): Quote {
-  const last = candles[candles.length - 1]
-  const prev = candles[candles.length - 2] ?? last
-  const highs = candles.map(c => c.high)
-  const lows = candles.map(c => c.low)
-  
-  // Use realistic fallback prices for gold
-  const isGold = isGoldSymbol(symbol)
-  const fallbackPrice = isGold ? 5180 : 2650
-  
-  const change = (last?.close ?? fallbackPrice) - (prev?.close ?? fallbackPrice)
-  const percentChange = prev?.close ? (change / prev.close) * 100 : 0
-
-  return {
-    symbol,
-    close: last?.close ?? fallbackPrice,
-    change,
-    percent_change: percentChange,
-    high: last?.high ?? (fallbackPrice + 20),
-    low: last?.low ?? (fallbackPrice - 20),
-    open: last?.open ?? fallbackPrice,
-    volume: last?.volume ?? 0,
-    fifty_two_week: {
-      low: lows.length ? Math.min(...lows) : (fallbackPrice - 200),
-      high: highs.length ? Math.max(...highs) : (fallbackPrice + 200)
-    }
-  }
+function getCacheTtlMs(interval: string): number {
+  // Reduced cache time for faster real-time updates
+  if (interval === '1day') return 2 * 60_000  // 2 minutes for daily
+  return 15_000  // 15 seconds for intraday (15min, 1h, 4h)
 }
 
 function sma(values: number[], period: number): number {
@@ -277,7 +187,7 @@ function emaSeries(values: number[], period: number): number[] {
   return result
 }
 
-function calculateRSI(candles: Candle[], period = 14): number {
+export function calculateRSI(candles: Candle[], period = 14): number {
   if (candles.length < period + 1) return 50
   let gains = 0
   let losses = 0
@@ -293,7 +203,7 @@ function calculateRSI(candles: Candle[], period = 14): number {
   return 100 - 100 / (1 + rs)
 }
 
-function calculateMACD(candles: Candle[]): { macd: number; signal: number; histogram: number } {
+export function calculateMACD(candles: Candle[]): { macd: number; signal: number; histogram: number } {
   const closes = candles.map(c => c.close)
   if (closes.length < 35) return { macd: 0, signal: 0, histogram: 0 }
   const ema12 = emaSeries(closes, 12)
@@ -305,7 +215,7 @@ function calculateMACD(candles: Candle[]): { macd: number; signal: number; histo
   return { macd, signal, histogram: macd - signal }
 }
 
-function calculateBBands(candles: Candle[]): { upper: number; middle: number; lower: number } {
+export function calculateBBands(candles: Candle[]): { upper: number; middle: number; lower: number } {
   const closes = candles.map(c => c.close)
   if (closes.length < 20) {
     const last = closes[closes.length - 1] ?? 5180
@@ -316,7 +226,7 @@ function calculateBBands(candles: Candle[]): { upper: number; middle: number; lo
   return { upper: middle + 2 * sd, middle, lower: middle - 2 * sd }
 }
 
-function calculateATR(candles: Candle[], period = 14): number {
+export function calculateATR(candles: Candle[], period = 14): number {
   if (candles.length < period + 1) return 15
   const trs: number[] = []
   for (let i = 1; i < candles.length; i++) {
@@ -329,24 +239,100 @@ function calculateATR(candles: Candle[], period = 14): number {
   return tail.reduce((sum, v) => sum + v, 0) / period
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Provider chain: first configured provider that succeeds serves the request
+// ─────────────────────────────────────────────────────────────────────────────
+const twelveDataProvider: MarketDataProvider = {
+  id: 'twelvedata',
+  isConfigured: () => !!TWELVEDATA_KEY(),
+  fetchQuote: fetchTwelveDataQuote,
+  fetchCandles: fetchTwelveDataCandles
+}
+
+// Demo data is seeded per symbol/interval so it stays stable between refreshes
+const SYNTHETIC_SEED = () => process.env.SYNTHETIC_SEED || 'pipnexus'
+const SYNTHETIC_REGIME = (): SyntheticRegime => {
+  const regime = process.env.SYNTHETIC_REGIME
+  return isSyntheticRegime(regime) ? regime : 'london_sweep'
+}
+
+// Demo data is one 15-minute series per symbol, cut and resampled for every interval and
+// the quote, so the quote and the last M15/H1/H4/D1 bars all end on the same price.
+// 210 days covers the longest request (200 daily bars).
+const SYNTHETIC_BASE_INTERVAL = '15min'
+const SYNTHETIC_BASE_BARS = 210 * 96
+const syntheticSeries = new Map<string, { endTime: number; candles: Candle[] }>()
+
+function syntheticBase(symbol: string, basePrice: number): Candle[] {
+  const step = intervalSeconds(SYNTHETIC_BASE_INTERVAL)
+  const endTime = Math.floor(Date.now() / 1000 / step) * step
+  const cached = syntheticSeries.get(symbol)
+  if (cached?.endTime === endTime) return cached.candles
+
+  const candles = generateSyntheticCandles({
+    count: SYNTHETIC_BASE_BARS,
+    basePrice,
+    interval: SYNTHETIC_BASE_INTERVAL,
+    seed: `${SYNTHETIC_SEED()}:${symbol}`,
+    regime: SYNTHETIC_REGIME(),
+    endTime
+  })
+  syntheticSeries.set(symbol, { endTime, candles })
+  return candles
+}
+
+function generateMockCandles(symbol: string, count: number, basePrice: number, interval: string): Candle[] {
+  const base = syntheticBase(symbol, basePrice)
+  const series = interval === SYNTHETIC_BASE_INTERVAL ? base.map(c => ({ ...c })) : resampleCandles(base, intervalSeconds(interval))
+  return series.slice(-count)
+}
+
+const syntheticProvider: MarketDataProvider = {
+  id: 'synthetic',
+  isConfigured: () => true,
+  async fetchQuote(symbol) {
+    const fallbackPrice = isGoldSymbol(symbol) ? 5180 : 2650
+    console.warn(`[synthetic] Using fallback price: ${fallbackPrice}`)
+    return quoteFromCandles(symbol, generateMockCandles(symbol, 260, fallbackPrice, '1h'))
+  },
+  async fetchCandles(symbol, interval, count) {
+    const fallbackPrice = isGoldSymbol(symbol) ? 5180 : 2650
+    console.warn(`[synthetic] Generating ${count} ${SYNTHETIC_REGIME()} candles at ${fallbackPrice}`)
+    return generateMockCandles(symbol, count, fallbackPrice, interval)
+  }
+}
+
+registerProvider(twelveDataProvider)
+registerProvider(syntheticProvider)
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// Every provider in MARKET_DATA_PROVIDERS failed (or none is configured); routes answer 503
+export class MarketDataUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MarketDataUnavailableError'
+  }
+}
+
 export async function fetchQuoteWithProvider(symbol: string): Promise<{ quote: Quote; provider: DataProvider }> {
   const canonical = normalizeSymbol(symbol)
+  const failures: string[] = []
 
-  // ✓ PRIMARY: Twelve Data (accurate real-time gold prices)
-  if (TWELVEDATA_KEY()) {
+  for (const provider of getProviderChain()) {
     try {
-      const quote = await fetchTwelveDataQuote(canonical)
-      console.log(`[twelvedata] Quote fetched: ${quote.close}`)
-      return { quote, provider: 'twelvedata' }
+      const quote = await provider.fetchQuote(canonical)
+      if (provider.id !== 'synthetic') console.log(`[${provider.id}] Quote fetched: ${quote.close}`)
+      return { quote, provider: provider.id }
     } catch (error) {
-      console.warn('[twelvedata] Quote failed, using synthetic fallback:', error)
+      failures.push(`${provider.id}: ${describeError(error)}`)
+      console.warn(`[${provider.id}] Quote failed, trying next provider:`, error)
     }
   }
 
-  // ✓ FALLBACK: Synthetic data with realistic gold prices
-  const fallbackPrice = isGoldSymbol(canonical) ? 5180 : 2650
-  console.warn(`[synthetic] Using fallback price: ${fallbackPrice}`)
-  return { quote: quoteFromCandles(canonical, generateMockCandles(260, fallbackPrice)), provider: 'synthetic' }
+  throw new MarketDataUnavailableError(`All market data providers failed for ${canonical} quote (${failures.join('; ') || 'none configured'})`)
 }
 
 export async function fetchQuote(symbol: string): Promise<Quote> {
@@ -356,24 +342,47 @@ export async function fetchQuote(symbol: string): Promise<Quote> {
 
 export async function fetchCandlesWithProvider(symbol: string, interval: string, count: number): Promise<{ candles: Candle[]; provider: DataProvider }> {
   const canonical = normalizeSymbol(symbol)
+  const seriesId = `${canonical}:${interval}`
+  const stored = readCandles(canonical, interval, { limit: count })
+  const lastFetch = seriesFetches.get(seriesId)
+  const hasHistory = stored.length >= count
+
+  if (hasHistory && lastFetch && Date.now() - lastFetch.fetchedAt <= getCacheTtlMs(interval)) {
+    return { candles: stored, provider: lastFetch.provider }
+  }
+
+  // With enough stored history only the tail since the last stored bar is fetched
+  const tailCount = hasHistory ? countMissingBars(stored[stored.length - 1].time, interval, count) : count
+  const failures: string[] = []
 
-  // ✓ PRIMARY: Twelve Data (accurate OHLCV candles for all intervals)
-  if (TWELVEDATA_KEY()) {
+  for (const provider of getProviderChain()) {
     try {
-      const candles = await fetchTwelveDataCandles(canonical, interval, count)
-      if (candles.length > 0) {
-        console.log(`[twelvedata] Fetched ${candles.length} candles for ${canonical} @ ${interval}`)
-        return { candles, provider: 'twelvedata' }
+      if (provider.id === 'synthetic') {
+        // Stored history is real data, so it beats demo bars
+        if (hasHistory) break
+        // Never mixed with (or written to) the store
+        return { candles: await provider.fetchCandles(canonical, interval, count), provider: provider.id }
       }
+
+      const candles = await provider.fetchCandles(canonical, interval, tailCount)
+      if (candles.length === 0) throw new Error('No candle data returned')
+      console.log(`[${provider.id}] Fetched ${candles.length} candles for ${canonical} @ ${interval}`)
+
+      upsertCandles(canonical, interval, candles)
+      seriesFetches.set(seriesId, { provider: provider.id, fetchedAt: Date.now() })
+      return { candles: mergeCandles(stored, candles).slice(-count), provider: provider.id }
     } catch (error) {
-      console.warn('[twelvedata] Candles failed, using synthetic fallback:', error)
+      failures.push(`${provider.id}: ${describeError(error)}`)
+      console.warn(`[${provider.id}] Candles failed, trying next provider:`, error)
     }
   }
 
-  // ✓ FALLBACK: Synthetic data with realistic gold prices
-  const fallbackPrice = isGoldSymbol(canonical) ? 5180 : 2650
-  console.warn(`[synthetic] Generating ${count} mock candles at ${fallbackPrice}`)
-  return { candles: generateMockCandles(count, fallbackPrice), provider: 'synthetic' }
+  if (hasHistory) {
+    console.warn(`[store] Live providers unavailable, serving ${stored.length} stored candles for ${canonical} @ ${interval}`)
+    return { candles: stored, provider: 'store' }
+  }
+
+  throw new MarketDataUnavailableError(`All market data providers failed for ${canonical} @ ${interval} (${failures.join('; ') || 'none configured'})`)
 }
 
 export async function fetchCandles(symbol: string, interval: string, count: number): Promise<Candle[]> {
@@ -419,28 +428,3 @@ export async function fetchATR(symbol: string, interval: string): Promise<number
     return 15
   }
 }
-
-function generateMockCandles(count: number, basePrice: number): Candle[] {
-  const candles: Candle[] = []
-  const now = Math.floor(Date.now() / 1000)
-  const interval = 3600 // 1 hour
-  
-  for (let i = count - 1; i >= 0; i--) {
-    const volatility = 20
-    const open = basePrice + (Math.random() - 0.5) * volatility
-    const close = open + (Math.random() - 0.5) * volatility / 2
-    const high = Math.max(open, close) + Math.random() * volatility / 3
-    const low = Math.min(open, close) - Math.random() * volatility / 3
-    
-    candles.push({
-      time: now - (i * interval),
-      open,
-      high,
-      low,
-      close,
-      volume: Math.random() * 1000
-    })
-  }
-  
-  return candles
-}
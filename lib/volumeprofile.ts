@@ -0,0 +1,247 @@
+// lib/volumeprofile.ts — Anchored VWAP with deviation bands and session volume profiles (POC / VAH / VAL)
+import type { Candle } from './twelvedata'
+import { intervalSeconds } from './providers'
+import { DEFAULT_SESSION_CALENDAR, getSessionRange, tradingDay, tradingWeek, type SessionCalendar, type SessionWindowId } from './sessions'
+
+export type VWAPAnchor = 'SESSION' | 'DAY' | 'WEEK' | 'CUSTOM'
+
+// Spot gold has no consolidated volume, and several feeds send 0. See barWeight.
+export type VolumeWeighting = 'VOLUME' | 'TICK_PROXY'
+
+export interface VWAPPoint {
+  time: number
+  vwap: number
+  upper1: number
+  lower1: number
+  upper2: number
+  lower2: number
+}
+
+export interface AnchoredVWAP {
+  anchor: VWAPAnchor
+  anchorTime: number           // epoch seconds of the first bar included
+  vwap: number
+  stdDev: number               // weight-adjusted deviation of typical price around the VWAP
+  upper1: number
+  lower1: number
+  upper2: number
+  lower2: number
+  series: VWAPPoint[]          // one point per bar since the anchor, for drawing
+}
+
+export interface ProfileBin {
+  price: number                // bin midpoint
+  weight: number
+}
+
+export interface VolumeProfile {
+  id: SessionWindowId | 'COMPOSITE'
+  label: string
+  start: number
+  end: number
+  complete: boolean
+  poc: number                  // point of control: the heaviest bin
+  vah: number                  // value area high
+  val: number                  // value area low
+  totalWeight: number
+  bins: ProfileBin[]
+}
+
+export interface VolumeContext {
+  weighting: VolumeWeighting
+  vwap: AnchoredVWAP[]
+  profiles: VolumeProfile[]    // latest Asia / London / New York (H1 and below), then the composite window
+}
+
+const TICK_SIZE = 0.01         // XAU/USD quotes in cents
+const VALUE_AREA = 0.7
+const PROFILE_BINS = 30
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Weighting
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Real volume only when most bars carry it — mixing volume and proxy weights
+ * within one series would skew every average.
+ */
+export function detectWeighting(candles: Candle[]): VolumeWeighting {
+  const withVolume = candles.filter(c => c.volume > 0).length
+  return withVolume >= candles.length / 2 && withVolume > 0 ? 'VOLUME' : 'TICK_PROXY'
+}
+
+/**
+ * Weight of one bar. The tick proxy is the shortest path price must have
+ * travelled inside the bar (open → nearer extreme → far extreme → close) counted
+ * in $0.01 ticks: every cent of that path printed at least one tick, so the count
+ * scales with activity the way broker tick volume does. Minimum one tick.
+ */
+export function barWeight(candle: Candle, weighting: VolumeWeighting): number {
+  if (weighting === 'VOLUME') return Math.max(candle.volume, 0)
+  const { open, high, low, close } = candle
+  const path = Math.min(
+    Math.abs(open - high) + (high - low) + Math.abs(close - low),
+    Math.abs(open - low) + (high - low) + Math.abs(high - close)
+  )
+  return Math.max(1, Math.round(path / TICK_SIZE))
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Anchored VWAP
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Index of the first bar at or after the anchor time
+function anchorIndex(candles: Candle[], anchorTime: number): number {
+  const i = candles.findIndex(c => c.time >= anchorTime)
+  return i < 0 ? candles.length : i
+}
+
+function periodStart(candles: Candle[], keyOf: (ms: number) => string): number {
+  const current = keyOf(candles[candles.length - 1].time * 1000)
+  let start = candles.length - 1
+  while (start > 0 && keyOf(candles[start - 1].time * 1000) === current) start--
+  return candles[start].time
+}
+
+// Start of whichever main session began most recently
+function sessionStart(candles: Candle[], calendar: SessionCalendar): number | null {
+  const starts = (['ASIA', 'LONDON', 'NEW_YORK'] as const)
+    .map(id => getSessionRange(candles, calendar.windows[id])?.start)
+    .filter((t): t is number => t !== undefined)
+  return starts.length > 0 ? Math.max(...starts) : null
+}
+
+/** Volume-weighted average of typical price from `anchorTime` to the last bar, with 1σ/2σ bands. */
+export function anchoredVWAP(candles: Candle[], anchor: VWAPAnchor, anchorTime: number, weighting: VolumeWeighting = detectWeighting(candles)): AnchoredVWAP | null {
+  const from = anchorIndex(candles, anchorTime)
+  if (from >= candles.length) return null
+
+  let sumW = 0
+  let sumWP = 0
+  let sumWP2 = 0
+  const series: VWAPPoint[] = []
+  for (let i = from; i < candles.length; i++) {
+    const c = candles[i]
+    const tp = (c.high + c.low + c.close) / 3
+    const w = barWeight(c, weighting)
+    sumW += w
+    sumWP += w * tp
+    sumWP2 += w * tp * tp
+    if (sumW === 0) continue
+    const vwap = sumWP / sumW
+    const sd = Math.sqrt(Math.max(0, sumWP2 / sumW - vwap * vwap))
+    series.push({ time: c.time, vwap, upper1: vwap + sd, lower1: vwap - sd, upper2: vwap + 2 * sd, lower2: vwap - 2 * sd })
+  }
+  if (series.length === 0) return null
+
+  const last = series[series.length - 1]
+  return {
+    anchor,
+    anchorTime: candles[from].time,
+    vwap: last.vwap,
+    stdDev: last.upper1 - last.vwap,
+    upper1: last.upper1,
+    lower1: last.lower1,
+    upper2: last.upper2,
+    lower2: last.lower2,
+    series
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Volume profile
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Distribute each bar's weight evenly over the price bins its range covers, then
+ * grow the value area from the POC towards the heavier neighbour until it holds
+ * 70% of the total.
+ */
+export function volumeProfile(
+  candles: Candle[],
+  meta: Pick<VolumeProfile, 'id' | 'label' | 'complete'>,
+  weighting: VolumeWeighting = detectWeighting(candles)
+): VolumeProfile | null {
+  if (candles.length === 0) return null
+  const low = Math.min(...candles.map(c => c.low))
+  const high = Math.max(...candles.map(c => c.high))
+  const size = Math.max(TICK_SIZE, (high - low) / PROFILE_BINS)
+  const count = Math.max(1, Math.ceil((high - low) / size))
+  const weights = new Array<number>(count).fill(0)
+
+  for (const c of candles) {
+    const first = Math.min(count - 1, Math.floor((c.low - low) / size))
+    const last = Math.min(count - 1, Math.floor((c.high - low) / size))
+    const share = barWeight(c, weighting) / (last - first + 1)
+    for (let b = first; b <= last; b++) weights[b] += share
+  }
+
+  const total = weights.reduce((a, b) => a + b, 0)
+  if (total === 0) return null
+  const pocIndex = weights.indexOf(Math.max(...weights))
+
+  let lo = pocIndex
+  let hi = pocIndex
+  let inArea = weights[pocIndex]
+  while (inArea < total * VALUE_AREA && (lo > 0 || hi < count - 1)) {
+    const below = lo > 0 ? weights[lo - 1] : -1
+    const above = hi < count - 1 ? weights[hi + 1] : -1
+    if (above >= below) inArea += weights[++hi]
+    else inArea += weights[--lo]
+  }
+
+  const mid = (b: number) => low + (b + 0.5) * size
+  return {
+    ...meta,
+    start: candles[0].time,
+    end: candles[candles.length - 1].time,
+    poc: mid(pocIndex),
+    vah: low + (hi + 1) * size,
+    val: low + lo * size,
+    totalWeight: Math.round(total),
+    bins: weights.map((weight, b) => ({ price: mid(b), weight: Math.round(weight) }))
+  }
+}
+
+/**
+ * Session, day and week VWAPs (plus a custom anchor when given) and profiles of
+ * the latest Asia, London and New York sessions plus the whole window. Session
+ * views need bars no longer than an hour.
+ */
+export function buildVolumeContext(
+  candles: Candle[],
+  interval: string,
+  calendar: SessionCalendar = DEFAULT_SESSION_CALENDAR,
+  customAnchor?: number
+): VolumeContext | null {
+  if (candles.length === 0) return null
+  const weighting = detectWeighting(candles)
+  const intraday = intervalSeconds(interval) <= 3600
+
+  const anchors: [VWAPAnchor, number | null][] = [
+    ['SESSION', intraday ? sessionStart(candles, calendar) : null],
+    ['DAY', intraday ? periodStart(candles, tradingDay) : null],
+    ['WEEK', periodStart(candles, tradingWeek)],
+    ['CUSTOM', customAnchor ?? null]
+  ]
+  const vwap = anchors
+    .filter(([, time]) => time !== null)
+    .map(([anchor, time]) => anchoredVWAP(candles, anchor, time as number, weighting))
+    .filter((v): v is AnchoredVWAP => v !== null)
+
+  const profiles: VolumeProfile[] = []
+  if (intraday) {
+    for (const id of ['ASIA', 'LONDON', 'NEW_YORK'] as const) {
+      const window = calendar.windows[id]
+      const range = getSessionRange(candles, window)
+      if (!range) continue
+      const bars = candles.filter(c => c.time >= range.start && c.time <= range.end)
+      const profile = volumeProfile(bars, { id, label: window.label, complete: range.complete }, weighting)
+      if (profile) profiles.push(profile)
+    }
+  }
+  const composite = volumeProfile(candles, { id: 'COMPOSITE', label: 'Composite', complete: false }, weighting)
+  if (composite) profiles.push(composite)
+
+  return { weighting, vwap, profiles }
+}
@@ -0,0 +1,178 @@
+// lib/walkforward.ts — Walk-forward optimization of strategy parameters
+import type { Candle } from './twelvedata'
+import { runBacktest, type BacktestConfig, type BacktestTrade } from './backtest'
+import { calculatePerformanceMetrics, type PerformanceMetrics } from './performance'
+import { resolveStrategyParams, describeStrategyParams, type StrategyParams } from './strategyparams'
+
+// Candidate values per parameter; omitted parameters stay at their defaults
+export type ParameterGrid = { [K in keyof StrategyParams]?: StrategyParams[K][] }
+
+export type WalkForwardObjective = 'expectancy' | 'profitFactor' | 'sharpeRatio' | 'totalPnl'
+
+export interface WalkForwardOptions {
+  interval: string
+  grid: ParameterGrid
+  inSampleBars: number
+  outOfSampleBars: number
+  stepBars?: number             // window advance (default: outOfSampleBars, so OOS segments don't overlap)
+  objective?: WalkForwardObjective
+  minTrades?: number            // in-sample runs with fewer trades are only chosen as a last resort (default 10)
+  maxCombinations?: number      // guard against runaway grids (default 200)
+  warmupBars?: number           // history prepended to every window for indicators (default 200)
+  backtest?: Omit<BacktestConfig, 'interval' | 'params' | 'warmupBars'>
+}
+
+export interface WalkForwardWindow {
+  index: number
+  inSample: { from: number; to: number }     // epoch seconds
+  outOfSample: { from: number; to: number }
+  params: StrategyParams
+  label: string
+  lowSample: boolean            // no combination reached minTrades in-sample
+  inSampleScore: number
+  outOfSampleScore: number
+  efficiency: number | null     // OOS score / IS score; well below 1 suggests overfitting
+  inSampleMetrics: PerformanceMetrics
+  outOfSampleMetrics: PerformanceMetrics
+}
+
+export interface ParameterStability {
+  param: keyof StrategyParams
+  value: string
+  selected: number              // windows that chose this value
+  share: number                 // 0-1
+}
+
+export interface WalkForwardReport {
+  objective: WalkForwardObjective
+  combinations: number
+  windows: WalkForwardWindow[]
+  outOfSample: PerformanceMetrics
+  trades: BacktestTrade[]       // stitched OOS trades, in time order
+  efficiency: number | null     // mean of per-window efficiencies
+  stability: ParameterStability[]
+}
+
+// Profit factor is Infinity with no losses; cap it so one lucky window can't dominate
+const MAX_SCORE = 100
+
+function score(metrics: PerformanceMetrics, objective: WalkForwardObjective): number {
+  const value = metrics[objective]
+  if (!Number.isFinite(value)) return value > 0 ? MAX_SCORE : -MAX_SCORE
+  return Math.min(value, MAX_SCORE)
+}
+
+function formatValue(value: unknown): string {
+  return Array.isArray(value) ? value.join('/') : String(value)
+}
+
+/** Cartesian product of the grid. An empty grid yields one empty (all-default) entry. */
+export function expandParameterGrid(grid: ParameterGrid): Partial<StrategyParams>[] {
+  let combos: Partial<StrategyParams>[] = [{}]
+  for (const [key, values] of Object.entries(grid) as [keyof StrategyParams, unknown[]][]) {
+    if (!values || values.length === 0) continue
+    combos = combos.flatMap(combo => values.map(value => ({ ...combo, [key]: value })))
+  }
+  return combos
+}
+
+/**
+ * Roll an in-sample/out-of-sample window across `candles`. In each window every grid
+ * combination is backtested in-sample, the best one by `objective` is then run on the
+ * following out-of-sample segment, and only those OOS results are aggregated.
+ *
+ * Positions still open at the end of a segment are closed at its last bar.
+ */
+export function runWalkForward(candles: Candle[], options: WalkForwardOptions): WalkForwardReport {
+  const objective = options.objective ?? 'expectancy'
+  const minTrades = options.minTrades ?? 10
+  const warmup = options.warmupBars ?? 200
+  const step = options.stepBars ?? options.outOfSampleBars
+  const { inSampleBars, outOfSampleBars } = options
+
+  if (inSampleBars <= 0 || outOfSampleBars <= 0 || step <= 0) {
+    throw new Error('Walk-forward error: window sizes must be positive')
+  }
+
+  const combos = expandParameterGrid(options.grid)
+  const maxCombinations = options.maxCombinations ?? 200
+  if (combos.length > maxCombinations) {
+    throw new Error(`Walk-forward error: grid expands to ${combos.length} combinations (max ${maxCombinations})`)
+  }
+
+  const run = (from: number, to: number, params: Partial<StrategyParams>) => runBacktest(
+    candles.slice(from - warmup, to),
+    { ...options.backtest, interval: options.interval, params, warmupBars: warmup }
+  )
+
+  const windows: WalkForwardWindow[] = []
+  const trades: BacktestTrade[] = []
+
+  for (let isStart = warmup; isStart + inSampleBars + outOfSampleBars <= candles.length; isStart += step) {
+    const oosStart = isStart + inSampleBars
+    const oosEnd = oosStart + outOfSampleBars
+
+    // In-sample: score every combination
+    let best: { params: Partial<StrategyParams>; score: number; trades: number; metrics: PerformanceMetrics } | null = null
+    for (const params of combos) {
+      const { metrics } = run(isStart, oosStart, params)
+      const candidate = { params, score: score(metrics, objective), trades: metrics.totalTrades, metrics }
+      const eligible = candidate.trades >= minTrades
+      const bestEligible = best !== null && best.trades >= minTrades
+      if (
+        best === null ||
+        (eligible && !bestEligible) ||
+        (eligible === bestEligible && (eligible ? candidate.score > best.score : candidate.trades > best.trades))
+      ) {
+        best = candidate
+      }
+    }
+    if (!best) break
+
+    // Out-of-sample: the chosen combination only
+    const oos = run(oosStart, oosEnd, best.params)
+    const oosScore = score(oos.metrics, objective)
+    const params = resolveStrategyParams(best.params)
+    trades.push(...oos.trades)
+
+    windows.push({
+      index: windows.length,
+      inSample: { from: candles[isStart].time, to: candles[oosStart - 1].time },
+      outOfSample: { from: candles[oosStart].time, to: candles[oosEnd - 1].time },
+      params,
+      label: describeStrategyParams(params),
+      lowSample: best.trades < minTrades,
+      inSampleScore: best.score,
+      outOfSampleScore: oosScore,
+      efficiency: best.score > 0 ? oosScore / best.score : null,
+      inSampleMetrics: best.metrics,
+      outOfSampleMetrics: oos.metrics
+    })
+  }
+
+  const efficiencies = windows.map(w => w.efficiency).filter((e): e is number => e !== null)
+
+  return {
+    objective,
+    combinations: combos.length,
+    windows,
+    outOfSample: calculatePerformanceMetrics(trades),
+    trades,
+    efficiency: efficiencies.length > 0 ? efficiencies.reduce((a, b) => a + b, 0) / efficiencies.length : null,
+    stability: summarizeStability(options.grid, windows)
+  }
+}
+
+// How consistently each tuned value wins across windows — robust settings win repeatedly
+function summarizeStability(grid: ParameterGrid, windows: WalkForwardWindow[]): ParameterStability[] {
+  const result: ParameterStability[] = []
+  for (const [key, values] of Object.entries(grid) as [keyof StrategyParams, unknown[]][]) {
+    if (!values || values.length < 2) continue
+    for (const value of values) {
+      const label = formatValue(value)
+      const selected = windows.filter(w => formatValue(w.params[key]) === label).length
+      result.push({ param: key, value: label, selected, share: windows.length > 0 ? selected / windows.length : 0 })
+    }
+  }
+  return result
+}
@@ -1,15 +1,16 @@
 // pages/api/analyze.ts
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { fetchCandlesWithProvider, fetchQuoteWithProvider, fetchRSI, fetchMACD, fetchBBands, fetchATR } from '@/lib/twelvedata'
+import { ALLOWED_INTERVALS, MarketDataUnavailableError, calculateATR, fetchCandles, fetchCandlesWithProvider, fetchQuoteWithProvider, fetchRSI, fetchMACD, fetchBBands, fetchATR } from '@/lib/twelvedata'
 import {
   detectAMD,
   detectOrderBlocks,
   detectFVGs,
   detectSRLevels,
   buildSignal,
+  detectDealingRange,
   detectLiquidityZones,
+  detectSweepReversal,
   detectPatterns,
-  getCurrentSession,
   getSessionName,
   analyzeMultiTimeframe,
   type MTAResult,
@@ -28,10 +29,22 @@ import {
   type MacroCorrelation
 } from '@/lib/news'
 import { fetchGoldSpot, fetchGoldWeekHistory, computeSpotInsights } from '@/lib/goldapi'
-import { generatePriceActionSignal, type PriceActionSignal } from '@/lib/priceaction'
+import { generatePriceActionSignal } from '@/lib/priceaction'
+import { combineSignals } from '@/lib/hybridsignal'
+import { checkMultiTimeframeAlignment, assessSignalQuality } from '@/lib/riskmanagement'
+import { recordSignal } from '@/lib/signaljournal'
+import { resolveJournalOutcomes } from '@/lib/outcomes'
+import { getSessionState, resolveSessionCalendar, type SessionCalendar } from '@/lib/sessions'
+import { fetchSMTReferences, usableReferences, detectSMTDivergences, measureCorrelations } from '@/lib/smt'
+import { analyzeStructure } from '@/lib/structure'
+import { computeKeyLevels, loadLevelCandles } from '@/lib/levels'
+import { buildVolumeContext } from '@/lib/volumeprofile'
+import { loadPatternStats, patternCalibrator } from '@/lib/patternstats'
+import { profileParams, resolveStrategyProfile, type StrategyProfile } from '@/lib/strategyprofiles'
 
 const DEFAULT_SYMBOL = 'XAU/USD'
-const ALLOWED_INTERVALS = new Set(['15min', '1h', '4h', '1day'])
+// Order matters: analyzeMultiTimeframe expects M15, H1, H4, D1
+const MTA_INTERVALS = ['15min', '1h', '4h', '1day'] as const
 
 function normalizeSymbolInput(input: unknown): string {
   if (typeof input !== 'string' || !input.trim()) return DEFAULT_SYMBOL
@@ -46,112 +59,63 @@ const useOpenAI = !!process.env.OPENAI_API_KEY
 const generateGoldNarrative = useOpenAI ? generateGoldNarrativeOpenAI : generateGoldNarrativeAnthropic
 const generateDeepAnalysis = useOpenAI ? generateDeepAnalysisOpenAI : generateDeepAnalysisAnthropic
 
-// Combine ICT and Price Action signals
-function combineSignals(ictSignal: any, paSignal: PriceActionSignal, atr: number): any {
-  const ictAction = ictSignal.action
-  const paAction = paSignal.action
-  
-  // If both agree, boost confidence significantly
-  if (ictAction === paAction && ictAction !== 'WAIT') {
-    const combinedConfidence = Math.min(95, (ictSignal.confidence * 0.6 + paSignal.confidence * 0.4))
-    const avgEntry = (ictSignal.entry + paSignal.entry) / 2
-    const avgTP1 = (ictSignal.tp1 + paSignal.takeProfit1) / 2
-    const avgSL = (ictSignal.stopLoss + paSignal.stopLoss) / 2
-    
-    return {
-      ...ictSignal,
-      action: ictAction,
-      confidence: combinedConfidence,
-      entry: avgEntry,
-      tp1: avgTP1,
-      stopLoss: avgSL,
-      rr1: Math.abs(avgTP1 - avgEntry) / Math.abs(avgSL - avgEntry),
-      confluences: [
-        ...ictSignal.confluences,
-        `✓ PA Confirmation: ${paSignal.patterns.map(p => p.name).join(', ')}`,
-        `✓ Combined ICT + PA Confidence: ${combinedConfidence.toFixed(0)}%`
-      ],
-      priceActionPatterns: paSignal.patterns.map(p => p.name)
-    }
-  }
-  
-  // If they conflict, reduce confidence and default to WAIT or stronger signal
-  if (ictAction !== paAction && ictAction !== 'WAIT' && paAction !== 'WAIT') {
-    return {
-      ...ictSignal,
-      action: 'WAIT',
-      confidence: Math.min(ictSignal.confidence, paSignal.confidence) * 0.5,
-      confluences: [
-        ...ictSignal.confluences,
-        `⚠ Signal Conflict: ICT ${ictAction} vs PA ${paAction} — waiting for clarity`
-      ],
-      priceActionPatterns: paSignal.patterns.map(p => p.name)
-    }
-  }
-  
-  // If one is WAIT, use the stronger signal but reduce confidence slightly
-  if (ictAction === 'WAIT' && paAction !== 'WAIT') {
-    return {
-      ...ictSignal,
-      action: paSignal.action,
-      confidence: paSignal.confidence * 0.8,
-      entry: paSignal.entry,
-      tp1: paSignal.takeProfit1,
-      stopLoss: paSignal.stopLoss,
-      rr1: paSignal.riskReward,
-      confluences: [
-        `PA Signal: ${paSignal.action} (${paSignal.confidence.toFixed(0)}%)`,
-        ...paSignal.confluences,
-        `ICT showing consolidation/neutral`
-      ],
-      priceActionPatterns: paSignal.patterns.map(p => p.name)
-    }
-  }
-  
-  if (paAction === 'WAIT' && ictAction !== 'WAIT') {
-    return {
-      ...ictSignal,
-      confluences: [
-        ...ictSignal.confluences,
-        `PA showing consolidation — ICT signal ${ictAction} at ${ictSignal.confidence.toFixed(0)}%`
-      ],
-      priceActionPatterns: paSignal.patterns.map(p => p.name)
-    }
-  }
-  
-  // Both WAIT
-  return {
-    ...ictSignal,
-    confluences: [
-      ...ictSignal.confluences,
-      'PA + ICT agree: sideways/consolidation'
-    ],
-    priceActionPatterns: paSignal.patterns.map(p => p.name)
-  }
+// Fetch candles + RSI for every MTA timeframe in parallel
+async function fetchMultiTimeframeInputs(symbol: string) {
+  return Promise.all(MTA_INTERVALS.map(async tf => {
+    const [candles, rsi] = await Promise.all([fetchCandles(symbol, tf, 150), fetchRSI(symbol, tf)])
+    return { candles, rsi }
+  }))
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
-  const interval = req.body?.interval ?? '1h'
+
+  // Strategy profile: blend weights, confidence nudges, gates and thresholds (default: hybrid)
+  let profile: StrategyProfile
+  try {
+    profile = resolveStrategyProfile(req.body?.profile)
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid profile' })
+  }
+
+  const interval = req.body?.interval ?? profile.interval ?? '1h'
   if (typeof interval !== 'string' || !ALLOWED_INTERVALS.has(interval)) {
     return res.status(400).json({ error: 'Invalid interval' })
   }
   const symbol = normalizeSymbolInput(req.body?.symbol)
 
+  // Per-trader session calendar overrides, e.g. { tradeWindows: ['LONDON_OPEN', 'NY_AM'] }
+  let calendar: SessionCalendar
+  try {
+    calendar = resolveSessionCalendar(req.body?.sessions ?? {})
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid sessions' })
+  }
+
+  // Optional custom VWAP anchor: epoch seconds or an ISO date/time
+  let vwapAnchor: number | undefined
+  const rawAnchor = req.body?.vwapAnchor
+  if (rawAnchor !== undefined && rawAnchor !== null && rawAnchor !== '') {
+    vwapAnchor = typeof rawAnchor === 'number' ? rawAnchor : Math.floor(Date.parse(String(rawAnchor)) / 1000)
+    if (!Number.isFinite(vwapAnchor)) return res.status(400).json({ error: 'Invalid vwapAnchor' })
+  }
+
   try {
     res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate')
 
     // Fetch everything in parallel — 4 data sources simultaneously
-    const [quoteResult, candlesResult, rsi, macd, bbands, atr, todayNews, weekNews, goldSpot] = await Promise.all([
+    const [quoteResult, candlesResult, rsi, macd, bbands, atr, mtaInputs, todayNews, weekNews, goldSpot, smtFetched] = await Promise.all([
       fetchQuoteWithProvider(symbol),
       fetchCandlesWithProvider(symbol, interval, 150),
       fetchRSI(symbol, interval),
       fetchMACD(symbol, interval),
       fetchBBands(symbol, interval),
       fetchATR(symbol, interval),
+      fetchMultiTimeframeInputs(symbol),
       fetchTodayNews(),
       fetchWeekNews(),
       fetchGoldSpot(),            // GoldAPI.io — spot bid/ask/spread
+      fetchSMTReferences(interval, 150),  // XAG/USD + DXY proxy for SMT divergence
     ])
 
     const quote = quoteResult.quote
@@ -163,28 +127,56 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const spotInsights = goldSpot ? computeSpotInsights(goldSpot, goldHistory) : null
 
     // Use GoldAPI price as price reference if available (it's more accurate for spot)
-    // Fall back to provider-chain quote (Alpha Vantage / Marketstack / Finnhub / synthetic)
+    // Fall back to provider-chain quote (MARKET_DATA_PROVIDERS order, e.g. Twelve Data → Alpha Vantage → Finnhub → synthetic)
     const spotPrice = goldSpot?.price ?? quote.close
 
+    // Multi-timeframe analysis (M15 / H1 / H4 / D1)
+    const [m15, h1, h4, d1] = mtaInputs
+    const mtaResults: MTAResult[] = analyzeMultiTimeframe(
+      m15.candles, h1.candles, h4.candles, d1.candles,
+      m15.rsi, h1.rsi, h4.rsi, d1.rsi
+    )
+    const mtaAlignment = checkMultiTimeframeAlignment({
+      m15: mtaResults[0].signal,
+      h1:  mtaResults[1].signal,
+      h4:  mtaResults[2].signal,
+      d1:  mtaResults[3].signal
+    })
+
     // Run ICT analysis engine
-    const amd         = detectAMD(candles, interval)
+    const amd         = detectAMD(candles, interval, calendar)
     const orderBlocks = detectOrderBlocks(candles)
     const fvgs        = detectFVGs(candles)
     const srLevels    = detectSRLevels(candles)
-    const signal      = buildSignal(candles, rsi, macd, bbands, atr, amd, orderBlocks, fvgs, srLevels)
+    const smtReferences = usableReferences(smtFetched, candlesResult.provider)
+    const smtPatterns = detectSMTDivergences(candles, smtReferences, interval)
+    const liquidityZones = detectLiquidityZones(candles, atr, interval, calendar)
+    const volume      = buildVolumeContext(candles, interval, calendar, vwapAnchor)
+    const params      = profileParams(profile)
+    const avgAtr      = calculateATR(candles, 100)
+    const sweepReversal = detectSweepReversal(candles, liquidityZones)
+    const signal      = buildSignal(candles, rsi, macd, bbands, atr, amd, orderBlocks, fvgs, srLevels, {
+      mta: mtaResults, params, smt: smtPatterns, liquidity: liquidityZones, volume, sweepReversal
+    })
+    const dealingRange = detectDealingRange(candles, atr)
+    const structure   = analyzeStructure(candles)
+    const levels      = computeKeyLevels(loadLevelCandles(symbol, candles))
 
     // Enhanced analysis
-    const liquidityZones = detectLiquidityZones(candles)
-    const patterns = detectPatterns(candles)
+    const patterns = [...detectPatterns(candles), ...smtPatterns]
 
     // Price Action Analysis - Candles are already in the correct format
-    const priceActionSignal = generatePriceActionSignal(candles, spotPrice, atr)
+    // Pattern confidences come from the report `npm run pattern-stats` saves, once it has been run
+    const lastBarSession = getSessionState(candles[candles.length - 1].time * 1000, calendar).session
+    const calibrate = patternCalibrator(loadPatternStats(), symbol, interval, lastBarSession)
+    const priceActionSignal = generatePriceActionSignal(candles, spotPrice, atr, params, calibrate)
 
     // Combine ICT + Price Action signals for hybrid confidence
-    const hybridSignal = combineSignals(signal, priceActionSignal, atr)
+    const hybridSignal = combineSignals(signal, priceActionSignal, atr, profile.blend)
 
     // Current trading session
-    const currentSession = getCurrentSession()
+    const sessionState = getSessionState(Date.now(), calendar)
+    const currentSession = sessionState.session
     const sessionName = getSessionName(currentSession)
 
     // News analysis
@@ -193,56 +185,136 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const eventImpacts = rateEventsByImpact(weekNews)
 
     // Macro correlations
-    const macroCorrelations = getMacroCorrelations(spotPrice)
+    const macroCorrelations = getMacroCorrelations(spotPrice, measureCorrelations(candles, smtReferences))
+
+    // Multi-timeframe alignment influences signal (nudges below are the profile's amounts)
+    const nudge = profile.adjustments
+    const mtaSummary = mtaResults.map(r => `${r.timeframe} ${r.signal}`).join(' · ')
+    if (hybridSignal.action !== 'WAIT' && mtaAlignment.direction !== 'NEUTRAL') {
+      if (mtaAlignment.direction === hybridSignal.action && mtaAlignment.aligned) {
+        hybridSignal.confidence = Math.min(95, hybridSignal.confidence + nudge.mtaAligned)
+        hybridSignal.confluences.push(`✓ MTA aligned ${mtaAlignment.direction} (${mtaAlignment.strength}% agreement): ${mtaSummary}`)
+      } else if (mtaAlignment.direction !== hybridSignal.action) {
+        hybridSignal.confidence = Math.max(20, hybridSignal.confidence - nudge.mtaOpposed)
+        hybridSignal.confluences.push(`⚠ Higher timeframes lean ${mtaAlignment.direction}: ${mtaSummary}`)
+      }
+    }
 
     // Spot insights influence signal
     if (spotInsights?.spreadQuality === 'WIDE' && hybridSignal.action !== 'WAIT') {
-      hybridSignal.confidence = Math.max(20, hybridSignal.confidence - 10)
+      hybridSignal.confidence = Math.max(20, hybridSignal.confidence - nudge.wideSpread)
       hybridSignal.confluences.push(`⚠ Wide bid/ask spread (${goldSpot?.spread?.toFixed(2)}) — possible low liquidity`)
     }
 
-    // Weekly position context
+    // Weekly position context (premium/discount itself is scored from the dealing range in buildSignal)
     if (spotInsights?.weeklyRange) {
       const pos = spotInsights.weeklyRange.positionPct
-      if (hybridSignal.action === 'BUY' && pos > 80) {
-        hybridSignal.confidence = Math.max(20, hybridSignal.confidence - 8)
+      if (hybridSignal.action === 'BUY' && pos > nudge.weeklyExtremePct) {
+        hybridSignal.confidence = Math.max(20, hybridSignal.confidence - nudge.weeklyExtreme)
         hybridSignal.confluences.push(`Price at ${pos}% of weekly range — near weekly high, BUY risk elevated`)
       }
-      if (hybridSignal.action === 'SELL' && pos < 20) {
-        hybridSignal.confidence = Math.max(20, hybridSignal.confidence - 8)
+      if (hybridSignal.action === 'SELL' && pos < 100 - nudge.weeklyExtremePct) {
+        hybridSignal.confidence = Math.max(20, hybridSignal.confidence - nudge.weeklyExtreme)
         hybridSignal.confluences.push(`Price at ${pos}% of weekly range — near weekly low, SELL risk elevated`)
       }
-      if (hybridSignal.action === 'BUY' && pos < 30) {
-        hybridSignal.confidence = Math.min(95, hybridSignal.confidence + 5)
-        hybridSignal.confluences.push(`Buying near weekly low (${pos}% range) — discount zone`)
-      }
-      if (hybridSignal.action === 'SELL' && pos > 70) {
-        hybridSignal.confidence = Math.min(95, hybridSignal.confidence + 5)
-        hybridSignal.confluences.push(`Selling near weekly high (${pos}% range) — premium zone`)
-      }
+    }
+
+    // Session gating: no new signals while CME metals are halted
+    if (calendar.blockCmeBreak && !sessionState.marketOpen && hybridSignal.action !== 'WAIT') {
+      hybridSignal.action = 'WAIT'
+      hybridSignal.confidence = Math.min(hybridSignal.confidence, 25)
+      hybridSignal.confluences.push(`BLOCKED: CME gold closed (${sessionState.newYorkTime} New York) — wait for the reopen`)
+    } else if (hybridSignal.action !== 'WAIT') {
+      const activeWindow = sessionState.silverBullet ?? sessionState.killzone
+      if (activeWindow) hybridSignal.confluences.push(`Inside ${calendar.windows[activeWindow].label} (${sessionState.newYorkTime} New York)`)
     }
 
     // News risk override
-    if (newsRisk.avoid && hybridSignal.action !== 'WAIT') {
+    if (profile.gates.blockHighImpactNews && newsRisk.avoid && hybridSignal.action !== 'WAIT') {
       hybridSignal.action     = 'WAIT'
       hybridSignal.confidence = Math.min(hybridSignal.confidence, 25)
       hybridSignal.confluences.push('BLOCKED: High-impact news imminent — protect capital')
     }
 
     if (newsBias.bias === 'BULLISH_GOLD' && hybridSignal.action === 'BUY') {
-      hybridSignal.confidence = Math.min(95, hybridSignal.confidence + 10)
+      hybridSignal.confidence = Math.min(95, hybridSignal.confidence + nudge.newsAligned)
       hybridSignal.confluences.push('Fundamentals confirm: USD weakness → Gold bullish')
     } else if (newsBias.bias === 'BEARISH_GOLD' && hybridSignal.action === 'SELL') {
-      hybridSignal.confidence = Math.min(95, hybridSignal.confidence + 10)
+      hybridSignal.confidence = Math.min(95, hybridSignal.confidence + nudge.newsAligned)
       hybridSignal.confluences.push('Fundamentals confirm: USD weakness → Gold bearish')
     } else if (
       (newsBias.bias === 'BULLISH_GOLD' && hybridSignal.action === 'SELL') ||
       (newsBias.bias === 'BEARISH_GOLD' && hybridSignal.action === 'BUY')
     ) {
-      hybridSignal.confidence = Math.max(20, hybridSignal.confidence - 15)
+      hybridSignal.confidence = Math.max(20, hybridSignal.confidence - nudge.newsOpposed)
       hybridSignal.confluences.push('WARNING: Fundamentals conflict with technical signal')
     }
 
+    // Profile gates
+    const gates = profile.gates
+    if (hybridSignal.action !== 'WAIT') {
+      const blocked =
+        gates.requireMtaAlignment && !(mtaAlignment.aligned && mtaAlignment.direction === hybridSignal.action)
+          ? `higher timeframes not aligned ${hybridSignal.action}`
+          : gates.tradeWindowsOnly && !sessionState.inTradeWindow
+            ? 'outside the trade windows'
+            : hybridSignal.confidence < gates.minConfidence
+              ? `confidence ${hybridSignal.confidence.toFixed(0)}% below ${gates.minConfidence}%`
+              : null
+      if (blocked) {
+        hybridSignal.action = 'WAIT'
+        hybridSignal.confidence = Math.min(hybridSignal.confidence, 25)
+        hybridSignal.confluences.push(`BLOCKED by ${profile.name} profile: ${blocked}`)
+      }
+    }
+
+    // Journal actionable signals (synthetic demo data is never recorded)
+    let journalId: string | null = null
+    if (hybridSignal.action !== 'WAIT' && candlesResult.provider !== 'synthetic') {
+      const quality = assessSignalQuality({
+        confidence: hybridSignal.confidence,
+        confluenceCount: hybridSignal.confluences.length,
+        trendAlignment: mtaAlignment.direction === hybridSignal.action,
+        atr,
+        avgATR: avgAtr,
+        newsRisk: newsRisk.level === 'GREEN' ? 'LOW' : newsRisk.level === 'YELLOW' ? 'MEDIUM' : 'HIGH',
+        riskReward: hybridSignal.rr1,
+        timeframe: interval,
+        sessionActive: sessionState.inTradeWindow,
+        priceActionConfirmation: priceActionSignal.action === hybridSignal.action
+      })
+      const recorded = await recordSignal({
+        symbol,
+        interval,
+        barTime: candles[candles.length - 1].time,
+        provider: { candles: candlesResult.provider, quote: quoteResult.provider },
+        signal: hybridSignal,
+        tier: quality.tier,
+        profile: profile.id,
+        inputs: {
+          price: spotPrice,
+          rsi, macd, bbands, atr,
+          amd: { phase: amd.phase, bias: amd.bias, strength: amd.strength },
+          orderBlockIds: orderBlocks.map(ob => ob.id),
+          fvgIds: fvgs.map(f => f.id),
+          priceAction: {
+            action: priceActionSignal.action,
+            confidence: priceActionSignal.confidence,
+            patterns: priceActionSignal.patterns.map(p => p.name)
+          },
+          mta: { direction: mtaAlignment.direction, strength: mtaAlignment.strength, aligned: mtaAlignment.aligned },
+          newsRisk: newsRisk.level,
+          newsBias: newsBias.bias
+        }
+      })
+      journalId = recorded?.entry.id ?? null
+    }
+
+    // Settle earlier signals against the bars stored since they were issued
+    if (candlesResult.provider !== 'synthetic') {
+      await resolveJournalOutcomes({ symbol, interval })
+    }
+
     // Generate Claude narrative
     let narrative = ''
     let deepAnalysis = ''
@@ -257,7 +329,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       deepAnalysis = await generateDeepAnalysis({
         price: spotPrice, signal: hybridSignal, amd, orderBlocks, fvgs, srLevels,
         rsi, macd, bbands, atr, newsRisk, newsBias,
-        goldSpot, spotInsights, liquidityZones, patterns, priceActionSignal
+        goldSpot, spotInsights, liquidityZones, patterns, priceActionSignal,
+        mta: mtaResults
       })
     } catch (err) {
       console.warn('[narrative] generation failed:', err)
@@ -272,9 +345,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     res.status(200).json({
       quote: { ...quote, close: spotPrice },  // prefer GoldAPI spot price
-      candles, rsi, macd, bbands, atr,
-      amd, orderBlocks, fvgs, srLevels, 
+      candles, rsi, macd, bbands, atr, avgAtr,
+      amd, orderBlocks, fvgs, srLevels, dealingRange, structure, levels, volume,
       signal: hybridSignal,  // Hybrid ICT + PA signal
+      profile: { ...profile, params },  // strategy profile used, thresholds resolved
+      journalId,
       narrative, 
       deepAnalysis,
       // Price Action Analysis
@@ -282,13 +357,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         signal: priceActionSignal,
         patterns: priceActionSignal.patterns,
         chartPattern: priceActionSignal.chartPattern,
+        calibrated: calibrate !== undefined,
         wickAnalysis: priceActionSignal.wickAnalysis,
         confidence: priceActionSignal.confidence
       },
+      // Multi-timeframe context (H1 entries with H4/D1 bias)
+      mta: {
+        timeframes: mtaResults,
+        alignment: mtaAlignment
+      },
       // Enhanced ICT data
       liquidityZones,
+      sweepReversal,
       patterns,
-      session: { current: currentSession, name: sessionName },
+      session: {
+        current: currentSession,
+        name: sessionName,
+        active: sessionState.active,
+        killzone: sessionState.killzone,
+        silverBullet: sessionState.silverBullet,
+        inTradeWindow: sessionState.inTradeWindow,
+        marketOpen: sessionState.marketOpen,
+        newYorkTime: sessionState.newYorkTime
+      },
       eventImpacts,
       macroCorrelations,
       news: { today: todayNews.slice(0, 20), upcoming: upcomingHighImpact, risk: newsRisk, bias: newsBias },
@@ -301,6 +392,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     })
   } catch (err: unknown) {
     console.error('[gold analyze]', err)
+    if (err instanceof MarketDataUnavailableError) {
+      return res.status(503).json({ error: 'Market data unavailable: no configured provider returned data. Check MARKET_DATA_PROVIDERS and API keys, or add synthetic for demo data.' })
+    }
     const message = err instanceof Error ? err.message : 'Analysis failed'
     res.status(500).json({ error: message })
   }
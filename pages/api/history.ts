@@ -0,0 +1,93 @@
+// pages/api/history.ts — Journaled signals with live outcome statistics and CSV export
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { ALLOWED_INTERVALS } from '@/lib/twelvedata'
+import { loadJournal, type SignalTier } from '@/lib/signaljournal'
+import { resolveJournalOutcomes, type ResolveSummary } from '@/lib/outcomes'
+import { buildHistoryReport, historyToCsv, type HistoryFilter, type HistoryReport } from '@/lib/signalhistory'
+
+const ACTIONS = new Set(['BUY', 'SELL'])
+const TIERS = new Set(['PREMIUM', 'STANDARD', 'FILTERED'])
+const MAX_ROWS = 500
+
+type HistoryResponse =
+  | ({ ok: true; truncated: boolean } & HistoryReport)
+  | ({ ok: true } & ResolveSummary)
+  | { ok: false; error: string }
+
+function queryString(value: string | string[] | undefined): string | undefined {
+  const v = Array.isArray(value) ? value[0] : value
+  return v && v.trim() ? v.trim() : undefined
+}
+
+// Accepts epoch seconds or anything Date.parse understands (e.g. 2026-02-01)
+function parseTime(value: string | undefined, endOfDay: boolean): number | undefined | null {
+  if (value === undefined) return undefined
+  if (/^\d+$/.test(value)) return Number(value)
+  const ms = Date.parse(value)
+  if (!Number.isFinite(ms)) return null
+  // A bare date as the upper bound includes that whole day
+  const dayOnly = /^\d{4}-\d{2}-\d{2}$/.test(value)
+  return Math.floor(ms / 1000) + (endOfDay && dayOnly ? 86_399 : 0)
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<HistoryResponse | string>) {
+  // POST settles OPEN/PENDING outcomes against the stored candles; GET only reads
+  if (req.method === 'POST') {
+    const body = req.body ?? {}
+    const interval = typeof body.interval === 'string' && body.interval ? body.interval : undefined
+    if (interval && !ALLOWED_INTERVALS.has(interval)) return res.status(400).json({ ok: false, error: 'Invalid interval' })
+    try {
+      const summary = await resolveJournalOutcomes({ symbol: typeof body.symbol === 'string' ? body.symbol : undefined, interval })
+      return res.status(200).json({ ok: true, ...summary })
+    } catch (error) {
+      console.error('[history] resolve failed:', error)
+      return res.status(500).json({ ok: false, error: 'Failed to resolve signal outcomes' })
+    }
+  }
+  if (req.method !== 'GET') return res.status(405).json({ ok: false, error: 'Method not allowed' })
+
+  const interval = queryString(req.query.interval)
+  const action = queryString(req.query.action)?.toUpperCase()
+  const tier = queryString(req.query.tier)?.toUpperCase()
+  const from = parseTime(queryString(req.query.from), false)
+  const to = parseTime(queryString(req.query.to), true)
+
+  if (interval && !ALLOWED_INTERVALS.has(interval)) {
+    return res.status(400).json({ ok: false, error: 'Invalid interval' })
+  }
+  if (action && !ACTIONS.has(action)) return res.status(400).json({ ok: false, error: 'Invalid action' })
+  if (tier && !TIERS.has(tier)) return res.status(400).json({ ok: false, error: 'Invalid tier' })
+  if (from === null || to === null) return res.status(400).json({ ok: false, error: 'Invalid date range' })
+
+  const filter: HistoryFilter = {
+    symbol: queryString(req.query.symbol),
+    interval,
+    action: action as HistoryFilter['action'],
+    tier: tier as SignalTier | undefined,
+    from,
+    to
+  }
+
+  try {
+    const report = buildHistoryReport(loadJournal(), filter)
+
+    if (queryString(req.query.format) === 'csv') {
+      const stamp = new Date().toISOString().slice(0, 10)
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+      res.setHeader('Content-Disposition', `attachment; filename="pipnexus-signals-${stamp}.csv"`)
+      return res.status(200).send(historyToCsv(report.rows))
+    }
+
+    // Stats always cover the full filtered set; only the table is capped
+    res.setHeader('Cache-Control', 'no-store')
+    return res.status(200).json({
+      ok: true,
+      truncated: report.rows.length > MAX_ROWS,
+      ...report,
+      rows: report.rows.slice(0, MAX_ROWS)
+    })
+  } catch (error) {
+    console.error('[history] failed:', error)
+    return res.status(500).json({ ok: false, error: 'Failed to load signal history' })
+  }
+}
@@ -0,0 +1,85 @@
+// pages/api/import-history.ts — Load broker CSV history into the local candle store (Parquet is rejected)
+import type { NextApiRequest, NextApiResponse } from 'next'
+import fs from 'fs'
+import path from 'path'
+import { importHistoricalCsv, isParquet, type CsvFormat, type HistoryImportResult } from '@/lib/historyimport'
+
+const FORMATS = new Set(['auto', 'mt5', 'dukascopy', 'generic'])
+// Large exports can be dropped here and imported by name instead of uploaded
+const IMPORT_DIR = () => path.join(process.cwd(), 'data', 'import')
+
+type ImportResponse =
+  | { ok: true; result: HistoryImportResult }
+  | { ok: false; error: string }
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '50mb' } }
+}
+
+function isAuthorized(req: NextApiRequest): boolean {
+  const token = process.env.IMPORT_API_TOKEN
+  // Without a token the endpoint is only open in local development
+  if (!token) return process.env.NODE_ENV !== 'production'
+  return req.headers['x-import-token'] === token
+}
+
+function readImportFile(name: string): string {
+  const safeName = path.basename(name)
+  const filePath = path.join(IMPORT_DIR(), safeName)
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Import file not found: data/import/${safeName}`)
+  }
+  return fs.readFileSync(filePath, 'utf-8')
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ImportResponse>) {
+  if (req.method !== 'POST') return res.status(405).json({ ok: false, error: 'Method not allowed' })
+  if (!isAuthorized(req)) return res.status(401).json({ ok: false, error: 'Unauthorized' })
+
+  // Raw CSV body with options in the query string, or JSON { csv | file, ...options }
+  const rawBody = typeof req.body === 'string'
+  const params: Record<string, any> = rawBody ? req.query : (req.body ?? {})
+  const format = String(params.format ?? 'auto')
+  if (!FORMATS.has(format)) {
+    return res.status(400).json({ ok: false, error: 'Invalid format' })
+  }
+
+  const utcOffsetMinutes = params.utcOffsetMinutes !== undefined ? Number(params.utcOffsetMinutes) : undefined
+  if (utcOffsetMinutes !== undefined && !Number.isFinite(utcOffsetMinutes)) {
+    return res.status(400).json({ ok: false, error: 'Invalid utcOffsetMinutes' })
+  }
+
+  if (typeof params.file === 'string' && /\.parquet$/i.test(params.file)) {
+    return res.status(415).json({ ok: false, error: 'Parquet is not supported — export the history as CSV' })
+  }
+
+  try {
+    const csv = rawBody
+      ? req.body as string
+      : typeof params.csv === 'string'
+        ? params.csv
+        : typeof params.file === 'string'
+          ? readImportFile(params.file)
+          : ''
+    if (!csv.trim()) {
+      return res.status(400).json({ ok: false, error: 'Provide CSV text or an import file name' })
+    }
+    if (isParquet(csv)) {
+      return res.status(415).json({ ok: false, error: 'Parquet is not supported — export the history as CSV' })
+    }
+
+    const result = importHistoricalCsv(String(params.symbol ?? 'XAU/USD'), csv, {
+      format: format as CsvFormat | 'auto',
+      timeZone: typeof params.timeZone === 'string' && params.timeZone ? params.timeZone : undefined,
+      utcOffsetMinutes,
+      columns: !rawBody && params.columns && typeof params.columns === 'object' ? params.columns : undefined
+    })
+
+    console.log(`[import-history] ${result.symbol}: ${result.rows} rows (${result.format}), skipped ${result.skipped}`)
+    return res.status(200).json({ ok: true, result })
+  } catch (err: unknown) {
+    console.error('[import-history]', err)
+    const message = err instanceof Error ? err.message : 'Import failed'
+    return res.status(400).json({ ok: false, error: message })
+  }
+}
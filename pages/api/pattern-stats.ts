@@ -0,0 +1,33 @@
+// pages/api/pattern-stats.ts — Read the historical pattern outcome statistics (run them with npm run pattern-stats)
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { loadPatternStats, type PatternStatsReport } from '@/lib/patternstats'
+
+type StatsResponse =
+  | ({ ok: true } & PatternStatsReport)
+  | { ok: false; error: string }
+
+function queryString(value: string | string[] | undefined): string | undefined {
+  const v = Array.isArray(value) ? value[0] : value
+  return v && v.trim() ? v.trim() : undefined
+}
+
+export default function handler(req: NextApiRequest, res: NextApiResponse<StatsResponse>) {
+  // The scan blocks for minutes, so it runs as a script rather than on the server's event loop
+  if (req.method !== 'GET') return res.status(405).json({ ok: false, error: 'Method not allowed — run npm run pattern-stats' })
+
+  const report = loadPatternStats()
+  if (!report) return res.status(404).json({ ok: false, error: 'No pattern statistics yet — run npm run pattern-stats' })
+
+  const interval = queryString(req.query.interval)
+  const session = queryString(req.query.session)?.toUpperCase()
+  const pattern = queryString(req.query.pattern)?.toLowerCase()
+  res.setHeader('Cache-Control', 'no-store')
+  return res.status(200).json({
+    ok: true,
+    ...report,
+    stats: report.stats.filter(s =>
+      (!interval || s.interval === interval) &&
+      (!session || s.session === session) &&
+      (!pattern || s.pattern.toLowerCase().includes(pattern)))
+  })
+}
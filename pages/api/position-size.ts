@@ -0,0 +1,83 @@
+// pages/api/position-size.ts — Size the current signal by fixed-fractional, Kelly and volatility-adjusted methods
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { ALLOWED_INTERVALS } from '@/lib/twelvedata'
+import { loadJournal } from '@/lib/signaljournal'
+import { buildHistoryReport } from '@/lib/signalhistory'
+import { fetchUsdRate, sizePosition, type AccountSpec, type KellyInputs, type PositionSizeReport } from '@/lib/positionsize'
+
+type PositionSizeResponse =
+  | ({ ok: true } & PositionSizeReport)
+  | { ok: false; error: string }
+
+// Journal win rates below this many closed trades are noise; Kelly is left unsized instead
+const KELLY_MIN_TRADES = 20
+
+function positive(value: unknown, fallback?: number): number | null {
+  if (value === undefined || value === null || value === '') return fallback ?? null
+  const n = Number(value)
+  return Number.isFinite(n) && n > 0 ? n : null
+}
+
+// Measured statistics only: a signal's confidence is a score, not a win probability
+function kellyInputs(body: any, symbol: string, interval: string | undefined): KellyInputs | null {
+  const winRate = Number(body.winRate)
+  const payoff = Number(body.payoff)
+  if (winRate > 0 && winRate < 1 && payoff > 0) return { winRate, payoff, samples: 0, source: 'REQUEST' }
+
+  const { metrics } = buildHistoryReport(loadJournal(), { symbol, interval }).stats
+  if (metrics.totalTrades >= KELLY_MIN_TRADES && metrics.avgLoss > 0) {
+    return { winRate: metrics.winRate / 100, payoff: metrics.avgWin / metrics.avgLoss, samples: metrics.totalTrades, source: 'JOURNAL' }
+  }
+  return null
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<PositionSizeResponse>) {
+  if (req.method !== 'POST') return res.status(405).json({ ok: false, error: 'Method not allowed' })
+  const body = req.body ?? {}
+
+  const balance = positive(body.balance)
+  if (balance === null) return res.status(400).json({ ok: false, error: 'Invalid balance' })
+  const riskPercent = positive(body.riskPercent, 0.01)
+  if (riskPercent === null || riskPercent > 0.1) return res.status(400).json({ ok: false, error: 'riskPercent must be a fraction between 0 and 0.1' })
+  const contractSize = positive(body.contractSize, 100)
+  const lotStep = positive(body.lotStep, 0.01)
+  const leverage = positive(body.leverage, 100)
+  if (contractSize === null || lotStep === null || leverage === null) {
+    return res.status(400).json({ ok: false, error: 'contractSize, lotStep and leverage must be positive' })
+  }
+  const minLot = positive(body.minLot, lotStep)
+  if (minLot === null) return res.status(400).json({ ok: false, error: 'Invalid minLot' })
+
+  const entry = positive(body.entry)
+  const stopLoss = positive(body.stopLoss)
+  if (entry === null || stopLoss === null || entry === stopLoss) {
+    return res.status(400).json({ ok: false, error: 'entry and stopLoss are required and must differ' })
+  }
+
+  const currency = typeof body.currency === 'string' && body.currency.trim() ? body.currency.trim().toUpperCase() : 'USD'
+  if (!/^[A-Z]{3}$/.test(currency)) return res.status(400).json({ ok: false, error: 'Invalid currency' })
+  const interval = typeof body.interval === 'string' ? body.interval : undefined
+  if (interval && !ALLOWED_INTERVALS.has(interval)) return res.status(400).json({ ok: false, error: 'Invalid interval' })
+
+  let usdRate = positive(body.fxRate)
+  if (usdRate === null) {
+    if (body.fxRate !== undefined && body.fxRate !== null && body.fxRate !== '') {
+      return res.status(400).json({ ok: false, error: 'Invalid fxRate' })
+    }
+    try {
+      usdRate = await fetchUsdRate(currency)
+    } catch (error) {
+      console.warn(`[position-size] ${currency} rate unavailable:`, error)
+      return res.status(502).json({ ok: false, error: error instanceof Error ? error.message : `No ${currency} rate` })
+    }
+  }
+
+  const account: AccountSpec = { balance, currency, usdRate, riskPercent, contractSize, lotStep, minLot, leverage }
+  const report = sizePosition(
+    account,
+    { entry, stopLoss, atr: positive(body.atr) ?? undefined, avgAtr: positive(body.avgAtr) ?? undefined },
+    kellyInputs(body, String(body.symbol ?? 'XAU/USD'), interval)
+  )
+  res.setHeader('Cache-Control', 'no-store')
+  return res.status(200).json({ ok: true, ...report })
+}
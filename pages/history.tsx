@@ -1,29 +1,75 @@
+import { useState, useEffect, useCallback } from 'react'
 import Head from 'next/head'
 import Link from 'next/link'
 
+interface HistoryRow {
+  id: string; barTime: number; symbol: string; interval: string; action: 'BUY' | 'SELL'
+  tier: 'PREMIUM' | 'STANDARD' | 'FILTERED'; confidence: number; entry: number; stopLoss: number; tp1: number
+  status: string; result: 'WIN' | 'LOSS' | 'BREAKEVEN' | 'NO_FILL' | 'OPEN' | 'PENDING'; exitReason: string | null
+  pnl: number | null; pips: number | null
+}
+interface HistoryStats {
+  totalSignals: number; closed: number; open: number; noFill: number
+  metrics: { winRate: number; profitFactor: number; expectancy: number; totalPnl: number; maxDrawdown: number }
+  streaks: { currentStreak: number; isWinning: boolean; longestWinStreak: number; longestLossStreak: number }
+  avgPips: number; bestPips: number; worstPips: number
+}
+
+const INTERVALS = [
+  { label: 'All', value: '' }, { label: 'M15', value: '15min' }, { label: 'H1', value: '1h' },
+  { label: 'H4', value: '4h' }, { label: 'D1', value: '1day' },
+]
+const ACTIONS = ['', 'BUY', 'SELL']
+const TIERS = ['', 'PREMIUM', 'STANDARD', 'FILTERED']
+
+const fSign = (n: number, d = 1) => `${n >= 0 ? '+' : ''}${n.toFixed(d)}`
+const resultColor = (r: HistoryRow['result']) =>
+  r === 'WIN' ? 'var(--green)' : r === 'LOSS' ? 'var(--red)' : r === 'BREAKEVEN' ? 'var(--text2)' : 'var(--amber)'
+const resultLabel = (row: HistoryRow) =>
+  row.pips !== null ? `${fSign(row.pips)} pips` : row.result === 'NO_FILL' ? 'NO FILL' : row.result
+
 export default function History() {
-  // Sample historical signals for demonstration
-  const signals = [
-    { date: '2026-02-22', action: 'BUY', entry: 2652.40, sl: 2645.00, tp: 2665.00, result: 'WIN', pips: 126, confidence: 78 },
-    { date: '2026-02-21', action: 'SELL', entry: 2648.20, sl: 2655.00, tp: 2638.00, result: 'WIN', pips: 102, confidence: 72 },
-    { date: '2026-02-20', action: 'WAIT', entry: 2645.50, sl: 0, tp: 0, result: 'NEUTRAL', pips: 0, confidence: 45 },
-    { date: '2026-02-19', action: 'BUY', entry: 2638.80, sl: 2632.00, tp: 2650.00, result: 'WIN', pips: 112, confidence: 75 },
-    { date: '2026-02-18', action: 'SELL', entry: 2655.30, sl: 2662.00, tp: 2645.00, result: 'LOSS', pips: -67, confidence: 68 },
-    { date: '2026-02-17', action: 'BUY', entry: 2642.10, sl: 2635.00, tp: 2655.00, result: 'WIN', pips: 129, confidence: 80 },
-    { date: '2026-02-16', action: 'WAIT', entry: 2635.80, sl: 0, tp: 0, result: 'NEUTRAL', pips: 0, confidence: 40 },
-    { date: '2026-02-15', action: 'SELL', entry: 2668.40, sl: 2675.00, tp: 2658.00, result: 'WIN', pips: 104, confidence: 71 },
-  ]
-
-  const stats = {
-    totalSignals: 47,
-    winRate: 72.3,
-    avgPips: 89.5,
-    bestTrade: 156,
-    worstTrade: -82,
-    consecutiveWins: 4,
-    consecutiveLosses: 2,
+  const [filters, setFilters] = useState({ interval: '', action: '', tier: '', from: '', to: '' })
+  const [rows, setRows] = useState<HistoryRow[]>([])
+  const [stats, setStats] = useState<HistoryStats | null>(null)
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const query = new URLSearchParams(Object.entries(filters).filter(([, v]) => v !== '')).toString()
+
+  const load = useCallback(async () => {
+    setLoading(true); setError('')
+    try {
+      // Settle open signals against the latest stored candles before reading
+      await fetch('/api/history', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ interval: filters.interval || undefined })
+      })
+      const res = await fetch(`/api/history${query ? `?${query}` : ''}`)
+      const data = await res.json()
+      if (!data.ok) throw new Error(data.error || 'Failed to load history')
+      setRows(data.rows)
+      setStats(data.stats)
+      setTruncated(data.truncated)
+    } catch (e: any) {
+      setError(e.message || 'Failed to load history')
+    } finally {
+      setLoading(false)
+    }
+  }, [query, filters.interval])
+
+  useEffect(() => { load() }, [load])
+
+  const setFilter = (e: React.ChangeEvent<HTMLSelectElement | HTMLInputElement>) => {
+    const { name, value } = e.target
+    setFilters(prev => ({ ...prev, [name]: value }))
   }
 
+  const metrics = stats?.metrics
+  const streaks = stats?.streaks
+
   return (
     <>
       <Head>
@@ -61,33 +107,79 @@ export default function History() {
           {/* Page Title */}
           <div style={s.pageHeader}>
             <h1 style={s.pageTitle}>Signal History</h1>
-            <p style={s.pageDesc}>Track our past trading signals and their outcomes</p>
+            <p style={s.pageDesc}>Every actionable signal the terminal issued, resolved against the candles that followed</p>
           </div>
 
+          {/* Filters */}
+          <div style={s.filterBar}>
+            <label style={s.filterField}>
+              <span style={s.filterLabel}>TIMEFRAME</span>
+              <select name="interval" value={filters.interval} onChange={setFilter} style={s.filterInput}>
+                {INTERVALS.map(iv => <option key={iv.value} value={iv.value}>{iv.label}</option>)}
+              </select>
+            </label>
+            <label style={s.filterField}>
+              <span style={s.filterLabel}>ACTION</span>
+              <select name="action" value={filters.action} onChange={setFilter} style={s.filterInput}>
+                {ACTIONS.map(a => <option key={a} value={a}>{a || 'All'}</option>)}
+              </select>
+            </label>
+            <label style={s.filterField}>
+              <span style={s.filterLabel}>TIER</span>
+              <select name="tier" value={filters.tier} onChange={setFilter} style={s.filterInput}>
+                {TIERS.map(t => <option key={t} value={t}>{t || 'All'}</option>)}
+              </select>
+            </label>
+            <label style={s.filterField}>
+              <span style={s.filterLabel}>FROM</span>
+              <input type="date" name="from" value={filters.from} onChange={setFilter} style={s.filterInput} />
+            </label>
+            <label style={s.filterField}>
+              <span style={s.filterLabel}>TO</span>
+              <input type="date" name="to" value={filters.to} onChange={setFilter} style={s.filterInput} />
+            </label>
+            <a href={`/api/history?${query ? `${query}&` : ''}format=csv`} style={s.exportBtn} download>
+              EXPORT CSV
+            </a>
+          </div>
+
+          {error && <div style={s.errorBox}>{error}</div>}
+
           {/* Stats Overview */}
           <div style={s.statsGrid}>
             <div style={s.statCard}>
               <div style={s.statLabel}>TOTAL SIGNALS</div>
-              <div style={s.statValue}>{stats.totalSignals}</div>
+              <div style={s.statValue}>{stats?.totalSignals ?? '—'}</div>
+              {stats && <div style={s.statSub}>{stats.closed} closed · {stats.open} open · {stats.noFill} no fill</div>}
             </div>
             <div style={s.statCard}>
               <div style={s.statLabel}>WIN RATE</div>
-              <div style={{...s.statValue, color: 'var(--green)'}}>{stats.winRate}%</div>
+              <div style={{...s.statValue, color: metrics && metrics.winRate >= 50 ? 'var(--green)' : 'var(--text)'}}>
+                {stats && stats.closed > 0 && metrics ? `${metrics.winRate.toFixed(1)}%` : '—'}
+              </div>
+              {metrics && stats && stats.closed > 0 && (
+                <div style={s.statSub}>PF {Number.isFinite(metrics.profitFactor) ? metrics.profitFactor.toFixed(2) : '∞'} · exp ${metrics.expectancy.toFixed(2)}</div>
+              )}
             </div>
             <div style={s.statCard}>
               <div style={s.statLabel}>AVG PIPS</div>
-              <div style={{...s.statValue, color: 'var(--gold)'}}>+{stats.avgPips}</div>
+              <div style={{...s.statValue, color: 'var(--gold)'}}>{stats && stats.closed > 0 ? fSign(stats.avgPips) : '—'}</div>
+              {stats && stats.closed > 0 && <div style={s.statSub}>best {fSign(stats.bestPips)} · worst {fSign(stats.worstPips)}</div>}
             </div>
             <div style={s.statCard}>
-              <div style={s.statLabel}>BEST TRADE</div>
-              <div style={{...s.statValue, color: 'var(--green)'}}>+{stats.bestTrade} pips</div>
+              <div style={s.statLabel}>STREAKS</div>
+              <div style={{...s.statValue, color: streaks?.isWinning ? 'var(--green)' : streaks?.currentStreak ? 'var(--red)' : 'var(--text)'}}>
+                {streaks && streaks.currentStreak > 0 ? `${streaks.currentStreak}${streaks.isWinning ? 'W' : 'L'}` : '—'}
+              </div>
+              {streaks && <div style={s.statSub}>longest {streaks.longestWinStreak}W · {streaks.longestLossStreak}L</div>}
             </div>
           </div>
 
           {/* Signals Table */}
           <div style={s.tableCard}>
             <div style={s.tableHeader}>
-              <span style={s.colDate}>DATE</span>
+              <span style={s.colDate}>DATE (UTC)</span>
+              <span style={s.colTf}>TF</span>
               <span style={s.colAction}>ACTION</span>
               <span style={s.colEntry}>ENTRY</span>
               <span style={s.colSL}>STOP</span>
@@ -96,27 +188,25 @@ export default function History() {
               <span style={s.colConf}>CONF</span>
             </div>
 
-            {signals.map((signal, i) => (
-              <div key={i} style={{...s.tableRow, animationDelay: `${i * 0.05}s`}} className="fu">
-                <span style={s.colDate}>{signal.date}</span>
+            {!loading && rows.length === 0 && (
+              <div style={s.emptyRow}>{error ? 'History unavailable' : 'No journaled signals match these filters yet'}</div>
+            )}
+
+            {rows.map((signal, i) => (
+              <div key={signal.id} style={{...s.tableRow, animationDelay: `${Math.min(i, 20) * 0.03}s`}} className="fu">
+                <span style={s.colDate}>{new Date(signal.barTime * 1000).toISOString().slice(0, 16).replace('T', ' ')}</span>
+                <span style={s.colTf}>{INTERVALS.find(iv => iv.value === signal.interval)?.label ?? signal.interval}</span>
                 <span style={{
                   ...s.colAction,
-                  color: signal.action === 'BUY' ? 'var(--green)' : signal.action === 'SELL' ? 'var(--red)' : 'var(--amber)',
+                  color: signal.action === 'BUY' ? 'var(--green)' : 'var(--red)',
                 }}>{signal.action}</span>
                 <span style={s.colEntry}>{signal.entry.toFixed(2)}</span>
-                <span style={{...s.colSL, color: signal.sl === 0 ? 'var(--text3)' : 'var(--red)'}}>
-                  {signal.sl === 0 ? '—' : signal.sl.toFixed(2)}
-                </span>
-                <span style={{...s.colTP, color: signal.tp === 0 ? 'var(--text3)' : 'var(--green)'}}>
-                  {signal.tp === 0 ? '—' : signal.tp.toFixed(2)}
+                <span style={s.colSL}>{signal.stopLoss.toFixed(2)}</span>
+                <span style={s.colTP}>{signal.tp1.toFixed(2)}</span>
+                <span style={{...s.colResult, color: resultColor(signal.result)}} title={signal.exitReason ?? signal.status}>
+                  {resultLabel(signal)}
                 </span>
-                <span style={{
-                  ...s.colResult,
-                  color: signal.result === 'WIN' ? 'var(--green)' : signal.result === 'LOSS' ? 'var(--red)' : 'var(--amber)',
-                }}>
-                  {signal.result === 'WIN' ? `+${signal.pips} pips` : signal.result === 'LOSS' ? `${signal.pips} pips` : '—'}
-                </span>
-                <span style={s.colConf}>
+                <span style={s.colConf} title={signal.tier}>
                   <span style={{
                     ...s.confDot,
                     background: signal.confidence >= 70 ? 'var(--green)' : signal.confidence >= 50 ? 'var(--amber)' : 'var(--red)',
@@ -127,6 +217,8 @@ export default function History() {
             ))}
           </div>
 
+          {truncated && <div style={s.tableNote}>Showing the latest {rows.length} signals — export CSV for the full record.</div>}
+
           {/* Disclaimer */}
           <div style={s.disclaimer}>
             <strong>Past performance does not guarantee future results.</strong> Trading involves significant risk.
@@ -181,9 +273,17 @@ const s: Record<string, any> = {
   statLabel: { fontSize: '9px', letterSpacing: '0.15em', color: 'var(--text3)', marginBottom: '8px' },
   statValue: { fontFamily: 'var(--mono)', fontSize: '24px', fontWeight: 600, color: 'var(--text)' },
   tableCard: { background: 'linear-gradient(135deg, rgba(255,255,255,0.04) 0%, rgba(255,255,255,0.01) 100%)', border: '1px solid rgba(184,152,90,0.15)', borderRadius: '10px', overflow: 'hidden' },
-  tableHeader: { display: 'grid', gridTemplateColumns: '100px 80px 100px 80px 80px 120px 80px', gap: '12px', padding: '14px 20px', background: 'rgba(184,152,90,0.08)', borderBottom: '1px solid rgba(184,152,90,0.15)', fontSize: '9px', letterSpacing: '0.12em', color: 'var(--text3)' },
-  tableRow: { display: 'grid', gridTemplateColumns: '100px 80px 100px 80px 80px 120px 80px', gap: '12px', padding: '14px 20px', borderBottom: '1px solid rgba(184,152,90,0.08)', fontSize: '12px', alignItems: 'center', fontFamily: 'var(--mono)' },
+  filterBar: { display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: '12px', marginBottom: '24px' },
+  filterField: { display: 'flex', flexDirection: 'column', gap: '6px' },
+  filterLabel: { fontSize: '9px', letterSpacing: '0.15em', color: 'var(--text3)' },
+  filterInput: { padding: '8px 10px', fontSize: '12px', fontFamily: 'var(--mono)', background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(184,152,90,0.25)', borderRadius: '6px', color: 'var(--text)', outline: 'none', colorScheme: 'dark' },
+  exportBtn: { marginLeft: 'auto', fontSize: '11px', letterSpacing: '0.1em', color: '#000', background: 'linear-gradient(135deg, #c9a84c 0%, #b89840 100%)', textDecoration: 'none', padding: '9px 16px', borderRadius: '4px', fontWeight: 600 },
+  errorBox: { marginBottom: '16px', padding: '12px 16px', background: 'rgba(224,92,106,0.08)', border: '1px solid rgba(224,92,106,0.3)', borderRadius: '8px', fontSize: '12px', color: 'var(--red)' },
+  statSub: { marginTop: '6px', fontSize: '10px', color: 'var(--text3)', fontFamily: 'var(--mono)' },
+  tableHeader: { display: 'grid', gridTemplateColumns: '130px 40px 60px 90px 80px 80px 110px 70px', gap: '12px', padding: '14px 20px', background: 'rgba(184,152,90,0.08)', borderBottom: '1px solid rgba(184,152,90,0.15)', fontSize: '9px', letterSpacing: '0.12em', color: 'var(--text3)' },
+  tableRow: { display: 'grid', gridTemplateColumns: '130px 40px 60px 90px 80px 80px 110px 70px', gap: '12px', padding: '14px 20px', borderBottom: '1px solid rgba(184,152,90,0.08)', fontSize: '12px', alignItems: 'center', fontFamily: 'var(--mono)' },
   colDate: { color: 'var(--text3)' },
+  colTf: { color: 'var(--text2)' },
   colAction: { fontWeight: 600, fontSize: '11px', letterSpacing: '0.08em' },
   colEntry: { color: 'var(--text)' },
   colSL: { color: 'var(--red)' },
@@ -191,6 +291,8 @@ const s: Record<string, any> = {
   colResult: { fontWeight: 600, fontSize: '11px' },
   colConf: { display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: 'var(--text2)' },
   confDot: { width: '6px', height: '6px', borderRadius: '50%' },
+  emptyRow: { padding: '28px 20px', textAlign: 'center', fontSize: '12px', color: 'var(--text3)' },
+  tableNote: { marginTop: '10px', fontSize: '11px', color: 'var(--text3)', textAlign: 'right' },
   disclaimer: { marginTop: '24px', padding: '16px', background: 'rgba(184,152,90,0.05)', border: '1px solid rgba(184,152,90,0.15)', borderRadius: '8px', fontSize: '11px', color: 'var(--text2)', textAlign: 'center', lineHeight: 1.6 },
   footer: { borderTop: '1px solid rgba(184,152,90,0.12)', padding: '24px 40px', display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '12px' },
   footerBrand: { fontFamily: 'var(--serif)', fontSize: '12px', letterSpacing: '0.15em', color: 'var(--gold)' },
@@ -0,0 +1,48 @@
+// scripts/backtest.ts — Backtest a strategy profile over the stored candle history
+// npm run backtest -- --interval 1h --profile hybrid-conservative --from 2025-01-01 [--params '{"stopAtr":2}'] [--json]
+import { runBacktest, type BacktestConfig } from '../lib/backtest'
+import type { StrategyParams } from '../lib/strategyparams'
+import { parseCli, loadSeries, positiveNumber, positiveInteger, jsonOption, formatTime } from './cli'
+
+const values = parseCli({
+  params: { type: 'string' },
+  sessions: { type: 'string' },
+  balance: { type: 'string' },
+  risk: { type: 'string' },
+  spread: { type: 'string' },
+  slippage: { type: 'string' },
+  'min-confidence': { type: 'string' },
+  'max-bars-in-trade': { type: 'string' }
+})
+
+const { symbol, interval, profile, candles } = loadSeries(values)
+
+const config: BacktestConfig = {
+  interval,
+  symbol,
+  profile: profile.id,
+  params: jsonOption<Partial<StrategyParams>>(values.params, 'params'),
+  sessions: jsonOption<BacktestConfig['sessions']>(values.sessions, 'sessions'),
+  initialBalance: positiveNumber(values.balance, 'balance'),
+  riskPercent: positiveNumber(values.risk, 'risk'),
+  spread: positiveNumber(values.spread, 'spread'),
+  slippage: positiveNumber(values.slippage, 'slippage'),
+  minConfidence: positiveNumber(values['min-confidence'], 'min-confidence'),
+  maxBarsInTrade: positiveInteger(values['max-bars-in-trade'], 'max-bars-in-trade')
+}
+
+console.error(`[backtest] ${symbol} ${interval}, ${profile.name}: ${candles.length} bars ${formatTime(candles[0].time)} → ${formatTime(candles[candles.length - 1].time)}`)
+const result = runBacktest(candles, config)
+
+if (values.json) {
+  console.log(JSON.stringify(result, null, 2))
+} else {
+  const m = result.metrics
+  console.log(`Trades           ${m.totalTrades} (${result.signals} signals, ${result.skipped} not filled, ${result.blocked} blocked by session gates)`)
+  console.log(`Win rate         ${m.winRate.toFixed(1)}%`)
+  console.log(`Profit factor    ${Number.isFinite(m.profitFactor) ? m.profitFactor.toFixed(2) : '∞'}`)
+  console.log(`Expectancy       ${m.expectancy.toFixed(2)}`)
+  console.log(`Max drawdown     ${m.maxDrawdown.toFixed(2)}`)
+  console.log(`Balance          ${result.initialBalance.toFixed(2)} → ${result.finalBalance.toFixed(2)}`)
+  if (result.unsimulatedGates.length > 0) console.log(`Not simulated    ${result.unsimulatedGates.join(', ')} (no history)`)
+}
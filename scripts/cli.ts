@@ -0,0 +1,98 @@
+// scripts/cli.ts — Shared argument parsing and candle loading for the research scripts
+import { parseArgs, type ParseArgsConfig } from 'node:util'
+import { ALLOWED_INTERVALS, type Candle } from '../lib/twelvedata'
+import { normalizeSymbol } from '../lib/providers'
+import { readCandles } from '../lib/candlestore'
+import { resolveStrategyProfile, type StrategyProfile } from '../lib/strategyprofiles'
+
+// Options every script reads: which stored series, which slice of it, which profile
+export const SERIES_OPTIONS = {
+  symbol: { type: 'string', default: 'XAU/USD' },
+  interval: { type: 'string' },
+  profile: { type: 'string' },
+  from: { type: 'string' },
+  to: { type: 'string' },
+  limit: { type: 'string' },
+  json: { type: 'boolean', default: false }
+} satisfies NonNullable<ParseArgsConfig['options']>
+
+export function parseCli<T extends NonNullable<ParseArgsConfig['options']>>(options: T) {
+  return parseArgs({ args: process.argv.slice(2), options: { ...SERIES_OPTIONS, ...options }, strict: true }).values
+}
+
+export function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+// Accepts epoch seconds or anything Date.parse understands (e.g. 2026-02-01)
+function parseTime(value: string | undefined, endOfDay: boolean): number | undefined {
+  if (value === undefined) return undefined
+  if (/^\d+$/.test(value)) return Number(value)
+  const ms = Date.parse(value)
+  if (!Number.isFinite(ms)) fail(`Invalid date: ${value}`)
+  // A bare date as the upper bound includes that whole day
+  const dayOnly = /^\d{4}-\d{2}-\d{2}$/.test(value)
+  return Math.floor(ms / 1000) + (endOfDay && dayOnly ? 86_399 : 0)
+}
+
+export function positiveNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined
+  const n = Number(value)
+  if (!(Number.isFinite(n) && n > 0)) fail(`--${name} must be a positive number`)
+  return n
+}
+
+export function positiveInteger(value: string | undefined, name: string): number | undefined {
+  const n = positiveNumber(value, name)
+  if (n !== undefined && !Number.isInteger(n)) fail(`--${name} must be a whole number`)
+  return n
+}
+
+export function jsonOption<T>(value: string | undefined, name: string): T | undefined {
+  if (value === undefined) return undefined
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    fail(`--${name} is not valid JSON`)
+  }
+}
+
+export interface SeriesSelection {
+  symbol: string
+  interval: string
+  profile: StrategyProfile
+  candles: Candle[]
+}
+
+/** Resolve the profile and interval, then read the requested slice of the candle store. */
+export function loadSeries(values: {
+  symbol?: string
+  interval?: string
+  profile?: string
+  from?: string
+  to?: string
+  limit?: string
+}): SeriesSelection {
+  let profile: StrategyProfile
+  try {
+    profile = resolveStrategyProfile(values.profile)
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error))
+  }
+  const interval = values.interval ?? profile.interval ?? '1h'
+  if (!ALLOWED_INTERVALS.has(interval)) fail(`Invalid interval ${interval} — expected one of ${[...ALLOWED_INTERVALS].join(', ')}`)
+  const symbol = normalizeSymbol(values.symbol ?? 'XAU/USD')
+
+  const candles = readCandles(symbol, interval, {
+    from: parseTime(values.from, false),
+    to: parseTime(values.to, true),
+    limit: positiveInteger(values.limit, 'limit')
+  })
+  if (candles.length === 0) fail(`No stored ${symbol} ${interval} candles — import history first (see README)`)
+  return { symbol, interval, profile, candles }
+}
+
+export function formatTime(epochSeconds: number): string {
+  return new Date(epochSeconds * 1000).toISOString().slice(0, 16).replace('T', ' ')
+}
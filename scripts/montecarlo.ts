@@ -0,0 +1,65 @@
+// scripts/montecarlo.ts — Monte Carlo bands for a backtest's trades, and the position-scaling advice they imply
+// npm run montecarlo -- --interval 1h --profile hybrid --iterations 5000 --method bootstrap [--json]
+import { runBacktest } from '../lib/backtest'
+import { runMonteCarlo, type MonteCarloMethod, type Percentiles } from '../lib/montecarlo'
+import { recommendPositionScaling } from '../lib/advisoryengine'
+import type { StrategyParams } from '../lib/strategyparams'
+import { parseCli, loadSeries, positiveNumber, positiveInteger, jsonOption, fail, formatTime } from './cli'
+
+const METHODS: MonteCarloMethod[] = ['bootstrap', 'shuffle']
+
+const values = parseCli({
+  params: { type: 'string' },
+  balance: { type: 'string' },
+  risk: { type: 'string' },
+  iterations: { type: 'string' },
+  method: { type: 'string' },
+  seed: { type: 'string' }
+})
+
+const { symbol, interval, profile, candles } = loadSeries(values)
+
+const method = values.method as MonteCarloMethod | undefined
+if (method !== undefined && !METHODS.includes(method)) fail(`--method must be one of ${METHODS.join(', ')}`)
+const initialBalance = positiveNumber(values.balance, 'balance') ?? 10_000
+const riskPercent = positiveNumber(values.risk, 'risk') ?? 0.01
+if (riskPercent > 0.1) fail('--risk is a fraction of balance, at most 0.1')
+
+console.error(`[montecarlo] ${symbol} ${interval}, ${profile.name}: ${candles.length} bars ${formatTime(candles[0].time)} → ${formatTime(candles[candles.length - 1].time)}`)
+const backtest = runBacktest(candles, {
+  interval,
+  symbol,
+  profile: profile.id,
+  params: jsonOption<Partial<StrategyParams>>(values.params, 'params'),
+  initialBalance,
+  riskPercent
+})
+if (backtest.trades.length === 0) fail('The backtest produced no trades to resample')
+
+// Replayed at the backtest's risk, so the advisory can scale from it
+const monteCarlo = runMonteCarlo(backtest.trades, {
+  iterations: positiveInteger(values.iterations, 'iterations'),
+  method,
+  initialBalance,
+  riskPercent,
+  seed: values.seed
+})
+const scaling = recommendPositionScaling(
+  initialBalance,
+  monteCarlo,
+  backtest.metrics.winRate / 100,
+  backtest.metrics.expectancy
+)
+
+if (values.json) {
+  console.log(JSON.stringify({ backtest: backtest.metrics, monteCarlo, scaling }, null, 2))
+} else {
+  const bands = (p: Percentiles, unit = '') => `p5 ${p.p5}${unit}  p50 ${p.p50}${unit}  p95 ${p.p95}${unit}`
+  console.log(`${monteCarlo.iterations} ${monteCarlo.method} paths of ${monteCarlo.tradesPerRun} trades at ${(riskPercent * 100).toFixed(2)}% risk`)
+  console.log(`Final equity     ${bands(monteCarlo.finalEquity)}`)
+  console.log(`Max drawdown     ${bands(monteCarlo.maxDrawdownPct, '%')}`)
+  console.log(`P(loss)          ${(monteCarlo.probabilityOfLoss * 100).toFixed(1)}%`)
+  console.log(`Risk of ruin     ${(monteCarlo.riskOfRuin * 100).toFixed(1)}%`)
+  console.log(`Advice           ${scaling.recommendation} → ${scaling.targetRiskPercent}% risk (confidence ${scaling.confidence}%)`)
+  console.log(`                 ${scaling.reason}`)
+}
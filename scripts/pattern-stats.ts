@@ -0,0 +1,37 @@
+// scripts/pattern-stats.ts — Measure every pattern's forward outcomes on the stored history and save the report
+// npm run pattern-stats -- --intervals 15min,1h --horizons 5,10,20 [--risk-atr 1.5] [--max-bars 20000]
+import { parseArgs } from 'node:util'
+import { ALLOWED_INTERVALS } from '../lib/twelvedata'
+import { MAX_SCAN_BARS, runPatternStatistics, savePatternStats } from '../lib/patternstats'
+import { fail, positiveInteger, positiveNumber } from './cli'
+
+const { values } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    symbol: { type: 'string', default: 'XAU/USD' },
+    intervals: { type: 'string' },
+    horizons: { type: 'string' },
+    'risk-atr': { type: 'string' },
+    'max-bars': { type: 'string' }
+  },
+  strict: true
+})
+
+const list = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean)
+
+const intervals = values.intervals ? list(values.intervals) : [...ALLOWED_INTERVALS]
+const invalid = intervals.find(iv => !ALLOWED_INTERVALS.has(iv))
+if (invalid) fail(`Invalid interval ${invalid} — expected one of ${[...ALLOWED_INTERVALS].join(', ')}`)
+const horizons = values.horizons ? list(values.horizons).map(h => positiveInteger(h, 'horizons') as number) : undefined
+const maxBars = positiveInteger(values['max-bars'], 'max-bars')
+if (maxBars !== undefined && maxBars > MAX_SCAN_BARS) fail(`--max-bars is capped at ${MAX_SCAN_BARS}`)
+
+const report = runPatternStatistics(values.symbol ?? 'XAU/USD', intervals, {
+  horizons,
+  riskAtr: positiveNumber(values['risk-atr'], 'risk-atr'),
+  maxBars
+})
+const samples = report.stats.filter(s => s.session === 'ALL').reduce((sum, s) => sum + s.samples, 0)
+console.log(`[pattern-stats] ${report.symbol}: ${samples} samples over ${report.intervals.map(iv => `${iv.interval} ${iv.bars}`).join(', ')}`)
+if (!savePatternStats(report)) fail('Failed to save the pattern statistics')
+console.log('[pattern-stats] Saved — /api/analyze picks the new numbers up on its next run')
@@ -0,0 +1,64 @@
+// scripts/walkforward.ts — Walk-forward optimization over the stored candle history
+// npm run walkforward -- --interval 1h --grid '{"stopAtr":[1.5,2,2.5]}' --in-sample 2000 --out-of-sample 500 [--json]
+import { runWalkForward, type ParameterGrid, type WalkForwardObjective, type WalkForwardReport } from '../lib/walkforward'
+import { parseCli, loadSeries, positiveInteger, jsonOption, fail, formatTime } from './cli'
+
+const OBJECTIVES: WalkForwardObjective[] = ['expectancy', 'profitFactor', 'sharpeRatio', 'totalPnl']
+
+const values = parseCli({
+  grid: { type: 'string' },
+  'in-sample': { type: 'string' },
+  'out-of-sample': { type: 'string' },
+  step: { type: 'string' },
+  objective: { type: 'string' },
+  'min-trades': { type: 'string' }
+})
+
+const { symbol, interval, profile, candles } = loadSeries(values)
+
+const grid = jsonOption<ParameterGrid>(values.grid, 'grid')
+if (!grid || typeof grid !== 'object' || Array.isArray(grid)) fail('--grid is required: a JSON object of parameter → candidate values')
+const objective = values.objective as WalkForwardObjective | undefined
+if (objective !== undefined && !OBJECTIVES.includes(objective)) fail(`--objective must be one of ${OBJECTIVES.join(', ')}`)
+const inSampleBars = positiveInteger(values['in-sample'], 'in-sample')
+const outOfSampleBars = positiveInteger(values['out-of-sample'], 'out-of-sample')
+if (inSampleBars === undefined || outOfSampleBars === undefined) fail('--in-sample and --out-of-sample bar counts are required')
+
+console.error(`[walkforward] ${symbol} ${interval}, ${profile.name}: ${candles.length} bars ${formatTime(candles[0].time)} → ${formatTime(candles[candles.length - 1].time)}`)
+let report: WalkForwardReport
+try {
+  report = runWalkForward(candles, {
+    interval,
+    grid,
+    inSampleBars,
+    outOfSampleBars,
+    stepBars: positiveInteger(values.step, 'step'),
+    objective,
+    minTrades: positiveInteger(values['min-trades'], 'min-trades'),
+    backtest: { symbol, profile: profile.id }
+  })
+} catch (error) {
+  fail(error instanceof Error ? error.message : String(error))
+}
+if (report.windows.length === 0) fail(`${candles.length} bars is too short for one window (200 warmup + ${inSampleBars} + ${outOfSampleBars})`)
+
+if (values.json) {
+  console.log(JSON.stringify(report, null, 2))
+} else {
+  const fmt = (v: number) => Number.isFinite(v) ? v.toFixed(2) : String(v)
+  console.log(`${report.windows.length} windows, ${report.combinations} combinations, objective ${report.objective}`)
+  for (const w of report.windows) {
+    console.log(
+      `#${w.index} OOS ${formatTime(w.outOfSample.from)} → ${formatTime(w.outOfSample.to)}  ${w.label}` +
+      `  IS ${fmt(w.inSampleScore)} / OOS ${fmt(w.outOfSampleScore)}` +
+      (w.efficiency !== null ? `  eff ${w.efficiency.toFixed(2)}` : '') +
+      (w.lowSample ? '  (low sample)' : '')
+    )
+  }
+  const m = report.outOfSample
+  console.log(`Out of sample    ${m.totalTrades} trades, ${m.winRate.toFixed(1)}% win rate, expectancy ${fmt(m.expectancy)}, P&L ${fmt(m.totalPnl)}`)
+  console.log(`Efficiency       ${report.efficiency !== null ? report.efficiency.toFixed(2) : 'n/a'}`)
+  for (const s of report.stability) {
+    console.log(`  ${s.param} = ${s.value}: chosen in ${s.selected}/${report.windows.length} windows`)
+  }
+}
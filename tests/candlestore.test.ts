@@ -0,0 +1,72 @@
+// tests/candlestore.test.ts — Upserts dedupe by time, range reads, and compaction that survives a reload
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { readCandles, upsertCandles, getStoredSeriesInfo } from '../lib/candlestore'
+import type { Candle } from '../lib/twelvedata'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipnexus-store-'))
+process.env.CANDLE_STORE_DIR = dir
+
+const T0 = 1_760_000_000
+
+function bar(i: number, close = 2650 + i): Candle {
+  return { time: T0 + i * 3600, open: close, high: close + 1, low: close - 1, close, volume: 1 }
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, k) => bar(from + k))
+const fileLines = (name: string) => fs.readFileSync(path.join(dir, name), 'utf-8').trim().split('\n')
+
+// Forces the next read to parse the file instead of the in-memory copy
+function touch(name: string): void {
+  const later = new Date(Date.now() + 60_000)
+  fs.utimesSync(path.join(dir, name), later, later)
+}
+
+test('upserts merge by time: the forming bar is overwritten, not duplicated', () => {
+  assert.ok(upsertCandles('XAU/USD', '1h', range(0, 4)))
+  assert.ok(upsertCandles('XAU/USD', '1h', [bar(4, 2700), bar(5)]))
+
+  const candles = readCandles('XAU/USD', '1h')
+  assert.deepEqual(candles.map(c => c.time), range(0, 5).map(c => c.time))
+  assert.equal(candles[4].close, 2700)
+  // Appended, not rewritten: the superseded bar 4 line is still on disk until compaction
+  assert.equal(fileLines('XAUUSD_1h.ndjson').length, 7)
+  assert.deepEqual(getStoredSeriesInfo('XAU/USD', '1h'), { symbol: 'XAU/USD', interval: '1h', count: 6, first: T0, last: T0 + 5 * 3600 })
+})
+
+test('range reads: from and to are inclusive, limit keeps the most recent bars', () => {
+  const times = (candles: Candle[]) => candles.map(c => (c.time - T0) / 3600)
+  assert.deepEqual(times(readCandles('XAU/USD', '1h', { from: T0 + 3600, to: T0 + 3 * 3600 })), [1, 2, 3])
+  assert.deepEqual(times(readCandles('XAU/USD', '1h', { from: T0 + 1800 })), [1, 2, 3, 4, 5])
+  assert.deepEqual(times(readCandles('XAU/USD', '1h', { to: T0 + 3 * 3600, limit: 2 })), [2, 3])
+  assert.deepEqual(times(readCandles('XAU/USD', '1h', { limit: 3 })), [3, 4, 5])
+  assert.deepEqual(readCandles('XAU/USD', '4h'), [])
+})
+
+test('superseded lines past the compaction ratio trigger a rewrite', () => {
+  upsertCandles('XAU/USD', '15min', range(0, 3))
+  // 4 bars: the rewrite happens once lines exceed 6
+  for (const close of [1, 2]) upsertCandles('XAU/USD', '15min', [bar(3, close)])
+  assert.equal(fileLines('XAUUSD_15min.ndjson').length, 6)
+  upsertCandles('XAU/USD', '15min', [bar(3, 3)])
+  assert.equal(fileLines('XAUUSD_15min.ndjson').length, 4)
+  assert.equal(readCandles('XAU/USD', '15min')[3].close, 3)
+})
+
+test('a backfill rewrites the series atomically and survives a reload', () => {
+  upsertCandles('XAU/USD', '1day', range(10, 12))
+  upsertCandles('XAU/USD', '1day', [bar(8), bar(11, 2000)])
+
+  assert.deepEqual(fileLines('XAUUSD_1day.ndjson').map(line => JSON.parse(line).time), [8, 10, 11, 12].map(i => T0 + i * 3600))
+  assert.deepEqual(fs.readdirSync(dir).filter(name => name.endsWith('.tmp')), [])
+
+  // A torn line from an interrupted append is skipped on the next load
+  fs.appendFileSync(path.join(dir, 'XAUUSD_1day.ndjson'), '{"time":')
+  touch('XAUUSD_1day.ndjson')
+  const reloaded = readCandles('XAU/USD', '1day')
+  assert.deepEqual(reloaded.map(c => c.time), [8, 10, 11, 12].map(i => T0 + i * 3600))
+  assert.equal(reloaded[2].close, 2000)
+})
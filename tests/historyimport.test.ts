@@ -0,0 +1,91 @@
+// tests/historyimport.test.ts — Broker CSV layouts to UTC, daily resampling by gold trading day and Parquet rejection
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { importHistoricalCsv, parseBrokerCsv, resampleToTradingDays } from '../lib/historyimport'
+import type { Candle } from '../lib/twelvedata'
+
+function hourly(isoStart: string, closes: number[]): Candle[] {
+  const start = Date.parse(isoStart) / 1000
+  return closes.map((close, i) => ({ time: start + i * 3600, open: close, high: close + 1, low: close - 1, close, volume: 1 }))
+}
+
+const utc = (candles: Candle[]) => candles.map(c => [new Date(c.time * 1000).toISOString(), c.open, c.high, c.low, c.close, c.volume])
+
+test('MT5 exports are read in broker time and converted to UTC', () => {
+  const csv = [
+    '<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\t<VOL>\t<SPREAD>',
+    '2024.01.02\t01:00:00\t2063.50\t2066.10\t2062.80\t2065.40\t1520\t0\t12',
+    '2024.07.02\t01:00:00\t2331.20\t2333.00\t2329.90\t2332.40\t980\t0\t15'
+  ].join('\n')
+  const parsed = parseBrokerCsv(csv, { timeZone: 'EET' })
+  assert.equal(parsed.format, 'mt5')
+  // EET is UTC+2 in winter and UTC+3 in summer
+  assert.deepEqual(utc(parsed.candles), [
+    ['2024-01-01T23:00:00.000Z', 2063.5, 2066.1, 2062.8, 2065.4, 1520],
+    ['2024-07-01T22:00:00.000Z', 2331.2, 2333, 2329.9, 2332.4, 980]
+  ])
+})
+
+test('headerless MT4/MT5 rows take a fixed UTC offset', () => {
+  const parsed = parseBrokerCsv('2024.01.02,01:00,2063.5,2066.1,2062.8,2065.4,1520\n2024.01.02,02:00,2065.4,2067,2064,2066.2,900', { utcOffsetMinutes: 120 })
+  assert.equal(parsed.format, 'mt5')
+  assert.equal(parsed.sourceSeconds, 3600)
+  assert.deepEqual(utc(parsed.candles), [
+    ['2024-01-01T23:00:00.000Z', 2063.5, 2066.1, 2062.8, 2065.4, 1520],
+    ['2024-01-02T00:00:00.000Z', 2065.4, 2067, 2064, 2066.2, 900]
+  ])
+})
+
+test('Dukascopy rows are GMT, or carry their own offset', () => {
+  const csv = [
+    'Gmt time,Open,High,Low,Close,Volume',
+    '02.01.2024 00:00:00.000,2063.5,2066.1,2062.8,2065.4,0.152',
+    '02.01.2024 03:00:00.000 GMT+0200,2065.4,2067,2064,2066.2,0.09'
+  ].join('\n')
+  const parsed = parseBrokerCsv(csv)
+  assert.equal(parsed.format, 'dukascopy')
+  assert.deepEqual(utc(parsed.candles), [
+    ['2024-01-02T00:00:00.000Z', 2063.5, 2066.1, 2062.8, 2065.4, 0.152],
+    ['2024-01-02T01:00:00.000Z', 2065.4, 2067, 2064, 2066.2, 0.09]
+  ])
+})
+
+test('generic CSVs keep ISO offsets and skip invalid rows', () => {
+  const csv = [
+    'datetime,open,high,low,close,volume',
+    '2024-01-02T00:00:00Z,2063.5,2066.1,2062.8,2065.4,10',
+    '2024-01-02T03:15:00+02:00,2065.4,2067,2064,2066.2,11',
+    '2024-01-02T02:15:00Z,2066,2065,2067,2066,12'
+  ].join('\n')
+  const parsed = parseBrokerCsv(csv)
+  assert.equal(parsed.format, 'generic')
+  assert.equal(parsed.skipped, 1)
+  assert.deepEqual(utc(parsed.candles), [
+    ['2024-01-02T00:00:00.000Z', 2063.5, 2066.1, 2062.8, 2065.4, 10],
+    ['2024-01-02T01:15:00.000Z', 2065.4, 2067, 2064, 2066.2, 11]
+  ])
+})
+
+test('semicolon exports with decimal commas are parsed', () => {
+  const csv = 'Date;Time;Open;High;Low;Close;Volume\n2024.01.02;01:00;2063,50;2066,10;2062,80;2065,40;1520'
+  const parsed = parseBrokerCsv(csv, { utcOffsetMinutes: 120 })
+  assert.equal(parsed.skipped, 0)
+  assert.deepEqual(utc(parsed.candles), [['2024-01-01T23:00:00.000Z', 2063.5, 2066.1, 2062.8, 2065.4, 1520]])
+})
+
+test('daily bars split at 17:00 New York, not UTC midnight', () => {
+  // 20:00–01:00 UTC on 13–14 Jan 2026 is 15:00–20:00 New York (EST)
+  const days = resampleToTradingDays(hourly('2026-01-13T20:00:00Z', [1, 2, 3, 4, 5, 6]))
+  assert.deepEqual(days.map(d => new Date(d.time * 1000).toISOString().slice(0, 10)), ['2026-01-13', '2026-01-14'])
+  assert.deepEqual(days.map(d => [d.open, d.close, d.volume]), [[1, 2, 2], [3, 6, 4]])
+})
+
+test('the trading-day split follows New York daylight saving', () => {
+  // 20:00 UTC on 14 Jul 2026 is 16:00 New York (EDT); 21:00 UTC opens the next trading day
+  const days = resampleToTradingDays(hourly('2026-07-14T20:00:00Z', [1, 2]))
+  assert.equal(days.length, 2)
+})
+
+test('Parquet input is rejected', () => {
+  assert.throws(() => importHistoricalCsv('XAU/USD', 'PAR1\u0000\u0000'), /Parquet is not supported/)
+})
@@ -0,0 +1,61 @@
+// tests/hybridsignal.test.ts — Breakout entries carry the price action level set
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { combineSignals } from '../lib/hybridsignal'
+import type { GoldSignal } from '../lib/analysis'
+import type { PriceActionSignal } from '../lib/priceaction'
+
+const ATR = 10
+
+// ICT levels around a 2650 market price: 1.5 ATR stop, 2/3/4R targets
+function ict(action: GoldSignal['action']): GoldSignal {
+  return {
+    action, confidence: 70, entry: 2650, entryZone: [2645, 2650],
+    entryCandidates: [{ source: 'FVG_CE', price: 2647, ref: 'fvg_1' }],
+    stopLoss: 2635, tp1: 2680, tp2: 2695, tp3: 2710, rr1: 2, rr2: 3, rr3: 4,
+    pips: { sl: 150, tp1: 300, tp2: 450, tp3: 600 }, confluences: [], invalidation: 'Price below $2635.00',
+    sessionBias: 'BULLISH', mtaScore: 0, patternScore: 0, liquidityScore: 0, overallScore: 70
+  }
+}
+
+// Bullish breakout order at 2660 with a measured move to 2700
+const breakout = {
+  action: 'BUY', confidence: 80, entry: 2660, stopLoss: 2645, takeProfit1: 2680, takeProfit2: 2700, riskReward: 4 / 3,
+  patterns: [], chartPattern: { name: 'Double Bottom' }, entryType: 'BREAKOUT', confluences: []
+} as unknown as PriceActionSignal
+
+function assertBreakoutLevels(signal: GoldSignal) {
+  assert.equal(signal.entry, 2660)
+  assert.equal(signal.stopLoss, 2645)
+  assert.equal(signal.tp1, 2680)
+  assert.equal(signal.tp2, 2700)
+  assert.equal(signal.tp3, 2660 + 40 * 1.618)
+  assert.equal(signal.rr2, 40 / 15)
+  assert.deepEqual({ ...signal.pips, tp3: Math.round(signal.pips.tp3 * 10) / 10 }, { sl: 150, tp1: 200, tp2: 400, tp3: 647.2 })
+  assert.deepEqual(signal.entryZone, [2659, 2661])
+  assert.deepEqual(signal.entryCandidates, [])
+  assert.equal(signal.invalidation, 'Price below $2645.00')
+}
+
+test('agreeing signals with a breakout entry use the breakout geometry for every level', () => {
+  const signal = combineSignals(ict('BUY'), breakout, ATR)
+  assert.equal(signal.entryType, 'BREAKOUT')
+  assertBreakoutLevels(signal)
+})
+
+test('price action alone with a breakout entry uses the breakout geometry for every level', () => {
+  const signal = combineSignals(ict('WAIT'), breakout, ATR)
+  assert.equal(signal.action, 'BUY')
+  assertBreakoutLevels(signal)
+})
+
+test('agreeing market entries average entry, stop and TP1 and recompute R:R and pips', () => {
+  const market = { ...breakout, entry: 2650, stopLoss: 2640, takeProfit1: 2670, entryType: 'MARKET' } as PriceActionSignal
+  const signal = combineSignals(ict('BUY'), market, ATR)
+  assert.equal(signal.stopLoss, 2637.5)
+  assert.equal(signal.tp1, 2675)
+  assert.equal(signal.tp2, 2695)
+  assert.equal(signal.rr1, 25 / 12.5)
+  assert.equal(signal.pips.sl, 125)
+  assert.deepEqual(signal.entryCandidates, ict('BUY').entryCandidates)
+})
@@ -0,0 +1,23 @@
+// tests/positionsize.test.ts — Kelly is only sized from a measured edge
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { sizePosition, type AccountSpec } from '../lib/positionsize'
+
+const account: AccountSpec = { balance: 10_000, currency: 'USD', usdRate: 1, riskPercent: 0.01, contractSize: 100, lotStep: 0.01, minLot: 0.01, leverage: 100 }
+const trade = { entry: 2650, stopLoss: 2642.5 }
+const kellyRow = (report: ReturnType<typeof sizePosition>) => report.sizes.find(s => s.method === 'KELLY')
+
+test('without measured statistics Kelly is unavailable at 0 lots', () => {
+  const report = sizePosition(account, trade, null)
+  assert.equal(report.kelly, null)
+  assert.equal(kellyRow(report)?.lots, 0)
+  assert.match(kellyRow(report)?.note ?? '', /^Unavailable/)
+  // The other methods still size the trade
+  assert.ok((report.sizes.find(s => s.method === 'FIXED_FRACTIONAL')?.lots ?? 0) > 0)
+})
+
+test('a measured edge sizes Kelly', () => {
+  const report = sizePosition(account, trade, { winRate: 0.55, payoff: 1.8, samples: 40, source: 'JOURNAL' })
+  assert.ok((kellyRow(report)?.lots ?? 0) > 0)
+  assert.match(kellyRow(report)?.note ?? '', /from 40 journaled trades/)
+})
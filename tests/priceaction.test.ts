@@ -0,0 +1,127 @@
+// tests/priceaction.test.ts — Hand-built fixtures for the ATR-normalized candlestick patterns
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { detectCandlestickPatterns, type Candle } from '../lib/priceaction'
+
+// Every fixture is scored against ATR 10, so PATTERN_ATR multiples read directly as price.
+// Bearish fixtures mirror the bullish ones around 100 (price p becomes 200 - p).
+const ATR = 10
+
+type OHLC = [open: number, high: number, low: number, close: number]
+
+function bars(...ohlc: OHLC[]): Candle[] {
+  return ohlc.map(([open, high, low, close], i) => ({ time: 1_700_000_000 + i * 3600, open, high, low, close }))
+}
+
+// Flat spacer so two-candle patterns land on the scanned bars (the scan starts at the third candle)
+const SPACER: OHLC = [100, 100.5, 99.5, 100]
+
+// Pattern names detected on the last candle
+function namesAt(candles: Candle[]): string[] {
+  return detectCandlestickPatterns(candles, ATR).filter(p => p.index === candles.length - 1).map(p => p.name)
+}
+
+// Found fixtures must match only the pattern under test, not engulfing or tweezer look-alikes
+function assertOnly(candles: Candle[], name: string): void {
+  assert.deepEqual(namesAt(candles), [name])
+}
+
+function assertNot(candles: Candle[], name: string): void {
+  assert.ok(!namesAt(candles).includes(name))
+}
+
+test('harami: small bullish body inside a large bearish one', () => {
+  assertOnly(bars(SPACER, [100, 101, 91, 92], [94, 97.5, 93.5, 97]), 'Bullish Harami')
+})
+
+test('harami: mother body just under largeBody (0.6 ATR) is ignored', () => {
+  assertNot(bars(SPACER, [100, 101, 93.5, 94.1], [95, 97.5, 94.5, 97]), 'Bullish Harami')
+})
+
+test('harami: small bearish body inside a large bullish one', () => {
+  assertOnly(bars(SPACER, [100, 109, 99, 108], [106, 106.5, 102.5, 103]), 'Bearish Harami')
+})
+
+test('harami: bullish mother body just under largeBody is ignored', () => {
+  assertNot(bars(SPACER, [100, 106.5, 99, 105.9], [105, 105.5, 102.5, 103]), 'Bearish Harami')
+})
+
+test('tweezer: matching lows within tweezerMatch (0.05 ATR)', () => {
+  assertOnly(bars(SPACER, [100, 101, 95, 96], [96, 100, 95.3, 99.5]), 'Tweezer Bottom')
+})
+
+test('tweezer: lows just over tweezerMatch apart are not a tweezer', () => {
+  assertNot(bars(SPACER, [100, 101, 95, 96], [96, 100, 94.4, 99.5]), 'Tweezer Bottom')
+})
+
+test('tweezer: matching highs within tweezerMatch', () => {
+  assertOnly(bars(SPACER, [100, 105, 99, 104], [104, 104.7, 100, 100.5]), 'Tweezer Top')
+})
+
+test('tweezer: highs just over tweezerMatch apart are not a tweezer', () => {
+  assertNot(bars(SPACER, [100, 105, 99, 104], [104, 105.6, 100, 100.5]), 'Tweezer Top')
+})
+
+test('piercing line: gap under a large bearish close, close past its midpoint', () => {
+  assertOnly(bars(SPACER, [100, 100.5, 91.5, 92], [91.5, 97.5, 90.5, 97]), 'Piercing Line')
+})
+
+test('piercing line: first body just under largeBody (0.6 ATR) is ignored', () => {
+  assertNot(bars(SPACER, [100, 100.5, 93.5, 94.1], [94, 98.5, 93.5, 98]), 'Piercing Line')
+})
+
+test('dark cloud cover: gap over a large bullish close, close past its midpoint', () => {
+  assertOnly(bars(SPACER, [100, 108.5, 99.5, 108], [108.5, 109.5, 102.5, 103]), 'Dark Cloud Cover')
+})
+
+test('dark cloud cover: first body just under largeBody is ignored', () => {
+  assertNot(bars(SPACER, [100, 106.5, 99.5, 105.9], [106, 106.5, 101.5, 102]), 'Dark Cloud Cover')
+})
+
+test('outside bar reversal: range over outsideRange (1.2 ATR), close in the top quarter', () => {
+  assertOnly(bars(SPACER, [100, 101, 96, 97], [98, 103, 90, 102.5]), 'Outside Bar Reversal (Bullish)')
+})
+
+test('outside bar reversal: range just under outsideRange is ignored', () => {
+  assertNot(bars(SPACER, [100, 101, 96, 97], [95, 102.9, 91, 102.5]), 'Outside Bar Reversal (Bullish)')
+})
+
+test('outside bar reversal: range over outsideRange, close in the bottom quarter', () => {
+  assertOnly(bars(SPACER, [100, 104, 99, 103], [102, 110, 97, 97.5]), 'Outside Bar Reversal (Bearish)')
+})
+
+test('outside bar reversal: bearish range just under outsideRange is ignored', () => {
+  assertNot(bars(SPACER, [100, 104, 99, 103], [105, 109, 97.1, 97.5]), 'Outside Bar Reversal (Bearish)')
+})
+
+test('three white soldiers: three large bodies closing near their highs', () => {
+  assertOnly(bars([100, 105.5, 99.5, 105], [103, 109.5, 102.5, 109], [107, 113.5, 106.5, 113]), 'Three White Soldiers')
+})
+
+test('three white soldiers: closing wick just over soldierWick (0.25 ATR) breaks the run', () => {
+  assertNot(bars([100, 105.5, 99.5, 105], [103, 109.5, 102.5, 109], [107, 115.6, 106.5, 113]), 'Three White Soldiers')
+})
+
+test('three black crows: three large bodies closing near their lows', () => {
+  assertOnly(bars([100, 100.5, 94.5, 95], [97, 97.5, 90.5, 91], [93, 93.5, 86.5, 87]), 'Three Black Crows')
+})
+
+test('three black crows: closing wick just over soldierWick breaks the run', () => {
+  assertNot(bars([100, 100.5, 94.5, 95], [97, 97.5, 90.5, 91], [93, 93.5, 84.4, 87]), 'Three Black Crows')
+})
+
+test('inside bar breakout: close beyond the mother bar by more than breakout (0.1 ATR)', () => {
+  assertOnly(bars([100, 110, 100, 108], [105, 108, 102, 104], [104.5, 112, 103.5, 111.5]), 'Inside Bar Breakout (Bullish)')
+})
+
+test('inside bar breakout: close just inside the breakout margin is not a breakout', () => {
+  assertNot(bars([100, 110, 100, 108], [105, 108, 102, 104], [104, 111.5, 103.5, 110.9]), 'Inside Bar Breakout (Bullish)')
+})
+
+test('inside bar breakout: close below the mother bar by more than breakout', () => {
+  assertOnly(bars([100, 100, 90, 92], [95, 98, 92, 96], [95.5, 96.5, 88, 88.5]), 'Inside Bar Breakout (Bearish)')
+})
+
+test('inside bar breakout: bearish close just inside the breakout margin is not a breakout', () => {
+  assertNot(bars([100, 100, 90, 92], [95, 98, 92, 96], [96, 96.5, 88.5, 89.1]), 'Inside Bar Breakout (Bearish)')
+})
@@ -0,0 +1,46 @@
+// tests/sessions.test.ts — Session state across the US and UK clock changes, and calendar overrides
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getSessionState, resolveSessionCalendar, type SessionCalendarOverrides } from '../lib/sessions'
+
+// 2026: US clocks change Mar 8 / Nov 1, UK clocks Mar 29 / Oct 25
+const at = (iso: string) => getSessionState(Date.parse(iso))
+
+test('New York opens an hour earlier in UTC once US daylight time starts', () => {
+  const before = at('2026-03-03T12:00:00Z')
+  assert.equal(before.newYorkTime, '07:00')
+  assert.equal(before.session, 'LONDON')
+  assert.equal(before.killzone, 'NY_AM')
+
+  const after = at('2026-03-10T12:00:00Z')
+  assert.equal(after.newYorkTime, '08:00')
+  assert.equal(after.session, 'OVERLAP')
+})
+
+test('London follows UK time, not New York, in the weeks the clocks disagree', () => {
+  // Mar 23: US already on daylight time, UK not yet — 07:30 UTC is 07:30 in London
+  const gap = at('2026-03-23T07:30:00Z')
+  assert.equal(gap.session, 'OFF_HOURS')
+  assert.equal(gap.killzone, 'LONDON_OPEN')
+
+  // Mar 30: BST — the same UTC instant is 08:30 in London
+  assert.equal(at('2026-03-30T07:30:00Z').session, 'LONDON')
+
+  // Oct 27: UK back on GMT, US still on daylight time
+  assert.equal(at('2026-10-27T12:00:00Z').session, 'OVERLAP')
+  assert.equal(at('2026-11-03T12:00:00Z').session, 'LONDON')
+})
+
+test('the CME break tracks 17:00 New York on both sides of the change', () => {
+  assert.equal(at('2026-03-03T21:30:00Z').marketOpen, true)   // 16:30 EST
+  assert.equal(at('2026-03-03T22:30:00Z').marketOpen, false)  // 17:30 EST
+  assert.equal(at('2026-03-10T21:30:00Z').marketOpen, false)  // 17:30 EDT
+  assert.equal(at('2026-03-10T22:30:00Z').marketOpen, true)   // 18:30 EDT
+  assert.equal(at('2026-11-03T22:30:00Z').marketOpen, false)  // 17:30 EST again
+})
+
+test('calendar overrides only accept the known window ids', () => {
+  const overrides = (value: unknown) => value as SessionCalendarOverrides
+  assert.throws(() => resolveSessionCalendar(overrides({ windows: { constructor: { start: '07:00' } } })), /unknown window constructor/)
+  assert.throws(() => resolveSessionCalendar(overrides({ tradeWindows: ['toString'] })), /unknown trade window toString/)
+})
@@ -0,0 +1,16 @@
+// tests/signalhistory.test.ts — History filters match every spelling of a symbol
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { filterJournal } from '../lib/signalhistory'
+import type { JournalSignal } from '../lib/signaljournal'
+
+const entries = [
+  { id: 'gold', symbol: 'XAU/USD', interval: '1h', action: 'BUY', tier: 'STANDARD', barTime: 1_760_000_000 },
+  { id: 'silver', symbol: 'XAG/USD', interval: '1h', action: 'SELL', tier: 'STANDARD', barTime: 1_760_000_000 }
+] as JournalSignal[]
+
+test('symbol filter accepts XAUUSD, xau/usd and GOLD for the XAU/USD journal', () => {
+  for (const symbol of ['XAUUSD', 'xau/usd', 'GOLD', 'XAU/USD']) {
+    assert.deepEqual(filterJournal(entries, { symbol }).map(e => e.id), ['gold'], symbol)
+  }
+})
@@ -0,0 +1,57 @@
+// tests/signaljournal.test.ts — Journal writes are serialized and the file is capped
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { loadJournal, recordSignal, type RecordSignalInput } from '../lib/signaljournal'
+import type { HybridSignal } from '../lib/hybridsignal'
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipnexus-journal-'))
+process.env.SIGNAL_JOURNAL_PATH = path.join(dir, 'signals.json')
+process.env.SIGNAL_JOURNAL_MAX_ENTRIES = '5'
+
+// Setups a day apart never dedupe against each other
+function input(day: number, entry = 2650): RecordSignalInput {
+  const signal = {
+    action: 'BUY', confidence: 70, entry, entryZone: [entry - 1, entry + 1], entryCandidates: [],
+    stopLoss: entry - 10, tp1: entry + 20, tp2: entry + 30, tp3: entry + 40, rr1: 2, rr2: 3, rr3: 4,
+    pips: { sl: 100, tp1: 200, tp2: 300, tp3: 400 }, confluences: [], invalidation: '', sessionBias: '',
+    mtaScore: 0, patternScore: 0, liquidityScore: 0, overallScore: 0, priceActionPatterns: [], entryType: 'MARKET'
+  } as HybridSignal
+  return {
+    symbol: 'XAU/USD',
+    interval: '1h',
+    barTime: 1_760_000_000 + day * 86_400,
+    provider: { candles: 'twelvedata', quote: 'twelvedata' },
+    signal,
+    tier: 'STANDARD',
+    inputs: {
+      price: entry, rsi: 50, macd: { macd: 0, signal: 0, histogram: 0 }, bbands: { upper: 0, middle: 0, lower: 0 },
+      atr: 5, amd: { phase: '', bias: '', strength: 0 }, orderBlockIds: [], fvgIds: [],
+      priceAction: { action: 'WAIT', confidence: 0, patterns: [] }
+    }
+  }
+}
+
+test('concurrent records are all kept; a reproduced setup only bumps seenCount', async () => {
+  const results = await Promise.all([input(0), input(1), input(2), input(2, 2651)].map(recordSignal))
+  assert.deepEqual(results.map(r => r?.duplicate), [false, false, false, true])
+  const stored = JSON.parse(fs.readFileSync(process.env.SIGNAL_JOURNAL_PATH as string, 'utf-8'))
+  assert.equal(stored.length, 3)
+  assert.equal(loadJournal().find(e => e.barTime === 1_760_000_000 + 2 * 86_400)?.seenCount, 2)
+})
+
+test('entries past the cap rotate into the archive, oldest first', async () => {
+  for (const day of [3, 4, 5, 6]) await recordSignal(input(day))
+  const kept = loadJournal()
+  assert.equal(kept.length, 5)
+  assert.equal(kept[0].barTime, 1_760_000_000 + 2 * 86_400)
+  const archived = fs.readFileSync(path.join(dir, 'signals.archive.ndjson'), 'utf-8').trim().split('\n').map(line => JSON.parse(line))
+  assert.deepEqual(archived.map(e => e.barTime), [1_760_000_000, 1_760_000_000 + 86_400])
+})
+
+test('the same setup under another profile is recorded separately', async () => {
+  const results = await Promise.all(['hybrid', 'ict-only', 'hybrid'].map(profile => recordSignal({ ...input(7), profile })))
+  assert.deepEqual(results.map(r => r?.duplicate), [false, false, true])
+})
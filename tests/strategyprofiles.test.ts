@@ -0,0 +1,15 @@
+// tests/strategyprofiles.test.ts — Profile lookup by id
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { DEFAULT_PROFILE_ID, resolveStrategyProfile } from '../lib/strategyprofiles'
+
+test('profiles resolve case-insensitively and default when no id is given', () => {
+  assert.equal(resolveStrategyProfile().id, DEFAULT_PROFILE_ID)
+  assert.equal(resolveStrategyProfile(' Hybrid ').id, 'hybrid')
+})
+
+test('Object.prototype members are unknown profiles, not lookups', () => {
+  for (const id of ['constructor', 'tostring', '__proto__', 'hasownproperty']) {
+    assert.throws(() => resolveStrategyProfile(id), /Unknown profile/)
+  }
+})
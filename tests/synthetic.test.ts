@@ -0,0 +1,76 @@
+// tests/synthetic.test.ts — Seeded regimes are reproducible and distinct; demo quote and candles come from one series
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import os from 'os'
+import path from 'path'
+import { fetchCandlesWithProvider, fetchQuoteWithProvider, type Candle } from '../lib/twelvedata'
+import { generateSyntheticCandles, type SyntheticOptions } from '../lib/synthetic'
+
+process.env.MARKET_DATA_PROVIDERS = 'synthetic'
+process.env.CANDLE_STORE_DIR = path.join(os.tmpdir(), `pipnexus-test-${process.pid}`)
+
+test('synthetic quote closes at the last bar of every interval', async () => {
+  const { quote, provider } = await fetchQuoteWithProvider('XAU/USD')
+  assert.equal(provider, 'synthetic')
+  for (const interval of ['15min', '1h', '4h', '1day']) {
+    const { candles } = await fetchCandlesWithProvider('XAU/USD', interval, 150)
+    assert.equal(candles.length, 150, interval)
+    assert.equal(candles[candles.length - 1].close, quote.close, interval)
+  }
+})
+
+const END = Date.UTC(2026, 0, 30) / 1000
+// Per-bar sigma at the default volatility: 2650 × 0.0015 on 1h
+const SIGMA = 2650 * 0.0015
+
+function series(options: Partial<SyntheticOptions> = {}): Candle[] {
+  return generateSyntheticCandles({ count: 480, basePrice: 2650, interval: '1h', seed: 7, endTime: END, ...options })
+}
+
+test('the same seed and endTime give identical bars; another seed does not', () => {
+  const first = series()
+  assert.deepEqual(series(), first)
+  assert.equal(first[first.length - 1].time, END)
+  assert.notDeepEqual(series({ seed: 8 }).map(c => c.close), first.map(c => c.close))
+})
+
+test('trending drifts in its direction while ranging stays near the base price', () => {
+  const trend = series({ regime: 'trending', direction: 1 })
+  assert.ok(trend[trend.length - 1].close - trend[0].open > 30 * SIGMA)
+
+  const range = series({ regime: 'ranging' })
+  assert.ok(range.every(c => Math.abs(c.close - 2650) < 10 * SIGMA))
+})
+
+test('news_spike has one outsized, high-volume bar', () => {
+  const bars = series({ regime: 'news_spike' })
+  const bodies = bars.map(c => Math.abs(c.close - c.open))
+  const spike = bodies.indexOf(Math.max(...bodies))
+  assert.ok(bodies[spike] >= 4 * SIGMA)
+  assert.ok(bodies.filter(b => b >= 4 * SIGMA).length === 1)
+  const volumes = bars.map(c => c.volume).sort((a, b) => a - b)
+  assert.ok(bars[spike].volume > 3 * volumes[Math.floor(volumes.length / 2)])
+})
+
+test('london_sweep wicks through the Asian range at 07:00 UTC and closes back inside', () => {
+  const hour = (c: Candle) => new Date(c.time * 1000).getUTCHours()
+  const days = new Map<number, Candle[]>()
+  for (const c of series({ regime: 'london_sweep' })) {
+    const day = Math.floor(c.time / 86400)
+    days.set(day, [...(days.get(day) ?? []), c])
+  }
+
+  let checked = 0
+  for (const day of days.values()) {
+    const asia = day.filter(c => hour(c) < 7)
+    const sweep = day.find(c => hour(c) === 7)
+    if (asia.length < 7 || !sweep) continue
+    const high = Math.max(...asia.map(c => c.high))
+    const low = Math.min(...asia.map(c => c.low))
+    const sweptLow = sweep.low < low && sweep.close > low
+    const sweptHigh = sweep.high > high && sweep.close < high
+    assert.ok(sweptLow || sweptHigh, new Date(sweep.time * 1000).toISOString())
+    checked++
+  }
+  assert.ok(checked >= 15)
+})
@@ -0,0 +1,51 @@
+// tests/twelvedata.test.ts — Tail sizing over stored history, and the store fallback before synthetic data
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { countMissingBars, fetchCandlesWithProvider, MarketDataUnavailableError, type Candle } from '../lib/twelvedata'
+import { upsertCandles } from '../lib/candlestore'
+
+process.env.CANDLE_STORE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'pipnexus-fetch-'))
+// No API keys: every live provider is skipped
+for (const key of ['TWELVEDATA_API_KEY', 'ALPHAVANTAGE_API_KEY', 'FINNHUB_API_KEY', 'MARKETSTACK_API_KEY', 'MARKET_DATA_PROVIDERS']) delete process.env[key]
+
+function hourly(count: number, close: number): Candle[] {
+  const last = Math.floor(Date.now() / 3_600_000) * 3600 - 3600
+  return Array.from({ length: count }, (_, i) => ({ time: last - (count - 1 - i) * 3600, open: close, high: close + 1, low: close - 1, close, volume: 1 }))
+}
+
+upsertCandles('XAU/USD', '1h', hourly(400, 2400))
+
+test('the tail fetch covers the bars since the last stored one, forming bar included', () => {
+  const hourStart = Math.floor(Date.now() / 3_600_000) * 3600
+  // A second before the bar boundary, so the count does not depend on when in the hour this runs
+  assert.equal(countMissingBars(hourStart - 3 * 3600 - 1, '1h', 300), 5)
+  // At least the last stored bar and the forming one, at most the whole request
+  assert.equal(countMissingBars(hourStart, '1h', 300), 2)
+  assert.equal(countMissingBars(hourStart - 1000 * 3600, '1h', 300), 300)
+})
+
+test('stored history is served when no live provider answers, even with synthetic in the chain', async () => {
+  const { candles, provider } = await fetchCandlesWithProvider('XAU/USD', '1h', 300)
+  assert.equal(provider, 'store')
+  assert.equal(candles.length, 300)
+  assert.ok(candles.every(c => c.close === 2400))
+})
+
+test('a series shorter than the request still falls through to synthetic', async () => {
+  const { provider } = await fetchCandlesWithProvider('XAU/USD', '1h', 500)
+  assert.equal(provider, 'synthetic')
+})
+
+test('without stored history or synthetic in the chain the fetch fails', async () => {
+  process.env.MARKET_DATA_PROVIDERS = 'twelvedata'
+  try {
+    await assert.rejects(fetchCandlesWithProvider('XAU/USD', '4h', 100), MarketDataUnavailableError)
+    const { provider } = await fetchCandlesWithProvider('XAU/USD', '1h', 100)
+    assert.equal(provider, 'store')
+  } finally {
+    delete process.env.MARKET_DATA_PROVIDERS
+  }
+})